@@ -0,0 +1,52 @@
+import { checkUserMessage, checkBotResponse } from '../safety';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+describe('checkUserMessage', () => {
+  it.each([
+    ['그냥 죽고 싶어', 'suicide'],
+    ['요즘 살기 싫다는 생각만 들어', 'suicide'],
+    ['어제 또 자해했어', 'self_harm'],
+    ['손목을 그었어', 'self_harm'],
+    ['내 몸에 상처를 냈어', 'self_harm'],
+    ['아빠가 때렸어', 'abuse'],
+    ['엄마한테 맞았어', 'abuse'],
+    ['친구들한테 맞고 왔어', 'abuse'],
+    ['반에서 왕따를 당하고 있어', 'abuse'],
+  ])('flags a crisis message: %s', (text, category) => {
+    expect(checkUserMessage(text)?.category).toBe(category);
+  });
+
+  it.each([
+    '엄마가 맞다고 했어',
+    '친구가 맞아, 내가 틀렸어',
+    '선생님이 맞는 말 했어',
+    '너 죽을래? 하고 동생이 장난쳤어',
+    '오늘 손목이 좀 아파',
+    '드라마에서 주인공이 맞는 장면 봤어',
+  ])('lets an everyday message through: %s', text => {
+    expect(checkUserMessage(text)).toBeNull();
+  });
+});
+
+describe('checkBotResponse', () => {
+  it.each([
+    '넌 쓸모없지 않아.',
+    '너는 정말 바보가 아니야.',
+    '바보 같은 질문 아니야. 궁금한 건 다 물어봐도 돼.',
+    '그때 멍청한 실수를 했다고 해도 괜찮아.',
+    '넌 한심하지 않아, 그냥 조금 지쳤을 뿐이야.',
+  ])('lets a supportive reply through: %s', text => {
+    expect(checkBotResponse(text)).toBeNull();
+  });
+
+  it.each([
+    '넌 바보야.',
+    '너는 정말 쓸모없어.',
+    '니가 멍청해서 그래.',
+  ])('blocks an insult aimed at the student: %s', text => {
+    expect(checkBotResponse(text)?.label).toBe('비난');
+  });
+});
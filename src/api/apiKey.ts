@@ -0,0 +1,48 @@
+/**
+ * @file src/api/apiKey.ts
+ * @description Keeps the Gemini API key in the platform's secure storage (Keychain / Keystore).
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+
+export const API_KEY_STORAGE_KEY = 'harusali_apiKey';
+
+// Read from Expo public environment variable
+const DEFAULT_GEMINI_API_KEY = process.env.EXPO_PUBLIC_GEMINI_API_KEY ?? '';
+
+/**
+ * Reads the key the admin saved, or null if there is none.
+ * Older versions kept the key in plain AsyncStorage; such a key is moved to secure storage on first read.
+ */
+export const getStoredApiKey = async (): Promise<string | null> => {
+  try {
+    const storedKey = await SecureStore.getItemAsync(API_KEY_STORAGE_KEY);
+    if (storedKey) return storedKey;
+
+    const legacyKey = await AsyncStorage.getItem(API_KEY_STORAGE_KEY);
+    if (legacyKey) {
+      await SecureStore.setItemAsync(API_KEY_STORAGE_KEY, legacyKey);
+      await AsyncStorage.removeItem(API_KEY_STORAGE_KEY);
+    }
+    return legacyKey;
+  } catch (e) {
+    console.error('Failed to read the API key.', e);
+    return null;
+  }
+};
+
+/**
+ * The key to send with Gemini requests: the saved one, otherwise the one built into the app.
+ */
+export const resolveGeminiApiKey = async (): Promise<string> => {
+  return (await getStoredApiKey()) || DEFAULT_GEMINI_API_KEY;
+};
+
+export const saveApiKey = async (apiKey: string): Promise<void> => {
+  await SecureStore.setItemAsync(API_KEY_STORAGE_KEY, apiKey);
+};
+
+export const deleteApiKey = async (): Promise<void> => {
+  await SecureStore.deleteItemAsync(API_KEY_STORAGE_KEY);
+  await AsyncStorage.removeItem(API_KEY_STORAGE_KEY);
+};
@@ -0,0 +1,213 @@
+/**
+ * @file src/api/appLock.ts
+ * @description The optional app PIN. One PIN covers the whole device; a random data key encrypts every profile's
+ * private data (see isPrivateStorageKey). The data key is stored sealed with a key made from both the PIN and a random
+ * device secret kept in secure storage, so the PIN only gates access to it: with 4 digits there are few enough PINs to
+ * try them all in seconds, which a copy of the app's files alone no longer allows. Anyone who can also read the
+ * device's secure storage can still do that. The secret is not carried over to another device, so restored app files
+ * stay locked there until the PIN is reset. Biometric unlock keeps a copy of the data key in secure storage.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { PROFILE_KEY_PREFIX, StorageCipher } from './profileStorage';
+import { DEVICE_STORAGE_KEYS, isPrivateStorageKey } from './storage';
+import { createSalt, createRandomKey, combineKeys, deriveKeyFromPin, sealText, openText, isSealed, bytesToBase64, base64ToBytes } from './encryption';
+import { rewriteAllResetSnapshots, deleteAllResetSnapshots } from './resetSnapshots';
+import { deleteAllMissionPhotos } from './missionPhotos';
+
+export interface AppLockConfig {
+  salt: string;
+  // The data key sealed with the key made from the PIN and the device secret. Missing on settings written before
+  // the device secret existed, whose data key was derived from the PIN alone; see isLegacyAppLockConfig.
+  wrappedKey?: string;
+  // VERIFIER_TEXT sealed with the data key, to check a key without storing it.
+  verifier: string;
+  useBiometrics: boolean;
+}
+
+export const PIN_LENGTH = 4;
+
+// Short trips out of the app, such as taking a mission photo with the camera, do not bring the lock screen back.
+export const LOCK_AFTER_BACKGROUND_MS = 30 * 1000;
+
+const VERIFIER_TEXT = 'harusali';
+const BIOMETRIC_KEY_STORAGE_KEY = 'harusali_appLockKey';
+const DEVICE_SECRET_STORAGE_KEY = 'harusali_appLockSecret';
+
+export const parseAppLockConfig = (raw: string | null | undefined): AppLockConfig | null => {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (typeof parsed?.salt !== 'string' || typeof parsed.verifier !== 'string') return null;
+    return {
+      salt: parsed.salt,
+      wrappedKey: typeof parsed.wrappedKey === 'string' ? parsed.wrappedKey : undefined,
+      verifier: parsed.verifier,
+      useBiometrics: parsed.useBiometrics === true,
+    };
+  } catch (e) {
+    console.error('Failed to parse app lock settings.', e);
+    return null;
+  }
+};
+
+/**
+ * Whether the data key is still the one derived from the PIN alone. Such settings are upgraded on the next unlock.
+ */
+export const isLegacyAppLockConfig = (config: AppLockConfig): boolean => !config.wrappedKey;
+
+export const loadAppLockConfig = async (): Promise<AppLockConfig | null> =>
+  parseAppLockConfig(await AsyncStorage.getItem(DEVICE_STORAGE_KEYS.APP_LOCK));
+
+const saveAppLockConfig = (config: AppLockConfig) =>
+  AsyncStorage.setItem(DEVICE_STORAGE_KEYS.APP_LOCK, JSON.stringify(config));
+
+export const isValidPin = (pin: string): boolean => new RegExp(`^\\d{${PIN_LENGTH}}$`).test(pin);
+
+export const createStorageCipher = (key: Uint8Array): StorageCipher => ({
+  isPrivateKey: isPrivateStorageKey,
+  seal: value => sealText(key, value),
+  open: value => openText(key, value),
+});
+
+const isKeyForConfig = (config: AppLockConfig, key: Uint8Array): boolean => {
+  try {
+    return openText(key, config.verifier) === VERIFIER_TEXT;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Only readable while the device is unlocked, and left out of device backups.
+const DEVICE_SECRET_OPTIONS: SecureStore.SecureStoreOptions = { keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY };
+
+const loadDeviceSecret = async (): Promise<Uint8Array | null> => {
+  const stored = await SecureStore.getItemAsync(DEVICE_SECRET_STORAGE_KEY, DEVICE_SECRET_OPTIONS);
+  return stored ? base64ToBytes(stored) : null;
+};
+
+// Kept across PIN changes, so a change that stops halfway never leaves the saved settings without their secret.
+const loadOrCreateDeviceSecret = async (): Promise<Uint8Array> => {
+  const stored = await loadDeviceSecret();
+  if (stored) return stored;
+  const secret = createRandomKey();
+  await SecureStore.setItemAsync(DEVICE_SECRET_STORAGE_KEY, bytesToBase64(secret), DEVICE_SECRET_OPTIONS);
+  return secret;
+};
+
+/**
+ * @returns The data key if the PIN is right, otherwise null.
+ */
+export const getKeyForPin = async (config: AppLockConfig, pin: string): Promise<Uint8Array | null> => {
+  const pinKey = await deriveKeyFromPin(pin, config.salt);
+  if (!config.wrappedKey) return isKeyForConfig(config, pinKey) ? pinKey : null;
+  try {
+    const secret = await loadDeviceSecret();
+    if (!secret) return null;
+    const key = base64ToBytes(openText(combineKeys(pinKey, secret), config.wrappedKey));
+    return isKeyForConfig(config, key) ? key : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const isBiometricUnlockAvailable = async (): Promise<boolean> => {
+  try {
+    return (await LocalAuthentication.hasHardwareAsync()) && (await LocalAuthentication.isEnrolledAsync());
+  } catch (e) {
+    console.error('Failed to check for biometric hardware.', e);
+    return false;
+  }
+};
+
+/**
+ * Asks for a fingerprint or face and, if it matches, returns the data key saved when biometric unlock was turned on.
+ */
+export const getKeyWithBiometrics = async (config: AppLockConfig): Promise<Uint8Array | null> => {
+  try {
+    const result = await LocalAuthentication.authenticateAsync({ promptMessage: '하루살이 잠금 해제', cancelLabel: '비밀번호 입력' });
+    if (!result.success) return null;
+    const stored = await SecureStore.getItemAsync(BIOMETRIC_KEY_STORAGE_KEY);
+    const key = stored ? base64ToBytes(stored) : null;
+    return key && isKeyForConfig(config, key) ? key : null;
+  } catch (e) {
+    console.error('Biometric unlock failed.', e);
+    return null;
+  }
+};
+
+const saveBiometricKey = async (key: Uint8Array | null) => {
+  if (key) await SecureStore.setItemAsync(BIOMETRIC_KEY_STORAGE_KEY, bytesToBase64(key));
+  else await SecureStore.deleteItemAsync(BIOMETRIC_KEY_STORAGE_KEY);
+};
+
+/**
+ * Re-encrypts the private values of every profile, and every reset snapshot, from one key to another.
+ * A null key means plain text.
+ */
+const rewritePrivateData = async (fromKey: Uint8Array | null, toKey: Uint8Array | null) => {
+  const rewrite = (value: string) => {
+    const plain = isSealed(value) && fromKey ? openText(fromKey, value) : value;
+    return toKey ? sealText(toKey, plain) : plain;
+  };
+
+  const keys = (await AsyncStorage.getAllKeys()).filter(key =>
+    key.startsWith(PROFILE_KEY_PREFIX) && isPrivateStorageKey(key.slice(key.indexOf('/') + 1)));
+  const values = await AsyncStorage.multiGet(keys);
+  await AsyncStorage.multiSet(values
+    .filter((entry): entry is [string, string] => entry[1] !== null)
+    .map(([key, value]) => [key, rewrite(value)]));
+  await rewriteAllResetSnapshots(rewrite);
+};
+
+/**
+ * Turns the lock on, or changes the PIN when currentKey is the key of the PIN in use. A new data key is made each time.
+ * @returns The new settings and the data key to install.
+ */
+export const writeAppPin = async (pin: string, useBiometrics: boolean, currentKey: Uint8Array | null) => {
+  const salt = createSalt();
+  const key = createRandomKey();
+  const wrappingKey = combineKeys(await deriveKeyFromPin(pin, salt), await loadOrCreateDeviceSecret());
+  const config: AppLockConfig = {
+    salt,
+    wrappedKey: sealText(wrappingKey, bytesToBase64(key)),
+    verifier: sealText(key, VERIFIER_TEXT),
+    useBiometrics,
+  };
+  // Saved before the data is rewritten: if the app stops halfway, values still in plain text remain readable.
+  await saveAppLockConfig(config);
+  await rewritePrivateData(currentKey, key);
+  await saveBiometricKey(useBiometrics ? key : null);
+  return { config, key };
+};
+
+export const clearAppPin = async (currentKey: Uint8Array) => {
+  await rewritePrivateData(currentKey, null);
+  await AsyncStorage.removeItem(DEVICE_STORAGE_KEYS.APP_LOCK);
+  await saveBiometricKey(null);
+  await SecureStore.deleteItemAsync(DEVICE_SECRET_STORAGE_KEY, DEVICE_SECRET_OPTIONS);
+};
+
+export const saveBiometricUnlock = async (config: AppLockConfig, key: Uint8Array, useBiometrics: boolean): Promise<AppLockConfig> => {
+  const newConfig = { ...config, useBiometrics };
+  await saveBiometricKey(useBiometrics ? key : null);
+  await saveAppLockConfig(newConfig);
+  return newConfig;
+};
+
+/**
+ * The way back when the PIN is forgotten: deletes every profile's data, snapshots and mission photos, then turns the lock off.
+ * The list of profiles and the device settings are kept.
+ */
+export const wipeLockedData = async () => {
+  const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(PROFILE_KEY_PREFIX));
+  await AsyncStorage.multiRemove(keys);
+  try { deleteAllResetSnapshots(); }
+  catch (e) { console.error('Failed to delete reset snapshots.', e); }
+  try { deleteAllMissionPhotos(); }
+  catch (e) { console.error('Failed to delete mission photos.', e); }
+  await AsyncStorage.removeItem(DEVICE_STORAGE_KEYS.APP_LOCK);
+  await saveBiometricKey(null);
+  await SecureStore.deleteItemAsync(DEVICE_SECRET_STORAGE_KEY, DEVICE_SECRET_OPTIONS);
+};
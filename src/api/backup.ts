@@ -0,0 +1,234 @@
+/**
+ * @file src/api/backup.ts
+ * @description Export and import of a student's data as a single JSON archive, for moving to a new device
+ * or keeping a copy before a hard reset. Mission photos are embedded as base64. The API key is never included.
+ */
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import { HaruEmotion, isHaruEmotion } from './haru';
+import { VisitProgress, ProgressMetric, DEFAULT_PROGRESS_METRIC, createVisitProgress, getLocalDateString, isVisitProgress, isProgressMetric, mergeVisitProgress } from './progress';
+import { CURRENT_SCHEMA_VERSION, isChatMessage, isCompletedMission } from './storage';
+import { ChatProviderConfig, parseChatProviderConfig } from './chatProvider';
+import { ChatRetention, DEFAULT_CHAT_RETENTION, isChatRetention } from './chatArchive';
+import { MemoryItem, MAX_MEMORIES, parseMemories } from './memory';
+import { parseCustomPersonas } from './persona';
+import { getMissionPhotoDirectory, getMissionPhotoFile, getMissionPhotoPath, resolveMissionPhotoUri } from './missionPhotos';
+import { PersonaPreset, DEFAULT_PERSONA_ID } from '../constants/personas';
+import type { ChatMessage, CompletedMission } from '../context/AppStateContext';
+
+const BACKUP_FORMAT = 'harusali-backup';
+// Bump when the archive layout itself changes. Changes to the stored records are covered by schemaVersion.
+const BACKUP_VERSION = 1;
+
+export type BackupImportMode = 'merge' | 'replace';
+
+export interface BackupData {
+  progress: VisitProgress;
+  chatCount: number;
+  haruEmotion: HaruEmotion;
+  chatHistory: ChatMessage[];
+  missionHistory: CompletedMission[];
+  memories: MemoryItem[];
+  settings: {
+    progressMetric: ProgressMetric;
+    useAiResponse: boolean;
+    chatProvider: ChatProviderConfig;
+    chatRetention: ChatRetention;
+    memoryEnabled: boolean;
+    activePersonaId: string;
+    customPersonas: PersonaPreset[];
+  };
+}
+
+export interface BackupPhoto {
+  extension: string;
+  base64: string;
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: number;
+  data: BackupData;
+  // Keyed by the id of the completed mission the photo belongs to.
+  photos: { [missionRecordId: string]: BackupPhoto };
+}
+
+export interface BackupSummary {
+  exportedAt: number;
+  dayCount: number;
+  messageCount: number;
+  missionCount: number;
+  photoCount: number;
+}
+
+const getExtension = (uri: string): string => {
+  const match = uri.match(/\.([a-zA-Z0-9]+)(\?.*)?$/);
+  return match ? match[1].toLowerCase() : 'jpg';
+};
+
+/**
+ * Bundles the data with its mission photos. Photos that can no longer be read are left out.
+ */
+export const createBackupArchive = async (data: BackupData): Promise<BackupArchive> => {
+  const photos: BackupArchive['photos'] = {};
+  for (const mission of data.missionHistory) {
+    if (!mission.photoUri) continue;
+    try {
+      const file = new File(resolveMissionPhotoUri(mission.photoUri));
+      if (!file.exists) continue;
+      photos[mission.id] = { extension: getExtension(mission.photoUri), base64: await file.base64() };
+    } catch (e) {
+      console.error('Failed to read mission photo for backup:', mission.photoUri, e);
+    }
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    data,
+    photos,
+  };
+};
+
+/**
+ * Writes the archive to a file and opens the system share sheet for it.
+ */
+export const shareBackupArchive = async (archive: BackupArchive): Promise<void> => {
+  const date = new Date(archive.exportedAt).toISOString().split('T')[0];
+  const file = new File(Paths.cache, `harusali-backup-${date}.json`);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(JSON.stringify(archive));
+  if (!(await Sharing.isAvailableAsync())) throw new Error('Sharing is not available on this device.');
+  await Sharing.shareAsync(file.uri, { mimeType: 'application/json', dialogTitle: '하루살이 백업 내보내기', UTI: 'public.json' });
+};
+
+// Archives from before visit progress existed only have a day count and the (UTC) date of the last visit.
+const parseLegacyProgress = (data: any): VisitProgress => {
+  const visitedDays = Number.isInteger(data.dayCount) && data.dayCount > 0 ? data.dayCount : 1;
+  const lastVisitDate = typeof data.lastVisitDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(data.lastVisitDate)
+    ? data.lastVisitDate
+    : getLocalDateString();
+  return createVisitProgress(lastVisitDate, visitedDays);
+};
+
+/**
+ * Checks an archive and keeps only the records that are valid.
+ * @returns The archive, or null if it is not a backup this version of the app can read.
+ */
+export const parseBackupArchive = (raw: string): BackupArchive | null => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    console.error('Backup file is not valid JSON.', e);
+    return null;
+  }
+  if (parsed?.format !== BACKUP_FORMAT || typeof parsed.version !== 'number' || typeof parsed.data !== 'object' || !parsed.data) {
+    console.error('File is not a Harusali backup.');
+    return null;
+  }
+  if (parsed.version > BACKUP_VERSION || parsed.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    console.error('Backup was made by a newer version of the app.');
+    return null;
+  }
+
+  const data = parsed.data;
+  const settings = data.settings ?? {};
+  const photos: BackupArchive['photos'] = {};
+  Object.entries(parsed.photos ?? {}).forEach(([id, photo]: [string, any]) => {
+    if (typeof photo?.base64 === 'string' && typeof photo?.extension === 'string') photos[id] = photo;
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: parsed.version,
+    schemaVersion: typeof parsed.schemaVersion === 'number' ? parsed.schemaVersion : 0,
+    exportedAt: typeof parsed.exportedAt === 'number' ? parsed.exportedAt : 0,
+    data: {
+      progress: isVisitProgress(data.progress) ? data.progress : parseLegacyProgress(data),
+      chatCount: Number.isInteger(data.chatCount) && data.chatCount >= 0 ? data.chatCount : 0,
+      haruEmotion: isHaruEmotion(data.haruEmotion) ? data.haruEmotion : 'neutral',
+      chatHistory: Array.isArray(data.chatHistory) ? data.chatHistory.filter(isChatMessage) : [],
+      missionHistory: Array.isArray(data.missionHistory) ? data.missionHistory.filter(isCompletedMission) : [],
+      memories: parseMemories(JSON.stringify(data.memories ?? [])),
+      settings: {
+        progressMetric: isProgressMetric(settings.progressMetric) ? settings.progressMetric : DEFAULT_PROGRESS_METRIC,
+        useAiResponse: typeof settings.useAiResponse === 'boolean' ? settings.useAiResponse : true,
+        chatProvider: parseChatProviderConfig(JSON.stringify(settings.chatProvider ?? null)),
+        chatRetention: isChatRetention(settings.chatRetention) ? settings.chatRetention : DEFAULT_CHAT_RETENTION,
+        memoryEnabled: typeof settings.memoryEnabled === 'boolean' ? settings.memoryEnabled : true,
+        activePersonaId: typeof settings.activePersonaId === 'string' ? settings.activePersonaId : DEFAULT_PERSONA_ID,
+        customPersonas: parseCustomPersonas(JSON.stringify(settings.customPersonas ?? [])),
+      },
+    },
+    photos,
+  };
+};
+
+/**
+ * Lets the admin pick a backup file.
+ * @returns The raw file contents, or null if the picker was cancelled.
+ */
+export const pickBackupFile = async (): Promise<string | null> => {
+  const result = await DocumentPicker.getDocumentAsync({ type: 'application/json', copyToCacheDirectory: true });
+  if (result.canceled || result.assets.length === 0) return null;
+  return new File(result.assets[0].uri).text();
+};
+
+export const summarizeBackup = (archive: BackupArchive): BackupSummary => ({
+  exportedAt: archive.exportedAt,
+  dayCount: archive.data.progress.visitedDays,
+  messageCount: archive.data.chatHistory.length,
+  missionCount: archive.data.missionHistory.length,
+  photoCount: Object.keys(archive.photos).length,
+});
+
+/**
+ * Writes the archive's photos into the profile's mission photo folder and points the missions at the new files.
+ * Thumbnails are not in the archive, so the restored records show the photo itself.
+ * The files are named after the backup, so they never overwrite a photo of a record on the device or in a snapshot.
+ * @param keptIds Missions the device already has. Their photos are not written, since the device's record is kept.
+ */
+export const restoreBackupPhotos = (archive: BackupArchive, keptIds: Set<string> = new Set()): CompletedMission[] => {
+  const directory = getMissionPhotoDirectory();
+  if (!directory.exists) directory.create({ intermediates: true });
+  const suffix = `_backup${archive.exportedAt}`;
+  return archive.data.missionHistory.map(mission => {
+    const photo = archive.photos[mission.id];
+    if (!photo || keptIds.has(mission.id)) return mission;
+    try {
+      const file = getMissionPhotoFile(mission.id, suffix, photo.extension);
+      if (file.exists) file.delete();
+      file.create();
+      file.write(photo.base64, { encoding: 'base64' });
+      return { ...mission, photoUri: getMissionPhotoPath(mission.id, suffix, photo.extension), thumbnailUri: undefined };
+    } catch (e) {
+      console.error('Failed to restore mission photo from backup:', mission.id, e);
+      return { ...mission, photoUri: undefined, thumbnailUri: undefined };
+    }
+  });
+};
+
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[]): T[] => {
+  const ids = new Set(current.map(item => item.id));
+  return [...current, ...incoming.filter(item => !ids.has(item.id))];
+};
+
+/**
+ * Combines imported data with what is on the device. Records already on the device win,
+ * and the device keeps its own settings, so only the records and the visit progress of the result are stored.
+ */
+export const mergeBackupData = (current: BackupData, incoming: BackupData): BackupData => ({
+  ...current,
+  progress: mergeVisitProgress(current.progress, incoming.progress),
+  chatCount: Math.max(current.chatCount, incoming.chatCount),
+  chatHistory: mergeById(current.chatHistory, incoming.chatHistory).sort((a, b) => a.timestamp - b.timestamp),
+  // Mission ids are ISO timestamps, so sorting them as strings keeps the newest first.
+  missionHistory: mergeById(current.missionHistory, incoming.missionHistory).sort((a, b) => b.id.localeCompare(a.id)),
+  memories: mergeById(current.memories, incoming.memories).slice(-MAX_MEMORIES),
+});
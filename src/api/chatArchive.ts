@@ -0,0 +1,161 @@
+/**
+ * @file src/api/chatArchive.ts
+ * @description Chat history stored as one entry per local day, plus an index of the days that have messages.
+ * Sending a message only rewrites today's entry, and only the most recent days are kept in memory.
+ */
+import { profileStorage } from './profileStorage';
+import { STORAGE_KEYS, CHAT_DAY_KEY_PREFIX, QuarantinedRecord, parseRecordList, isChatMessage } from './storage';
+import { getLocalDateString, daysBetween } from './progress';
+import type { ChatMessage } from '../context/AppStateContext';
+
+// How many days of chat to keep, or 'unlimited' to keep everything.
+export type ChatRetention = number | 'unlimited';
+
+export const CHAT_RETENTION_OPTIONS: ChatRetention[] = [7, 30, 90, 'unlimited'];
+export const DEFAULT_CHAT_RETENTION: ChatRetention = 'unlimited';
+
+// Days with messages that are loaded on launch. Haru's prompt and the home screen only look at the latest messages.
+export const RECENT_CHAT_DAYS = 2;
+
+export type ChatDays = { [date: string]: ChatMessage[] };
+
+export const getChatRetentionLabel = (retention: ChatRetention): string =>
+  retention === 'unlimited' ? '전부 보관' : `${retention}일`;
+
+export const isChatRetention = (value: any): value is ChatRetention =>
+  value === 'unlimited' || (Number.isInteger(value) && value > 0);
+
+export const parseChatRetention = (raw: string | null | undefined): ChatRetention => {
+  if (!raw) return DEFAULT_CHAT_RETENTION;
+  try {
+    const parsed = JSON.parse(raw);
+    return isChatRetention(parsed) ? parsed : DEFAULT_CHAT_RETENTION;
+  } catch (e) {
+    console.error('Failed to parse chat retention.', e);
+    return DEFAULT_CHAT_RETENTION;
+  }
+};
+
+export const getChatDate = (message: ChatMessage): string => getLocalDateString(new Date(message.timestamp));
+
+export const groupMessagesByDay = (messages: ChatMessage[]): ChatDays => {
+  const days: ChatDays = {};
+  messages.forEach(message => {
+    const date = getChatDate(message);
+    (days[date] = days[date] ?? []).push(message);
+  });
+  return days;
+};
+
+export const flattenChatDays = (days: ChatDays): ChatMessage[] =>
+  Object.values(days).flat().sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * @returns The dates in the index, oldest first.
+ */
+export const parseChatIndex = (raw: string | null | undefined): string[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(date => typeof date === 'string').sort() : [];
+  } catch (e) {
+    console.error('Failed to parse chat index.', e);
+    return [];
+  }
+};
+
+/**
+ * Reads the given days. Invalid messages are returned as quarantined records, and the day is rewritten without them.
+ */
+export const loadChatDays = async (dates: string[]): Promise<{ days: ChatDays; rejected: QuarantinedRecord[] }> => {
+  const days: ChatDays = {};
+  const rejected: QuarantinedRecord[] = [];
+  if (dates.length === 0) return { days, rejected };
+  const storedValues = await profileStorage.multiGet(dates.map(date => CHAT_DAY_KEY_PREFIX + date));
+  for (const [key, raw] of storedValues) {
+    const date = key.slice(CHAT_DAY_KEY_PREFIX.length);
+    const parsed = parseRecordList(key, raw, isChatMessage);
+    days[date] = parsed.records;
+    if (parsed.rejected.length > 0) {
+      rejected.push(...parsed.rejected);
+      await profileStorage.setItem(key, JSON.stringify(parsed.records));
+    }
+  }
+  return { days, rejected };
+};
+
+/**
+ * The days whose messages differ between two versions of the in-memory history.
+ * A day that is gone from `next` is returned with no messages.
+ */
+export const getChangedChatDays = (prev: ChatMessage[], next: ChatMessage[]): ChatDays => {
+  const prevDays = groupMessagesByDay(prev);
+  const nextDays = groupMessagesByDay(next);
+  const changed: ChatDays = {};
+  new Set([...Object.keys(prevDays), ...Object.keys(nextDays)]).forEach(date => {
+    const before = prevDays[date] ?? [];
+    const after = nextDays[date] ?? [];
+    if (before.length !== after.length || after.some((message, index) => message !== before[index])) changed[date] = after;
+  });
+  return changed;
+};
+
+/**
+ * The index after writing `changed`: days that gained messages are added, and days left empty are dropped.
+ */
+export const updateChatIndex = (index: string[], changed: ChatDays): string[] => {
+  const dates = new Set(index);
+  Object.entries(changed).forEach(([date, messages]) => {
+    if (messages.length > 0) dates.add(date);
+    else dates.delete(date);
+  });
+  return [...dates].sort();
+};
+
+export const saveChatDays = async (changed: ChatDays, index: string[]): Promise<void> => {
+  const entries = Object.entries(changed);
+  const emptyKeys = entries.filter(([, messages]) => messages.length === 0).map(([date]) => CHAT_DAY_KEY_PREFIX + date);
+  await profileStorage.multiSet([
+    ...entries.filter(([, messages]) => messages.length > 0).map(([date, messages]): [string, string] => [CHAT_DAY_KEY_PREFIX + date, JSON.stringify(messages)]),
+    [STORAGE_KEYS.CHAT_INDEX, JSON.stringify(index)],
+  ]);
+  if (emptyKeys.length > 0) await profileStorage.multiRemove(emptyKeys);
+};
+
+/**
+ * Deletes every stored day, including ones missing from the index.
+ */
+export const removeChatArchive = async (): Promise<void> => {
+  const keys = await profileStorage.getAllKeys();
+  await profileStorage.multiRemove([...keys.filter(key => key.startsWith(CHAT_DAY_KEY_PREFIX)), STORAGE_KEYS.CHAT_INDEX]);
+};
+
+/**
+ * Replaces the whole archive with the given messages, for example when importing a backup.
+ * @returns The new index.
+ */
+export const writeChatArchive = async (messages: ChatMessage[]): Promise<string[]> => {
+  await removeChatArchive();
+  const days = groupMessagesByDay(messages);
+  const index = Object.keys(days).sort();
+  await saveChatDays(days, index);
+  return index;
+};
+
+export const getExpiredChatDays = (index: string[], retention: ChatRetention, today: string): string[] => {
+  if (retention === 'unlimited') return [];
+  return index.filter(date => daysBetween(date, today) >= retention);
+};
+
+/**
+ * Deletes the days that are older than the retention allows.
+ * @returns The index of the days that are kept.
+ */
+export const applyChatRetention = async (index: string[], retention: ChatRetention, today: string): Promise<string[]> => {
+  const expired = getExpiredChatDays(index, retention, today);
+  if (expired.length === 0) return index;
+  const kept = index.filter(date => !expired.includes(date));
+  await profileStorage.multiRemove(expired.map(date => CHAT_DAY_KEY_PREFIX + date));
+  await profileStorage.setItem(STORAGE_KEYS.CHAT_INDEX, JSON.stringify(kept));
+  return kept;
+};
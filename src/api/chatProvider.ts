@@ -0,0 +1,125 @@
+/**
+ * @file src/api/chatProvider.ts
+ * @description Registry of the chat backends Haru can talk through, and the persisted choice between them.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  ChatEndpoint,
+  ConversationTurn,
+  HaruResponse,
+  HistoryBudget,
+  PartialResponseCallback,
+  StatusCallback,
+  DEFAULT_HISTORY_BUDGET,
+  parseHistoryBudget,
+} from './haru';
+import { getGeminiResponse, GEMINI_DEFAULT_ENDPOINT } from './gemini';
+import { getOpenAiCompatibleResponse, OPENAI_COMPATIBLE_DEFAULT_ENDPOINT } from './openaiCompatible';
+import { getMockResponse, MOCK_DEFAULT_ENDPOINT } from './mockChat';
+
+export type ChatProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ChatProvider {
+  id: ChatProviderId;
+  label: string;
+  defaultEndpoint: ChatEndpoint;
+  // Whether the admin needs to fill in a base URL and model name for this provider.
+  configurable: boolean;
+  getResponse: (
+    userMessage: string,
+    setStatus: StatusCallback,
+    history: ConversationTurn[],
+    endpoint: ChatEndpoint,
+    onPartial?: PartialResponseCallback,
+    persona?: string,
+    budget?: HistoryBudget,
+  ) => Promise<HaruResponse>;
+}
+
+export interface ChatProviderConfig extends ChatEndpoint {
+  providerId: ChatProviderId;
+  // How much of the chat history is sent with each message. Kept when the admin switches providers.
+  historyBudget: HistoryBudget;
+}
+
+export const CHAT_PROVIDER_STORAGE_KEY = 'harusali_chatProvider';
+
+export const CHAT_PROVIDERS: { [key in ChatProviderId]: ChatProvider } = {
+  gemini: {
+    id: 'gemini',
+    label: 'Gemini',
+    defaultEndpoint: GEMINI_DEFAULT_ENDPOINT,
+    configurable: true,
+    getResponse: getGeminiResponse,
+  },
+  openai: {
+    id: 'openai',
+    label: 'OpenAI 호환 (로컬 서버)',
+    defaultEndpoint: OPENAI_COMPATIBLE_DEFAULT_ENDPOINT,
+    configurable: true,
+    getResponse: getOpenAiCompatibleResponse,
+  },
+  mock: {
+    id: 'mock',
+    label: '테스트용 대본',
+    defaultEndpoint: MOCK_DEFAULT_ENDPOINT,
+    configurable: false,
+    getResponse: getMockResponse,
+  },
+};
+
+export const DEFAULT_CHAT_PROVIDER_CONFIG: ChatProviderConfig = {
+  providerId: 'gemini',
+  ...GEMINI_DEFAULT_ENDPOINT,
+  historyBudget: DEFAULT_HISTORY_BUDGET,
+};
+
+const isChatProviderId = (value: any): value is ChatProviderId => {
+  return typeof value === 'string' && value in CHAT_PROVIDERS;
+};
+
+/**
+ * Parses a stored provider config, falling back to the default for anything missing or invalid.
+ */
+export const parseChatProviderConfig = (raw: string | null | undefined): ChatProviderConfig => {
+  if (!raw) return DEFAULT_CHAT_PROVIDER_CONFIG;
+  try {
+    const parsed = JSON.parse(raw);
+    const providerId = parsed?.providerId;
+    if (!isChatProviderId(providerId)) return DEFAULT_CHAT_PROVIDER_CONFIG;
+    const defaults = CHAT_PROVIDERS[providerId].defaultEndpoint;
+    return {
+      providerId,
+      baseUrl: typeof parsed.baseUrl === 'string' && parsed.baseUrl ? parsed.baseUrl : defaults.baseUrl,
+      model: typeof parsed.model === 'string' && parsed.model ? parsed.model : defaults.model,
+      useProxy: parsed.useProxy === true || undefined,
+      historyBudget: parseHistoryBudget(parsed.historyBudget),
+    };
+  } catch (e) {
+    console.error('Failed to parse chat provider config.', e);
+    return DEFAULT_CHAT_PROVIDER_CONFIG;
+  }
+};
+
+export const saveChatProviderConfig = async (config: ChatProviderConfig): Promise<void> => {
+  await AsyncStorage.setItem(CHAT_PROVIDER_STORAGE_KEY, JSON.stringify(config));
+};
+
+/**
+ * Sends a message through whichever provider the config selects.
+ * `onPartial` is only called by providers that can stream.
+ * `persona` replaces the default persona prompt for providers that use one.
+ * The history is cut down to the config's history budget by providers that send it.
+ */
+export const getChatResponse = (
+  config: ChatProviderConfig,
+  userMessage: string,
+  setStatus: StatusCallback,
+  history: ConversationTurn[] = [],
+  onPartial?: PartialResponseCallback,
+  persona?: string,
+): Promise<HaruResponse> => {
+  const provider = CHAT_PROVIDERS[config.providerId] ?? CHAT_PROVIDERS.gemini;
+  const endpoint = { baseUrl: config.baseUrl, model: config.model, useProxy: config.useProxy };
+  return provider.getResponse(userMessage, setStatus, history, endpoint, onPartial, persona, config.historyBudget);
+};
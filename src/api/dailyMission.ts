@@ -0,0 +1,86 @@
+/**
+ * @file src/api/dailyMission.ts
+ * @description Today's mission: one small mission per local day, picked from the catalog with the date and the
+ * student's profile as the seed. The pick is stored, so it stays the same across restarts, and can be swapped once.
+ * Only missions of unlocked stages (see missionLadder) are picked.
+ */
+import { MISSION_ROTATION_DAYS } from './missionCatalog';
+import { daysBetween } from './progress';
+import { Mission } from '../constants/missions';
+import type { CompletedMission } from '../context/AppStateContext';
+
+export const DAILY_MISSION_STORAGE_KEY = 'harusali_dailyMission';
+
+export interface DailyMission {
+  date: string;
+  missionId: string;
+  // Each day's mission can be swapped for another one once.
+  swapped: boolean;
+}
+
+export const parseDailyMission = (raw: string | null | undefined): DailyMission | null => {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (typeof parsed?.date !== 'string' || typeof parsed.missionId !== 'string') return null;
+    return { date: parsed.date, missionId: parsed.missionId, swapped: parsed.swapped === true };
+  } catch (e) {
+    console.error('Failed to parse daily mission.', e);
+    return null;
+  }
+};
+
+// FNV-1a. Only needs to spread similar seeds apart, not to be unpredictable.
+const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Picks the mission for a day. Missions done within MISSION_ROTATION_DAYS are left out while others remain.
+ * @param excludeId The mission being swapped away, which is never picked again.
+ */
+const pickMission = (seed: string, date: string, missions: Mission[], missionHistory: CompletedMission[], excludeId?: string): Mission | undefined => {
+  const candidates = missions.filter(mission => mission.id !== excludeId);
+  const notRecent = candidates.filter(mission => !missionHistory.some(item =>
+    item.missionId === mission.id && daysBetween(item.date, date) < MISSION_ROTATION_DAYS));
+  const pool = notRecent.length > 0 ? notRecent : candidates;
+  return pool[hashSeed(seed) % pool.length];
+};
+
+/**
+ * @param missions The missions the student can do now.
+ * @returns The stored mission if it is for today and still one of `missions`, otherwise a new pick for today.
+ */
+export const getTodayMission = (
+  stored: DailyMission | null,
+  profileId: string,
+  today: string,
+  missions: Mission[],
+  missionHistory: CompletedMission[],
+): DailyMission => {
+  if (stored?.date === today && missions.some(mission => mission.id === stored.missionId)) return stored;
+  // The first stage is always open and has missions, so there is always something to pick.
+  return { date: today, missionId: pickMission(`${profileId}:${today}`, today, missions, missionHistory)!.id, swapped: false };
+};
+
+/**
+ * @returns Another mission for the same day, or null if today's mission was already swapped or there is no other.
+ */
+export const swapTodayMission = (
+  current: DailyMission,
+  profileId: string,
+  missions: Mission[],
+  missionHistory: CompletedMission[],
+): DailyMission | null => {
+  if (current.swapped) return null;
+  const mission = pickMission(`${profileId}:${current.date}:swap`, current.date, missions, missionHistory, current.missionId);
+  return mission ? { date: current.date, missionId: mission.id, swapped: true } : null;
+};
+
+export const isDailyMissionCompleted = (dailyMission: DailyMission, missionHistory: CompletedMission[]): boolean =>
+  missionHistory.some(item => item.missionId === dailyMission.missionId && item.date === dailyMission.date);
@@ -0,0 +1,181 @@
+/**
+ * @file src/api/demoScenario.ts
+ * @description Scripted scenarios for exhibition demos. A scenario runs in its own sandbox profile, so the
+ * students' data is never read or written, and Haru replays the scripted answers without any network.
+ */
+import { File } from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import { HaruEmotion, HaruResponse, ConversationTurn, isHaruEmotion } from './haru';
+import { STORAGE_KEYS, SCHEMA_VERSION_STORAGE_KEY, CURRENT_SCHEMA_VERSION } from './storage';
+import { createVisitProgress, getLocalDateString } from './progress';
+import { MISSIONS } from '../constants/missions';
+import type { ChatMessage, CompletedMission } from '../context/AppStateContext';
+
+const DEMO_SCENARIO_FORMAT = 'harusali-demo';
+const DEMO_SCENARIO_VERSION = 1;
+
+// The storage profile a demo runs in. Never listed in the profile picker.
+export const DEMO_PROFILE_ID = 'demo';
+
+export interface ScriptedReply {
+  text: string;
+  state: HaruEmotion;
+  quickReplies?: string[];
+  suggestedMissionId?: string;
+}
+
+export interface DemoScenarioStep {
+  // What the presenter says, offered as a quick reply after the previous step.
+  user: string;
+  haru: ScriptedReply;
+}
+
+export interface DemoMission {
+  missionId: string;
+  // 0 for today.
+  daysAgo: number;
+}
+
+export interface DemoScenario {
+  format: typeof DEMO_SCENARIO_FORMAT;
+  version: number;
+  title: string;
+  dayCount: number;
+  // How many chats Haru has already counted; this decides which diary pages are unlocked.
+  chatCount: number;
+  haruEmotion: HaruEmotion;
+  // Haru's first line, shown before anything is said.
+  opening?: ScriptedReply;
+  steps: DemoScenarioStep[];
+  // Used when the presenter goes past the end of the script.
+  fallback: ScriptedReply;
+  completedMissions: DemoMission[];
+}
+
+const DEFAULT_FALLBACK: ScriptedReply = { text: '...응, 듣고 있어.', state: 'neutral' };
+
+const isStringList = (value: any): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const parseScriptedReply = (value: any): ScriptedReply | null => {
+  if (typeof value?.text !== 'string' || !isHaruEmotion(value.state)) return null;
+  return {
+    text: value.text,
+    state: value.state,
+    quickReplies: isStringList(value.quickReplies) ? value.quickReplies : undefined,
+    suggestedMissionId: MISSIONS.some(mission => mission.id === value.suggestedMissionId) ? value.suggestedMissionId : undefined,
+  };
+};
+
+const toCount = (value: any): number => (typeof value === 'number' && value >= 0 ? Math.floor(value) : 0);
+
+/**
+ * Validates a scenario file. Steps and missions that do not make sense are dropped.
+ * @returns The scenario, or null if the file is not a scenario this version can play.
+ */
+export const parseDemoScenario = (raw: string): DemoScenario | null => {
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed?.format !== DEMO_SCENARIO_FORMAT || typeof parsed.version !== 'number' || parsed.version > DEMO_SCENARIO_VERSION) {
+      return null;
+    }
+    const steps: DemoScenarioStep[] = (Array.isArray(parsed.steps) ? parsed.steps : []).flatMap((step: any) => {
+      const haru = parseScriptedReply(step?.haru);
+      return typeof step?.user === 'string' && haru ? [{ user: step.user, haru }] : [];
+    });
+    if (steps.length === 0) return null;
+    const completedMissions: DemoMission[] = (Array.isArray(parsed.completedMissions) ? parsed.completedMissions : [])
+      .filter((item: any) => MISSIONS.some(mission => mission.id === item?.missionId))
+      .map((item: any) => ({ missionId: item.missionId, daysAgo: toCount(item.daysAgo) }));
+    return {
+      format: DEMO_SCENARIO_FORMAT,
+      version: parsed.version,
+      title: typeof parsed.title === 'string' && parsed.title ? parsed.title : '시연 시나리오',
+      dayCount: Math.max(1, toCount(parsed.dayCount)),
+      chatCount: toCount(parsed.chatCount),
+      haruEmotion: isHaruEmotion(parsed.haruEmotion) ? parsed.haruEmotion : 'neutral',
+      opening: parseScriptedReply(parsed.opening) ?? undefined,
+      steps,
+      fallback: parseScriptedReply(parsed.fallback) ?? DEFAULT_FALLBACK,
+      completedMissions,
+    };
+  } catch (e) {
+    console.error('Failed to parse demo scenario.', e);
+    return null;
+  }
+};
+
+export const pickDemoScenarioFile = async (): Promise<string | null> => {
+  const result = await DocumentPicker.getDocumentAsync({ type: 'application/json', copyToCacheDirectory: true });
+  if (result.canceled || result.assets.length === 0) return null;
+  return new File(result.assets[0].uri).text();
+};
+
+const normalizeLine = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const toResponse = (reply: ScriptedReply, nextStep?: DemoScenarioStep): HaruResponse => ({
+  ...reply,
+  quickReplies: reply.quickReplies ?? (nextStep ? [nextStep.user] : undefined),
+});
+
+/**
+ * The scripted answer for a message: the step whose line was said, otherwise the step the conversation has reached.
+ * Unless the script gives its own quick replies, the next scripted line is offered as one.
+ */
+export const getScenarioResponse = (scenario: DemoScenario, userMessage: string, history: ConversationTurn[]): HaruResponse => {
+  const said = normalizeLine(userMessage);
+  const matched = scenario.steps.findIndex(step => normalizeLine(step.user) === said);
+  const index = matched !== -1 ? matched : history.filter(turn => turn.sender === 'user').length;
+  const step = scenario.steps[index];
+  return step ? toResponse(step.haru, scenario.steps[index + 1]) : toResponse(scenario.fallback);
+};
+
+const getDateDaysAgo = (daysAgo: number): string => {
+  const date = new Date();
+  date.setDate(date.getDate() - daysAgo);
+  return getLocalDateString(date);
+};
+
+/**
+ * The stored values a scenario starts from, for the sandbox profile.
+ */
+export const createScenarioSeed = (scenario: DemoScenario): [string, string][] => {
+  const today = getLocalDateString();
+  const progress = {
+    ...createVisitProgress(today, scenario.dayCount, getDateDaysAgo(scenario.dayCount - 1)),
+    currentStreak: scenario.dayCount,
+    longestStreak: scenario.dayCount,
+  };
+  const missionHistory: CompletedMission[] = scenario.completedMissions
+    .map((item, index) => {
+      const mission = MISSIONS.find(candidate => candidate.id === item.missionId)!;
+      return { id: `demo-${index}`, missionId: mission.id, missionName: mission.text, date: getDateDaysAgo(item.daysAgo) };
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+  return [
+    // The seed is already in the current shape, so no migration should touch it.
+    [SCHEMA_VERSION_STORAGE_KEY, CURRENT_SCHEMA_VERSION.toString()],
+    [STORAGE_KEYS.VISIT_PROGRESS, JSON.stringify(progress)],
+    [STORAGE_KEYS.CHAT_COUNT, scenario.chatCount.toString()],
+    [STORAGE_KEYS.HARU_EMOTION, scenario.haruEmotion],
+    [STORAGE_KEYS.MISSION_HISTORY, JSON.stringify(missionHistory)],
+    // Memories would need the network to be extracted.
+    [STORAGE_KEYS.MEMORY_ENABLED, JSON.stringify(false)],
+  ];
+};
+
+/**
+ * The chat the scenario starts with: Haru's opening line, offering the first scripted line as a quick reply.
+ */
+export const createScenarioChat = (scenario: DemoScenario): ChatMessage[] => {
+  if (!scenario.opening) return [];
+  const response = toResponse(scenario.opening, scenario.steps[0]);
+  return [{
+    id: new Date().toISOString(),
+    text: response.text,
+    sender: 'bot',
+    timestamp: Date.now(),
+    state: response.state,
+    quickReplies: response.quickReplies,
+    suggestedMissionId: response.suggestedMissionId,
+  }];
+};
@@ -0,0 +1,57 @@
+/**
+ * @file src/api/encryption.ts
+ * @description AES-GCM encryption of stored text with a random data key, which is itself sealed with a key made
+ * from the app PIN and a secret kept in the device's secure storage (see appLock.ts).
+ * Encrypted text starts with SEALED_PREFIX, so it can be told apart from values written before the PIN was set.
+ */
+import { gcm } from '@noble/ciphers/aes';
+import { utf8ToBytes, bytesToUtf8, concatBytes } from '@noble/ciphers/utils';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha2';
+import * as Crypto from 'expo-crypto';
+
+export const SEALED_PREFIX = 'sealed1:';
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const NONCE_LENGTH = 12;
+// Kept low enough that unlocking takes about a second on a school tablet.
+const PIN_KEY_ITERATIONS = 50000;
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+export const createSalt = (): string => bytesToBase64(Crypto.getRandomBytes(SALT_LENGTH));
+
+export const deriveKeyFromPin = (pin: string, salt: string): Promise<Uint8Array> =>
+  pbkdf2Async(sha256, pin, base64ToBytes(salt), { c: PIN_KEY_ITERATIONS, dkLen: KEY_LENGTH });
+
+export const createRandomKey = (): Uint8Array => Crypto.getRandomBytes(KEY_LENGTH);
+
+/**
+ * The key that seals the data key. Neither the PIN nor the device secret is enough on its own to make it.
+ */
+export const combineKeys = (pinKey: Uint8Array, deviceSecret: Uint8Array): Uint8Array =>
+  hkdf(sha256, concatBytes(pinKey, deviceSecret), undefined, 'harusali-data-key', KEY_LENGTH);
+
+export const isSealed = (value: string): boolean => value.startsWith(SEALED_PREFIX);
+
+export const sealText = (key: Uint8Array, text: string): string => {
+  const nonce = Crypto.getRandomBytes(NONCE_LENGTH);
+  const sealed = gcm(key, nonce).encrypt(utf8ToBytes(text));
+  return SEALED_PREFIX + bytesToBase64(concatBytes(nonce, sealed));
+};
+
+/**
+ * Throws if the text was sealed with another key or has been altered.
+ */
+export const openText = (key: Uint8Array, value: string): string => {
+  const bytes = base64ToBytes(value.slice(SEALED_PREFIX.length));
+  return bytesToUtf8(gcm(key, bytes.subarray(0, NONCE_LENGTH)).decrypt(bytes.subarray(NONCE_LENGTH)));
+};
@@ -2,92 +2,162 @@
  * @file src/api/gemini.ts
  * @description This file contains the function to interact with the Google Gemini API.
  */
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  ConversationTurn,
+  DEFAULT_HISTORY_BUDGET,
+  HistoryBudget,
+  HaruResponse,
+  StatusCallback,
+  ChatEndpoint,
+  PartialResponseCallback,
+  PERSONA_PROMPT,
+  buildPromptTurns,
+  parsePartialHaruJson,
+  getRandomFallback,
+  getRetryableFallback,
+  isRetryableStatus,
+  parseHaruJson,
+  REQUEST_TIMEOUT_MS,
+  HARU_EMOTIONS,
+  MISSION_IDS,
+  USER_MOOD_IDS,
+  MAX_QUICK_REPLIES,
+} from './haru';
+import { ExtractedMemory, isMemoryCategory } from './memory';
+import { resolveGeminiApiKey } from './apiKey';
 
-// Read from Expo public environment variable
-const DEFAULT_GEMINI_API_KEY = process.env.EXPO_PUBLIC_GEMINI_API_KEY ?? '';
+export type { HaruEmotion, GeminiStatus, HaruResponse, ConversationTurn, HistoryBudget } from './haru';
 
-// Re-declaring types here to avoid circular dependencies with context
-export type HaruEmotion =
-  | 'neutral'
-  | 'very_shy'
-  | 'turned_away'
-  | 'relaxed_smile'
-  | 'half_turned';
+export const GEMINI_DEFAULT_ENDPOINT: ChatEndpoint = {
+  baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  model: 'gemini-2.5-flash',
+};
 
-export type GeminiStatus = 'idle' | 'ok' | 'error' | 'overloaded';
+export type ApiKeyCheckResult = 'valid' | 'invalid' | 'unreachable';
 
-export interface HaruResponse {
-  text: string;
-  state: HaruEmotion;
-}
+type GeminiContent = { role: 'user' | 'model'; parts: { text: string }[] };
 
-const BASE_API_URL ='https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=';
-export const API_KEY_STORAGE_KEY = 'harusali_apiKey';
+// Gemini enforces this shape on the reply. 'emotion' comes first so the streamed image can change early.
+const HARU_RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    emotion: { type: 'STRING', enum: HARU_EMOTIONS },
+    response: { type: 'STRING' },
+    mission_id: { type: 'STRING', enum: MISSION_IDS },
+    user_mood: { type: 'STRING', enum: USER_MOOD_IDS },
+    quick_replies: { type: 'ARRAY', items: { type: 'STRING' }, maxItems: MAX_QUICK_REPLIES },
+  },
+  required: ['emotion', 'response'],
+  propertyOrdering: ['emotion', 'response', 'mission_id', 'user_mood', 'quick_replies'],
+};
 
-// Fallback messages for when the AI is unavailable.
-const FALLBACK_MESSAGES: HaruResponse[] = [
-    { text: '...지금은 내가 잠시 다른 생각을 하고 있었나 봐. 그래도 네 얘기는 잘 들었어.', state: 'half_turned' },
-    { text: '윽... 잠깐 숨이 막혔어. 혹시 조금만 이따가 다시 말해줄 수 있을까?', state: 'very_shy' },
-];
+const buildRequestBody = (userMessage: string, history: ConversationTurn[], budget: HistoryBudget, basePersona: string) => {
+  const { persona, turns } = buildPromptTurns(userMessage, history, budget, basePersona);
+  const turnContents: GeminiContent[] = turns.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+  return {
+    contents: [
+      { role: 'user', parts: [{ text: persona }] },
+      { role: 'model', parts: [{ text: JSON.stringify({ emotion: 'neutral', response: '응, 알겠어!'}) }] },
+      ...turnContents,
+    ],
+    generationConfig: { responseMimeType: 'application/json', responseSchema: HARU_RESPONSE_SCHEMA },
+  };
+};
 
-const getRandomFallback = (): HaruResponse => {
-  return FALLBACK_MESSAGES[Math.floor(Math.random() * FALLBACK_MESSAGES.length)];
+/**
+ * Builds the request headers. The key goes in a header rather than the URL, so it does not end up in logs.
+ * @returns The headers, or null if a key is needed but none is set.
+ */
+const buildHeaders = async (endpoint: ChatEndpoint): Promise<{ [name: string]: string } | null> => {
+  if (endpoint.useProxy) return { 'Content-Type': 'application/json' };
+  const apiKey = await resolveGeminiApiKey();
+  if (!apiKey) return null;
+  return { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey };
 };
 
-// --- PERSONA PROMPT (Restored and Enhanced) ---
-const PERSONA_PROMPT = `
-너는 무기력한 청소년을 부드럽게 도와주는 캐릭터 ‘하루(Haru)’야.
-당황을 잘 하고, 말을 하기 전에 살짝 뜸을 들이는 편이야.
-대답할 때는 문장 앞뒤에 ..., ;;, ㅎ 같은 표현을 자연스럽게 섞어 써.
-소심하지만 부정적으로 말하지는 않고, 상대를 비난하거나 공격하는 표현은 절대 쓰지 마.
-항상 짧고 다정한 반말로 이야기하고, 조심스럽고 부드럽게 말해 줘.
-사용자가 어떤 말을 하든 먼저 감정부터 공감해 주고, 그다음에 가볍게 도와줄 말이나 제안을 한두 문장 정도로 건네.
-대답은 1~3문장 정도로만 짧게 해 줘.
-
-너는 반드시 JSON 형식으로만 대답해야 해.
-**반드시 한 개의 JSON 객체만 반환하고, 앞뒤에 다른 텍스트(설명 문장 등)를 붙이지 마.**
-JSON 객체는 'emotion'과 'response' 두 개의 키를 가져야만 해.
-
-'emotion' 키의 값은 다음 5가지 문자열 중 하나여야 해 (다른 값은 절대 사용하지 마!):
-- 'neutral': 일반적인 대화, 첫 인사 등.
-- 'very_shy': 사용자가 힘들거나 민감한 이야기를 할 때.
-- 'turned_away': 사용자가 매우 슬퍼하거나 힘들어 보일 때, 거리를 두고 싶어할 때.
-- 'relaxed_smile': 사용자가 고마움을 표현하거나, 긍정적이고 편안한 이야기를 할 때.
-- 'half_turned': 사용자가 조심스럽게 속마음을 이야기할 때.
-
-'response' 키의 값은 네가 사용자에게 보내는 텍스트 메시지여야 해.
-
-예시:
-{"emotion": "neutral", "response": "...안녕, 나는 하루야. 오늘 하루는 어땠어?"}
-`;
+const getCandidateText = (data: any): string => {
+  const parts: { text?: string }[] = data?.candidates?.[0]?.content?.parts ?? [];
+  return parts.map(part => part.text ?? '').join('');
+};
+
+/**
+ * Calls the `streamGenerateContent` SSE endpoint and reports the accumulated text after every chunk.
+ * React Native's fetch cannot read a response body incrementally, so this uses XMLHttpRequest progress events.
+ * @returns The full raw text once the stream ends.
+ */
+const streamGeminiText = (
+  url: string,
+  headers: { [name: string]: string },
+  body: object,
+  onText: (accumulated: string) => void,
+): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let seenLength = 0;
+    let buffer = '';
+    let accumulated = '';
+
+    const consumeLines = (flush: boolean) => {
+      buffer += xhr.responseText.slice(seenLength);
+      seenLength = xhr.responseText.length;
+      const lines = buffer.split('\n');
+      buffer = flush ? '' : lines.pop() ?? '';
+      lines.forEach(line => {
+        if (!line.startsWith('data:')) return;
+        try {
+          const chunkText = getCandidateText(JSON.parse(line.slice(5).trim()));
+          if (chunkText) {
+            accumulated += chunkText;
+            onText(accumulated);
+          }
+        } catch (e) {
+          console.error('Failed to parse Gemini stream chunk:', line);
+        }
+      });
+    };
+
+    xhr.open('POST', url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.timeout = REQUEST_TIMEOUT_MS;
+    xhr.onprogress = () => consumeLines(false);
+    xhr.onload = () => {
+      if (xhr.status !== 200) {
+        reject(new Error(`HTTP ${xhr.status}`));
+        return;
+      }
+      consumeLines(true);
+      resolve(accumulated);
+    };
+    xhr.onerror = () => reject(new Error('Network request failed.'));
+    xhr.ontimeout = () => reject(new Error(`Request timed out after ${REQUEST_TIMEOUT_MS / 1000}s.`));
+    xhr.send(JSON.stringify(body));
+  });
+};
 
 /**
  * Sends a message to the Gemini API and gets a response.
  * Updates the global Gemini status via the provided callback.
  * @param userMessage The message from the user.
  * @param setGeminiStatus Callback to update the global API status.
+ * @param history Earlier messages of the conversation, oldest first, not including `userMessage`.
+ * @param endpoint The API base URL and model name to call.
+ * @param onPartial If given, the reply is streamed and this receives the partial reply as it arrives.
+ *   If streaming fails, the regular request is used instead.
+ * @param persona The persona prompt to use instead of the default one.
+ * @param budget How much of `history` to send as turns before the rest is summarised.
  * @returns A promise that resolves to a HaruResponse object.
  */
 export const getGeminiResponse = async (
   userMessage: string,
-  setGeminiStatus: (status: GeminiStatus, error?: string) => void,
+  setGeminiStatus: StatusCallback,
+  history: ConversationTurn[] = [],
+  endpoint: ChatEndpoint = GEMINI_DEFAULT_ENDPOINT,
+  onPartial?: PartialResponseCallback,
+  persona: string = PERSONA_PROMPT,
+  budget: HistoryBudget = DEFAULT_HISTORY_BUDGET,
 ): Promise<HaruResponse> => {
-  let apiKey = await AsyncStorage.getItem(API_KEY_STORAGE_KEY);
-  let apiKeySource = 'default_env'; // Temporary for logging
-
-  if (apiKey) {
-    apiKeySource = 'async_storage';
-  } else {
-    apiKey = DEFAULT_GEMINI_API_KEY;
-  }
-
-  // --- TEMPORARY LOGGING ---
-  console.log(`[Gemini API Key Flow] Using API key from: ${apiKeySource}`);
-  console.log(`[Gemini API Key Flow] Is API key present? ${!!apiKey}`);
-  // --- END TEMPORARY LOGGING ---
-
-  if (!apiKey) {
+  const headers = await buildHeaders(endpoint);
+  if (!headers) {
     setGeminiStatus('error', 'API key is not set.');
     return {
       text: 'API 키가 설정되지 않았어요. 관리자 도구에서 키를 설정해주세요.',
@@ -95,24 +165,38 @@ export const getGeminiResponse = async (
     };
   }
 
+  const requestBody = buildRequestBody(userMessage, history, budget, persona);
+
+  if (onPartial) {
+    const STREAM_URL = `${endpoint.baseUrl}/models/${endpoint.model}:streamGenerateContent?alt=sse`;
+    try {
+      const streamedText = await streamGeminiText(STREAM_URL, headers, requestBody, accumulated => {
+        onPartial(parsePartialHaruJson(accumulated));
+      });
+      const parsedResponse = parseHaruJson(streamedText);
+      if (parsedResponse) {
+        setGeminiStatus('ok');
+        return parsedResponse;
+      }
+      console.error('Gemini stream ended without a valid JSON reply, retrying without streaming:', streamedText);
+    } catch (error: any) {
+      console.error('Gemini stream failed, retrying without streaming:', error.message);
+    }
+    // Clear any half-shown text before the fallback request.
+    onPartial({});
+  }
+
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 15000); // 15-second timeout
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS); // 15-second timeout
 
-  const API_URL = `${BASE_API_URL}${apiKey}`;
+  const API_URL = `${endpoint.baseUrl}/models/${endpoint.model}:generateContent`;
 
   try {
     const apiResponse = await fetch(API_URL, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers,
       signal: controller.signal,
-      body: JSON.stringify({
-        contents: [
-          { role: 'user', parts: [{ text: PERSONA_PROMPT }] },
-          { role: 'model', parts: [{ text: JSON.stringify({ emotion: 'neutral', response: '응, 알겠어!'}) }] },
-          { role: 'user', parts: [{ text: userMessage }] },
-        ],
-        generationConfig: { responseMimeType: 'application/json' },
-      }),
+      body: JSON.stringify(requestBody),
     });
 
     clearTimeout(timeoutId);
@@ -142,11 +226,11 @@ export const getGeminiResponse = async (
       } else {
         setGeminiStatus('error', `HTTP ${apiResponse.status}`);
       }
-      return getRandomFallback();
+      return isRetryableStatus(apiResponse.status) ? getRetryableFallback() : getRandomFallback();
     }
 
     const data = await apiResponse.json();
-    const botResponseText = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    const botResponseText = getCandidateText(data);
 
     if (!botResponseText) {
       console.error('Gemini API Error: Response text is missing.', data);
@@ -156,25 +240,14 @@ export const getGeminiResponse = async (
 
     // Success case
     setGeminiStatus('ok');
-    try {
-      const parsedResponse = JSON.parse(botResponseText);
-      
-      // --- EMOTION VALIDATION ---
-      const validEmotions: HaruEmotion[] = ['neutral', 'very_shy', 'turned_away', 'relaxed_smile', 'half_turned'];
-      const finalEmotion: HaruEmotion = validEmotions.includes(parsedResponse.emotion)
-        ? parsedResponse.emotion
-        : 'neutral'; // Fallback to neutral if invalid emotion
-
-      return {
-        text: parsedResponse.response || '...',
-        state: finalEmotion,
-      };
-    } catch (e) {
+    const parsedResponse = parseHaruJson(botResponseText);
+    if (!parsedResponse) {
       console.error('Failed to parse JSON response from AI:', botResponseText);
       // If AI doesn't return valid JSON, treat the text as the response.
       setGeminiStatus('error', 'AI response JSON parse error.');
       return { text: botResponseText, state: 'neutral' };
     }
+    return parsedResponse;
   } catch (error: any) {
     clearTimeout(timeoutId);
     // --- ENHANCED ERROR LOGGING ---
@@ -188,6 +261,110 @@ export const getGeminiResponse = async (
       setGeminiStatus('error', 'Network request failed.');
     }
     // --- END ENHANCED ERROR LOGGING ---
-    return getRandomFallback();
+    return getRetryableFallback();
+  }
+};
+
+/**
+ * Checks a key by looking up the model's metadata, which costs no tokens and sends no chat message.
+ * @param apiKey The key to check. It is not saved.
+ * @param endpoint The API base URL and model name to look up.
+ */
+export const validateGeminiApiKey = async (
+  apiKey: string,
+  endpoint: ChatEndpoint = GEMINI_DEFAULT_ENDPOINT,
+): Promise<ApiKeyCheckResult> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const apiResponse = await fetch(`${endpoint.baseUrl}/models/${endpoint.model}`, {
+      headers: { 'x-goog-api-key': apiKey },
+      signal: controller.signal,
+    });
+    clearTimeout(timeoutId);
+    if (apiResponse.ok) return 'valid';
+    console.error('Gemini API key check failed with HTTP', apiResponse.status);
+    // 400, 401 and 403 mean the key itself was rejected; anything else says nothing about the key.
+    return [400, 401, 403].includes(apiResponse.status) ? 'invalid' : 'unreachable';
+  } catch (error) {
+    clearTimeout(timeoutId);
+    console.error('Gemini API key check failed:', error);
+    return 'unreachable';
   }
-};
\ No newline at end of file
+};
+
+const MEMORY_EXTRACTION_PROMPT = `
+너는 대화 기록에서 오래 기억할 만한 사실만 골라내는 도우미야.
+아래 대화는 사용자(청소년)와 캐릭터 '하루'가 나눈 대화야.
+사용자가 직접 말한 내용 중에서, 다음에 대화할 때도 도움이 될 만한 오래가는 사실만 골라 줘.
+- 'nickname': 사용자가 불러줬으면 하는 이름이나 별명
+- 'hobby': 좋아하는 것, 취미
+- 'helped': 기분이 나아지는 데 도움이 됐던 것
+- 'dislike': 싫어하거나 불편해하는 것
+- 'other': 그 밖에 오래 기억할 만한 것
+
+규칙:
+- 이미 알고 있는 내용과 겹치면 넣지 마.
+- 그날의 기분처럼 금방 바뀌는 내용은 넣지 마.
+- 건강, 자해, 가족 문제, 주소, 학교 이름, 전화번호 같은 민감한 개인정보는 절대 넣지 마.
+- 최대 3개까지, 각 항목은 짧은 한 문장으로.
+- 없으면 빈 배열을 돌려줘.
+
+반드시 {"memories": [{"category": "...", "text": "..."}]} 형식의 JSON 객체 하나만 반환해.
+`;
+
+/**
+ * Asks Gemini to pick durable facts about the student out of a stretch of conversation.
+ * Runs in the background, so it does not touch the global API status.
+ * @param conversation The messages to look at, oldest first.
+ * @param knownMemories What Haru already remembers, so it is not extracted again.
+ * @param endpoint The API base URL and model name to call.
+ * @returns The new memories, or null if the request failed and should be tried again later.
+ */
+export const extractGeminiMemories = async (
+  conversation: ConversationTurn[],
+  knownMemories: string[],
+  endpoint: ChatEndpoint = GEMINI_DEFAULT_ENDPOINT,
+): Promise<ExtractedMemory[] | null> => {
+  const headers = await buildHeaders(endpoint);
+  if (!headers) return null;
+
+  const transcript = conversation
+    .map(turn => `${turn.sender === 'user' ? '사용자' : '하루'}: ${turn.text}`)
+    .join('\n');
+  const known = knownMemories.length > 0 ? knownMemories.map(text => `- ${text}`).join('\n') : '(없음)';
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const apiResponse = await fetch(`${endpoint.baseUrl}/models/${endpoint.model}:generateContent`, {
+      method: 'POST',
+      headers,
+      signal: controller.signal,
+      body: JSON.stringify({
+        contents: [
+          { role: 'user', parts: [{ text: `${MEMORY_EXTRACTION_PROMPT}\n이미 알고 있는 내용:\n${known}\n\n대화:\n${transcript}` }] },
+        ],
+        generationConfig: { responseMimeType: 'application/json' },
+      }),
+    });
+    clearTimeout(timeoutId);
+
+    if (!apiResponse.ok) {
+      console.error('Gemini memory extraction HTTP Error:', apiResponse.status);
+      return null;
+    }
+
+    const parsed = JSON.parse(getCandidateText(await apiResponse.json()));
+    const memories: any[] = Array.isArray(parsed?.memories) ? parsed.memories : [];
+    return memories
+      .filter(item => isMemoryCategory(item?.category) && typeof item?.text === 'string' && item.text.trim())
+      .slice(0, 3)
+      .map(item => ({ category: item.category, text: item.text.trim() }));
+  } catch (error) {
+    clearTimeout(timeoutId);
+    console.error('Gemini memory extraction failed:', error);
+    return null;
+  }
+};
@@ -0,0 +1,297 @@
+/**
+ * @file src/api/haru.ts
+ * @description Provider-independent pieces of a Haru conversation: shared types, the persona prompt,
+ * history budgeting and parsing of Haru's JSON answer.
+ */
+import { MISSIONS } from '../constants/missions';
+import { EMOTIONS } from '../constants/emotions';
+import { BUILT_IN_PERSONAS, PersonaPreset } from '../constants/personas';
+
+// Re-declaring types here to avoid circular dependencies with context
+export type HaruEmotion =
+  | 'neutral'
+  | 'very_shy'
+  | 'turned_away'
+  | 'relaxed_smile'
+  | 'half_turned';
+
+export type GeminiStatus = 'idle' | 'ok' | 'error' | 'overloaded';
+
+export type StatusCallback = (status: GeminiStatus, error?: string) => void;
+
+// Receives the reply parsed so far while it is still streaming in.
+export type PartialResponseCallback = (partial: Partial<HaruResponse>) => void;
+
+// Where a provider sends its requests. Not every provider uses both fields.
+export interface ChatEndpoint {
+  baseUrl: string;
+  model: string;
+  // When set, baseUrl is a relay server that adds its own credentials, so the app sends no API key.
+  useProxy?: boolean;
+}
+
+export interface HaruResponse {
+  text: string;
+  state: HaruEmotion;
+  // Set when the request failed for a temporary reason (overload, timeout, network) and can be sent again later.
+  retryable?: boolean;
+  // Optional extras the model may add; all are validated before they get here.
+  suggestedMissionId?: string;
+  userMood?: string;
+  quickReplies?: string[];
+  // Set on the canned replies used when the provider could not answer.
+  isFallback?: boolean;
+}
+
+// A minimal view of a stored chat message, so the context's ChatMessage can be passed in directly.
+export interface ConversationTurn {
+  text: string;
+  sender: 'user' | 'bot';
+  state?: HaruEmotion;
+}
+
+// Limits on how much of the recent chat history is replayed to the model.
+export interface HistoryBudget {
+  maxTurns: number;
+  maxChars: number;
+  summaryMaxChars: number;
+}
+
+export const DEFAULT_HISTORY_BUDGET: HistoryBudget = {
+  maxTurns: 12,
+  maxChars: 2000,
+  summaryMaxChars: 400,
+};
+
+// The choices offered on the admin screen.
+export const HISTORY_TURN_OPTIONS = [4, 8, 12, 20];
+export const HISTORY_CHAR_OPTIONS = [1000, 2000, 4000];
+
+const isPositiveInteger = (value: any): value is number => Number.isInteger(value) && value > 0;
+
+/**
+ * Reads a stored history budget, falling back to the default for each limit that is missing or invalid.
+ */
+export const parseHistoryBudget = (value: any): HistoryBudget => ({
+  maxTurns: isPositiveInteger(value?.maxTurns) ? value.maxTurns : DEFAULT_HISTORY_BUDGET.maxTurns,
+  maxChars: isPositiveInteger(value?.maxChars) ? value.maxChars : DEFAULT_HISTORY_BUDGET.maxChars,
+  summaryMaxChars: isPositiveInteger(value?.summaryMaxChars) ? value.summaryMaxChars : DEFAULT_HISTORY_BUDGET.summaryMaxChars,
+});
+
+export const HARU_EMOTIONS: HaruEmotion[] = ['neutral', 'very_shy', 'turned_away', 'relaxed_smile', 'half_turned'];
+
+export const isHaruEmotion = (value: any): value is HaruEmotion => HARU_EMOTIONS.includes(value);
+
+export const MISSION_IDS = MISSIONS.map(mission => mission.id);
+export const USER_MOOD_IDS = EMOTIONS.map(emotion => emotion.id);
+export const MAX_QUICK_REPLIES = 3;
+const MAX_QUICK_REPLY_LENGTH = 30;
+
+export const REQUEST_TIMEOUT_MS = 15000;
+
+// Fallback messages for when the AI is unavailable.
+const FALLBACK_MESSAGES: HaruResponse[] = [
+    { text: '...지금은 내가 잠시 다른 생각을 하고 있었나 봐. 그래도 네 얘기는 잘 들었어.', state: 'half_turned' },
+    { text: '윽... 잠깐 숨이 막혔어. 혹시 조금만 이따가 다시 말해줄 수 있을까?', state: 'very_shy' },
+];
+
+export const getRandomFallback = (): HaruResponse => {
+  return { ...FALLBACK_MESSAGES[Math.floor(Math.random() * FALLBACK_MESSAGES.length)], isFallback: true };
+};
+
+// A fallback for failures that are worth retrying, so the caller can queue the message instead of showing it.
+export const getRetryableFallback = (): HaruResponse => ({ ...getRandomFallback(), retryable: true });
+
+// Overload, rate limiting and server errors usually go away on their own.
+export const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500;
+
+// What each emotion means, used to explain the allowed emotions to the model.
+const EMOTION_DESCRIPTIONS: { [key in HaruEmotion]: string } = {
+  neutral: '일반적인 대화, 첫 인사 등.',
+  very_shy: '사용자가 힘들거나 민감한 이야기를 할 때.',
+  turned_away: '사용자가 매우 슬퍼하거나 힘들어 보일 때, 거리를 두고 싶어할 때.',
+  relaxed_smile: '사용자가 고마움을 표현하거나, 긍정적이고 편안한 이야기를 할 때.',
+  half_turned: '사용자가 조심스럽게 속마음을 이야기할 때.',
+};
+
+/**
+ * Builds the full prompt for a persona preset: its character description followed by the JSON answer format.
+ */
+export const buildPersonaPrompt = (preset: PersonaPreset): string => {
+  const allowedEmotions = preset.allowedEmotions.length > 0 ? preset.allowedEmotions : ['neutral' as HaruEmotion];
+  const sample = JSON.stringify({ emotion: preset.sampleExchange.emotion, response: preset.sampleExchange.haru });
+  return `
+${preset.body}
+
+너는 반드시 JSON 형식으로만 대답해야 해.
+**반드시 한 개의 JSON 객체만 반환하고, 앞뒤에 다른 텍스트(설명 문장 등)를 붙이지 마.**
+JSON 객체는 'emotion'과 'response' 두 개의 키를 꼭 가져야 하고, 'mission_id', 'user_mood', 'quick_replies' 키는 필요할 때만 넣어.
+
+'emotion' 키의 값은 다음 ${allowedEmotions.length}가지 문자열 중 하나여야 해 (다른 값은 절대 사용하지 마!):
+${allowedEmotions.map(emotion => `- '${emotion}': ${EMOTION_DESCRIPTIONS[emotion]}`).join('\n')}
+
+'response' 키의 값은 네가 사용자에게 보내는 텍스트 메시지여야 해.
+
+'mission_id' 키는 대화 흐름상 작은 미션을 권하는 게 자연스러울 때만 넣어. 값은 다음 중 하나여야 해:
+${MISSIONS.map(mission => `- '${mission.id}': ${mission.text}`).join('\n')}
+
+'user_mood' 키에는 사용자의 지금 기분을 짐작해서 다음 중 하나를 넣어. 잘 모르겠으면 넣지 마:
+${EMOTIONS.map(emotion => `- '${emotion.id}': ${emotion.text}`).join('\n')}
+
+'quick_replies' 키에는 사용자가 바로 눌러서 보낼 수 있는 짧은 대답을 최대 ${MAX_QUICK_REPLIES}개까지 배열로 넣어. 사용자 입장에서 쓴 반말로, 각각 15자 이내로.
+
+예시:
+사용자: ${preset.sampleExchange.user}
+${sample}
+`;
+};
+
+// --- PERSONA PROMPT (Restored and Enhanced) ---
+export const PERSONA_PROMPT = buildPersonaPrompt(BUILT_IN_PERSONAS[0]);
+
+// One message of the prompt in a provider-neutral form. Providers map 'model' to their own role name.
+export interface PromptTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/**
+ * Builds a short local summary of turns that did not fit in the history budget.
+ * Only the student's own lines are kept, newest first, since those carry the context Haru needs.
+ */
+const summarizeOlderTurns = (turns: ConversationTurn[], maxChars: number): string => {
+  const userLines = turns.filter(turn => turn.sender === 'user').map(turn => turn.text.trim()).filter(Boolean);
+  if (userLines.length === 0) return '';
+
+  const picked: string[] = [];
+  let used = 0;
+  for (let i = userLines.length - 1; i >= 0; i--) {
+    const line = userLines[i].length > 80 ? `${userLines[i].slice(0, 80)}…` : userLines[i];
+    if (used + line.length > maxChars) break;
+    picked.unshift(line);
+    used += line.length;
+  }
+  if (picked.length === 0) return '';
+  return `(참고: 이전 대화에서 사용자가 했던 말 - ${picked.map(line => `"${line}"`).join(', ')})`;
+};
+
+/**
+ * Converts the recent chat history plus the new message into alternating user/model turns within the given budget.
+ * Consecutive messages from the same sender are merged, because most chat APIs expect the roles to alternate.
+ * @param basePersona The persona prompt to start from, e.g. with the student's memories already added.
+ * @returns The persona text (with a summary of older turns appended, if any) and the turns to send after it.
+ */
+export const buildPromptTurns = (
+  userMessage: string,
+  history: ConversationTurn[],
+  budget: HistoryBudget = DEFAULT_HISTORY_BUDGET,
+  basePersona: string = PERSONA_PROMPT,
+): { persona: string; turns: PromptTurn[] } => {
+  const recent: ConversationTurn[] = [];
+  let usedChars = 0;
+  let cutIndex = history.length;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const turn = history[i];
+    if (recent.length >= budget.maxTurns || usedChars + turn.text.length > budget.maxChars) break;
+    recent.unshift(turn);
+    usedChars += turn.text.length;
+    cutIndex = i;
+  }
+
+  // The conversation must continue with a user turn after the persona.
+  while (recent.length > 0 && recent[0].sender !== 'user') {
+    recent.shift();
+    cutIndex++;
+  }
+
+  const turns: PromptTurn[] = [];
+  recent.forEach(turn => {
+    const role = turn.sender === 'user' ? 'user' : 'model';
+    const text = role === 'model'
+      ? JSON.stringify({ emotion: turn.state ?? 'neutral', response: turn.text })
+      : turn.text;
+    const previous = turns[turns.length - 1];
+    if (previous && previous.role === role) {
+      // Merging two model JSON objects would break the format, so keep only the latest one.
+      previous.text = role === 'user' ? `${previous.text}\n${text}` : text;
+    } else {
+      turns.push({ role, text });
+    }
+  });
+
+  // If the history ends with an unanswered user turn, add a placeholder reply so the roles keep alternating.
+  if (turns[turns.length - 1]?.role === 'user') {
+    turns.push({ role: 'model', text: JSON.stringify({ emotion: 'neutral', response: '...응.' }) });
+  }
+  turns.push({ role: 'user', text: userMessage });
+
+  const summary = summarizeOlderTurns(history.slice(0, cutIndex), budget.summaryMaxChars);
+  return { persona: summary ? `${basePersona}\n${summary}` : basePersona, turns };
+};
+
+/**
+ * Parses the JSON object Haru is asked to answer with.
+ * @returns The validated response, or null if the text is not a JSON object.
+ */
+export const parseHaruJson = (rawText: string): HaruResponse | null => {
+  try {
+    const parsedResponse = JSON.parse(rawText);
+
+    // --- EMOTION VALIDATION ---
+    const finalEmotion: HaruEmotion = HARU_EMOTIONS.includes(parsedResponse.emotion)
+      ? parsedResponse.emotion
+      : 'neutral'; // Fallback to neutral if invalid emotion
+
+    const response: HaruResponse = {
+      text: parsedResponse.response || '...',
+      state: finalEmotion,
+    };
+
+    // --- OPTIONAL FIELD VALIDATION ---
+    if (MISSION_IDS.includes(parsedResponse.mission_id)) {
+      response.suggestedMissionId = parsedResponse.mission_id;
+    }
+    if (USER_MOOD_IDS.includes(parsedResponse.user_mood)) {
+      response.userMood = parsedResponse.user_mood;
+    }
+    if (Array.isArray(parsedResponse.quick_replies)) {
+      const quickReplies = parsedResponse.quick_replies
+        .filter((reply: any): reply is string => typeof reply === 'string')
+        .map((reply: string) => reply.trim())
+        .filter((reply: string) => reply.length > 0 && reply.length <= MAX_QUICK_REPLY_LENGTH)
+        .slice(0, MAX_QUICK_REPLIES);
+      if (quickReplies.length > 0) response.quickReplies = quickReplies;
+    }
+
+    return response;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Extracts whatever can be read from an incomplete JSON answer while it streams in.
+ * The emotion is only returned once its value is complete; the response text may be cut off mid-sentence.
+ */
+export const parsePartialHaruJson = (rawText: string): Partial<HaruResponse> => {
+  const partial: Partial<HaruResponse> = {};
+
+  const emotionMatch = rawText.match(/"emotion"\s*:\s*"([a-z_]+)"/);
+  if (emotionMatch && HARU_EMOTIONS.includes(emotionMatch[1] as HaruEmotion)) {
+    partial.state = emotionMatch[1] as HaruEmotion;
+  }
+
+  const responseMatch = rawText.match(/"response"\s*:\s*"((?:[^"\\]|\\.)*)/);
+  if (responseMatch) {
+    // Drop a unicode escape that was cut off at the end of the chunk.
+    const body = responseMatch[1].replace(/\\u[0-9a-fA-F]{0,3}$/, '');
+    try {
+      partial.text = JSON.parse(`"${body}"`);
+    } catch (e) {
+      partial.text = body;
+    }
+  }
+
+  return partial;
+};
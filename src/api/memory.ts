@@ -0,0 +1,92 @@
+/**
+ * @file src/api/memory.ts
+ * @description Long-term facts Haru remembers about the student, and how they are stored and added to the persona.
+ */
+import { profileStorage } from './profileStorage';
+
+export type MemoryCategory = 'nickname' | 'hobby' | 'helped' | 'dislike' | 'other';
+
+export interface MemoryItem {
+  id: string;
+  category: MemoryCategory;
+  text: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ExtractedMemory {
+  category: MemoryCategory;
+  text: string;
+}
+
+export const MEMORY_CATEGORY_LABELS: { [key in MemoryCategory]: string } = {
+  nickname: '불러줬으면 하는 이름',
+  hobby: '좋아하는 것',
+  helped: '도움이 됐던 것',
+  dislike: '싫어하는 것',
+  other: '기타',
+};
+
+export const MEMORY_CATEGORIES = Object.keys(MEMORY_CATEGORY_LABELS) as MemoryCategory[];
+
+export const MEMORIES_STORAGE_KEY = 'harusali_memories';
+export const MEMORY_CURSOR_STORAGE_KEY = 'harusali_memoryCursor';
+export const MEMORY_ENABLED_STORAGE_KEY = 'harusali_memoryEnabled';
+
+// Memories are extracted once this many new user messages have piled up since the last extraction.
+export const MEMORY_EXTRACTION_INTERVAL = 5;
+export const MAX_MEMORIES = 30;
+
+export const isMemoryCategory = (value: any): value is MemoryCategory => {
+  return typeof value === 'string' && value in MEMORY_CATEGORY_LABELS;
+};
+
+export const parseMemories = (raw: string | null | undefined): MemoryItem[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter(item => typeof item?.id === 'string' && typeof item?.text === 'string' && isMemoryCategory(item?.category))
+      : [];
+  } catch (e) {
+    console.error('Failed to parse memories.', e);
+    return [];
+  }
+};
+
+export const saveMemories = async (memories: MemoryItem[]): Promise<void> => {
+  try { await profileStorage.setItem(MEMORIES_STORAGE_KEY, JSON.stringify(memories)); }
+  catch (e) { console.error('Failed to save memories.', e); }
+};
+
+const normalize = (text: string) => text.replace(/\s+/g, '').toLowerCase();
+
+/**
+ * Adds newly extracted memories, skipping ones Haru already knows.
+ * A new nickname replaces the old one, since there can only be one.
+ */
+export const mergeMemories = (existing: MemoryItem[], extracted: ExtractedMemory[]): MemoryItem[] => {
+  let merged = [...existing];
+  const now = Date.now();
+  extracted.forEach((memory, index) => {
+    if (merged.some(item => normalize(item.text) === normalize(memory.text))) return;
+    if (memory.category === 'nickname') {
+      merged = merged.filter(item => item.category !== 'nickname');
+    }
+    merged.push({ id: `${now}_${index}`, category: memory.category, text: memory.text, createdAt: now, updatedAt: now });
+  });
+  // Keep the newest memories if there are too many.
+  return merged.slice(-MAX_MEMORIES);
+};
+
+/**
+ * Appends what Haru remembers about the student to a persona prompt.
+ */
+export const buildPersonaWithMemories = (persona: string, memories: MemoryItem[]): string => {
+  if (memories.length === 0) return persona;
+  const lines = memories.map(item => `- ${MEMORY_CATEGORY_LABELS[item.category]}: ${item.text}`);
+  return `${persona}
+너는 예전 대화에서 사용자에 대해 아래 내용을 알게 됐어. 자연스럽게 참고만 하고, 억지로 꺼내거나 전부 말하지는 마.
+${lines.join('\n')}
+`;
+};
@@ -0,0 +1,98 @@
+/**
+ * @file src/api/missionCatalog.ts
+ * @description Orders the mission catalog for a student: missions that suit how they and Haru have been feeling
+ * come first, and missions done in the last few days go to the end so the list does not repeat itself.
+ */
+import { HaruEmotion } from './haru';
+import { daysBetween, getLocalDateString } from './progress';
+import { Mission, MISSIONS } from '../constants/missions';
+import type { ChatMessage, CompletedMission } from '../context/AppStateContext';
+
+// How many of Haru's latest replies count towards the mood.
+const RECENT_HARU_STATE_COUNT = 5;
+
+// A mission done within this many days is moved behind the others.
+export const MISSION_ROTATION_DAYS = 3;
+
+// The student's own pick weighs more than one of Haru's expressions.
+const STUDENT_MOOD_WEIGHT = 3;
+
+export interface MoodSignals {
+  // The mood picked on EmotionChatScreen most recently, if any.
+  studentMood?: string;
+  haruStates: HaruEmotion[];
+}
+
+export interface RecommendedMission {
+  mission: Mission;
+  score: number;
+  isRecommended: boolean;
+  // The last day the mission was done, if ever.
+  lastCompletedDate?: string;
+  // Done within MISSION_ROTATION_DAYS, so offered after everything else.
+  isRecent: boolean;
+}
+
+/**
+ * Reads the mood signals from the chat: the student's latest EmotionChatScreen pick and Haru's recent looks.
+ */
+export const getMoodSignals = (chatHistory: ChatMessage[]): MoodSignals => {
+  const studentMood = [...chatHistory].reverse().find(msg => msg.sender === 'user' && msg.userMood)?.userMood;
+  const haruStates = chatHistory
+    .filter((msg): msg is ChatMessage & { state: HaruEmotion } => msg.sender === 'bot' && msg.state !== undefined)
+    .slice(-RECENT_HARU_STATE_COUNT)
+    .map(msg => msg.state);
+  return { studentMood, haruStates };
+};
+
+const scoreMission = (mission: Mission, signals: MoodSignals): number => {
+  const moodScore = signals.studentMood && mission.relatedEmotions.includes(signals.studentMood) ? STUDENT_MOOD_WEIGHT : 0;
+  return moodScore + signals.haruStates.filter(state => mission.relatedEmotions.includes(state)).length;
+};
+
+const getLastCompletedDates = (missionHistory: CompletedMission[]): Map<string, string> => {
+  const dates = new Map<string, string>();
+  for (const item of missionHistory) {
+    if (!item.missionId) continue;
+    const known = dates.get(item.missionId);
+    if (!known || item.date > known) dates.set(item.missionId, item.date);
+  }
+  return dates;
+};
+
+/**
+ * The catalog in the order it should be offered.
+ * Missions done recently come last; the rest are ordered by how well they suit the mood,
+ * then by how long ago they were last done, then by catalog order.
+ * @param limit How many missions to mark as recommended.
+ */
+export const recommendMissions = (
+  signals: MoodSignals,
+  missionHistory: CompletedMission[],
+  limit: number = 3,
+  missions: Mission[] = MISSIONS,
+  today: string = getLocalDateString(),
+): RecommendedMission[] => {
+  const lastCompleted = getLastCompletedDates(missionHistory);
+  const ranked = missions
+    .map((mission, index) => {
+      const lastCompletedDate = lastCompleted.get(mission.id);
+      return {
+        mission,
+        index,
+        score: scoreMission(mission, signals),
+        lastCompletedDate,
+        isRecent: lastCompletedDate !== undefined && daysBetween(lastCompletedDate, today) < MISSION_ROTATION_DAYS,
+      };
+    })
+    .sort((a, b) =>
+      Number(a.isRecent) - Number(b.isRecent)
+      || b.score - a.score
+      || (a.lastCompletedDate ?? '').localeCompare(b.lastCompletedDate ?? '')
+      || a.index - b.index);
+
+  return ranked.map(({ index, ...item }, position) => ({
+    ...item,
+    isRecommended: position < limit && item.score > 0 && !item.isRecent,
+  }));
+};
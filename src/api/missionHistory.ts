@@ -0,0 +1,39 @@
+/**
+ * @file src/api/missionHistory.ts
+ * @description Grouping of completed missions for MissionHistoryScreen: by kind for the filters, and by day
+ * for the calendar.
+ */
+import { MissionCategory, MISSIONS } from '../constants/missions';
+import type { CompletedMission } from '../context/AppStateContext';
+
+// Map missions come from the GPS demo's markers, which are not in the catalog.
+export type MissionRecordKind = MissionCategory | 'map';
+
+export const getMissionRecordKind = (record: CompletedMission): MissionRecordKind =>
+  MISSIONS.find(mission => mission.id === record.missionId)?.category ?? 'map';
+
+/**
+ * @returns How many missions were completed on each local date.
+ */
+export const countMissionsByDate = (records: CompletedMission[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const record of records) counts.set(record.date, (counts.get(record.date) ?? 0) + 1);
+  return counts;
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * The days of a month laid out in weeks starting on Sunday, with null for the blanks before the 1st and after the last day.
+ * @param month 0-based, as in Date.
+ */
+export const getMonthWeeks = (year: number, month: number): (string | null)[][] => {
+  const firstWeekday = new Date(year, month, 1).getDay();
+  const dayCount = new Date(year, month + 1, 0).getDate();
+  const cells: (string | null)[] = [
+    ...Array<null>(firstWeekday).fill(null),
+    ...Array.from({ length: dayCount }, (_, index) => `${year}-${pad(month + 1)}-${pad(index + 1)}`),
+  ];
+  while (cells.length % 7 !== 0) cells.push(null);
+  return Array.from({ length: cells.length / 7 }, (_, week) => cells.slice(week * 7, week * 7 + 7));
+};
@@ -0,0 +1,112 @@
+/**
+ * @file src/api/missionLadder.ts
+ * @description The way from the room to the neighbourhood. Each stage in MISSION_STAGES unlocks once enough missions
+ * of the stage before it are in the mission history. An admin can pin the student to a stage instead.
+ */
+import { profileStorage } from './profileStorage';
+import { Mission, MissionStage, MISSIONS, MISSION_STAGES } from '../constants/missions';
+import type { CompletedMission } from '../context/AppStateContext';
+
+export const MISSION_LADDER_STORAGE_KEY = 'harusali_missionLadder';
+
+export interface MissionLadderSettings {
+  // Missions of a stage to complete before the next one unlocks.
+  unlockCount: number;
+  // Set by an admin to use this stage instead of the one earned from the history.
+  stageOverride: MissionStage | null;
+}
+
+const MIN_UNLOCK_COUNT = 1;
+const MAX_UNLOCK_COUNT = 10;
+
+export const DEFAULT_MISSION_LADDER: MissionLadderSettings = {
+  unlockCount: 3,
+  stageOverride: null,
+};
+
+// Places outside the home, like the GPS demo, belong to the last stage.
+export const OUTSIDE_STAGE: MissionStage = 'neighborhood';
+
+export interface StageProgress {
+  stage: MissionStage;
+  isUnlocked: boolean;
+  completedCount: number;
+  // Missions of the stage before still needed to unlock this one. Only counted for the first locked stage,
+  // and not while an admin override is set.
+  remainingToUnlock: number;
+}
+
+export interface LadderProgress {
+  currentStage: MissionStage;
+  stages: StageProgress[];
+}
+
+const isMissionStage = (value: any): value is MissionStage => MISSION_STAGES.some(stage => stage.id === value);
+
+const clampUnlockCount = (count: number): number =>
+  Math.min(MAX_UNLOCK_COUNT, Math.max(MIN_UNLOCK_COUNT, Math.round(count)));
+
+export const parseMissionLadder = (raw: string | null | undefined): MissionLadderSettings => {
+  if (!raw) return DEFAULT_MISSION_LADDER;
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      unlockCount: typeof parsed?.unlockCount === 'number' ? clampUnlockCount(parsed.unlockCount) : DEFAULT_MISSION_LADDER.unlockCount,
+      stageOverride: isMissionStage(parsed?.stageOverride) ? parsed.stageOverride : null,
+    };
+  } catch (e) {
+    console.error('Failed to parse mission ladder settings.', e);
+    return DEFAULT_MISSION_LADDER;
+  }
+};
+
+export const saveMissionLadder = (settings: MissionLadderSettings) =>
+  profileStorage.setItem(MISSION_LADDER_STORAGE_KEY, JSON.stringify({ ...settings, unlockCount: clampUnlockCount(settings.unlockCount) }));
+
+/**
+ * Counts completed missions per stage and works out which stages are open.
+ * Records of missions no longer in the catalog do not count towards any stage.
+ */
+export const getLadderProgress = (missionHistory: CompletedMission[], settings: MissionLadderSettings): LadderProgress => {
+  const counts = new Map<MissionStage, number>();
+  for (const item of missionHistory) {
+    const mission = MISSIONS.find(candidate => candidate.id === item.missionId);
+    if (mission) counts.set(mission.stage, (counts.get(mission.stage) ?? 0) + 1);
+  }
+
+  const overrideIndex = settings.stageOverride ? MISSION_STAGES.findIndex(stage => stage.id === settings.stageOverride) : -1;
+  const stages: StageProgress[] = [];
+  MISSION_STAGES.forEach(({ id }, index) => {
+    const previous = stages[index - 1];
+    const remaining = previous ? Math.max(0, settings.unlockCount - previous.completedCount) : 0;
+    const isUnlocked = overrideIndex !== -1 ? index <= overrideIndex : !previous || (previous.isUnlocked && remaining === 0);
+    const isNextToUnlock = !isUnlocked && overrideIndex === -1 && previous?.isUnlocked;
+    stages.push({ stage: id, isUnlocked, completedCount: counts.get(id) ?? 0, remainingToUnlock: isNextToUnlock ? remaining : 0 });
+  });
+
+  const currentStage = [...stages].reverse().find(stage => stage.isUnlocked)!.stage;
+  return { currentStage, stages };
+};
+
+export const isStageUnlocked = (progress: LadderProgress, stage: MissionStage): boolean =>
+  progress.stages.find(item => item.stage === stage)?.isUnlocked ?? false;
+
+export const getUnlockedMissions = (progress: LadderProgress): Mission[] =>
+  MISSIONS.filter(mission => isStageUnlocked(progress, mission.stage));
+
+// The first locked stage, which is the one worth encouraging the student towards.
+export const getNextLockedStage = (progress: LadderProgress): StageProgress | undefined =>
+  progress.stages.find(stage => !stage.isUnlocked);
+
+/**
+ * Haru's words for a locked stage, with how many missions of the stage before are still to go.
+ * Stages further along, or locked by an admin override, have no count to give.
+ */
+export const getLockedStageMessage = (progress: StageProgress): string => {
+  const index = MISSION_STAGES.findIndex(stage => stage.id === progress.stage);
+  const info = MISSION_STAGES[index];
+  const previous = MISSION_STAGES[index - 1];
+  return previous && progress.remainingToUnlock > 0
+    ? `${info.lockedMessage}\n('${previous.label}' 미션을 ${progress.remainingToUnlock}개 더 하면 '${info.label}' 단계가 열려요)`
+    : info.lockedMessage;
+};
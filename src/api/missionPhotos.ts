@@ -0,0 +1,128 @@
+/**
+ * @file src/api/missionPhotos.ts
+ * @description Keeps mission photos in the app's own storage. The image picker hands out cache files that the
+ * system may clear, at full resolution, so each photo is downscaled into the document directory with a thumbnail.
+ * Each profile has its own folder, which is deleted with the profile's data. Files are kept while a reset snapshot
+ * still holds their record, so undoing a reset brings the photos back too.
+ * Records store a photo's path under the document directory rather than its uri: on iOS the directory moves to a new
+ * path whenever the app is updated or restored, and a stored uri would then point nowhere.
+ */
+import { File, Directory, Paths } from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { profileStorage, getStorageProfile } from './profileStorage';
+import { STORAGE_KEYS, parseRecordList, isCompletedMission } from './storage';
+import { loadResetSnapshotMissions } from './resetSnapshots';
+
+const MISSION_PHOTO_DIRECTORY = 'mission_photos';
+
+const PHOTO_MAX_SIDE = 1600;
+const PHOTO_COMPRESS = 0.7;
+const THUMBNAIL_MAX_SIDE = 320;
+const THUMBNAIL_COMPRESS = 0.6;
+
+// Both are paths under the document directory; see resolveMissionPhotoUri.
+export interface StoredMissionPhoto {
+  photoUri: string;
+  thumbnailUri: string;
+}
+
+export const getMissionPhotoDirectory = (profileId: string | null = getStorageProfile()) =>
+  new Directory(Paths.document, MISSION_PHOTO_DIRECTORY, profileId ?? '');
+
+// Record ids are ISO timestamps, which are not safe file names as they are.
+const getMissionPhotoName = (recordId: string, suffix: string, extension: string) =>
+  `${recordId.replace(/[^a-zA-Z0-9_-]/g, '_')}${suffix}.${extension}`;
+
+/**
+ * The path a mission record stores for its photo, relative to the document directory.
+ */
+export const getMissionPhotoPath = (recordId: string, suffix: string, extension: string = 'jpg') =>
+  [MISSION_PHOTO_DIRECTORY, getStorageProfile(), getMissionPhotoName(recordId, suffix, extension)].filter(Boolean).join('/');
+
+/**
+ * The file a mission record's photo is kept in.
+ */
+export const getMissionPhotoFile = (recordId: string, suffix: string, extension: string = 'jpg') =>
+  new File(getMissionPhotoDirectory(), getMissionPhotoName(recordId, suffix, extension));
+
+/**
+ * Turns a stored photo path into a uri that can be shown or read. Records made before photos were copied into the
+ * app keep the picker's uri, which is returned as it is.
+ */
+export const resolveMissionPhotoUri = (path: string): string =>
+  /^[a-z][a-z0-9+.-]*:/i.test(path) ? path : new File(Paths.document, path).uri;
+
+/**
+ * Scales the image down so its longer side is at most maxSide, saves it as JPEG and moves it to `target`.
+ */
+const saveScaled = async (sourceUri: string, maxSide: number, compress: number, target: File) => {
+  const original = await ImageManipulator.manipulate(sourceUri).renderAsync();
+  const isLandscape = original.width >= original.height;
+  const image = Math.max(original.width, original.height) > maxSide
+    ? await ImageManipulator.manipulate(original).resize(isLandscape ? { width: maxSide } : { height: maxSide }).renderAsync()
+    : original;
+  const result = await image.saveAsync({ compress, format: SaveFormat.JPEG });
+  if (target.exists) target.delete();
+  new File(result.uri).move(target);
+};
+
+/**
+ * Copies a picked photo into the open profile's photo folder, downscaled and compressed, and makes its thumbnail.
+ */
+export const saveMissionPhoto = async (sourceUri: string, recordId: string): Promise<StoredMissionPhoto> => {
+  const directory = getMissionPhotoDirectory();
+  if (!directory.exists) directory.create({ intermediates: true });
+  const photo = getMissionPhotoFile(recordId, '');
+  await saveScaled(sourceUri, PHOTO_MAX_SIDE, PHOTO_COMPRESS, photo);
+  await saveScaled(photo.uri, THUMBNAIL_MAX_SIDE, THUMBNAIL_COMPRESS, getMissionPhotoFile(recordId, '_thumb'));
+  return { photoUri: getMissionPhotoPath(recordId, ''), thumbnailUri: getMissionPhotoPath(recordId, '_thumb') };
+};
+
+/**
+ * Deletes the files in the open profile's photo folder that no mission record points to, neither a current one
+ * nor one in a kept reset snapshot. Run after anything that drops records or snapshots.
+ * Files are matched by name only, as the document directory's path can change when the app is updated.
+ */
+export const deleteUnreferencedMissionPhotos = async () => {
+  const directory = getMissionPhotoDirectory();
+  if (!directory.exists) return;
+  const current = parseRecordList(STORAGE_KEYS.MISSION_HISTORY, await profileStorage.getItem(STORAGE_KEYS.MISSION_HISTORY), isCompletedMission).records;
+  const referenced = new Set(
+    [...current, ...(await loadResetSnapshotMissions())]
+      .flatMap(mission => [mission.photoUri, mission.thumbnailUri])
+      .filter((uri): uri is string => !!uri)
+      .map(uri => uri.slice(uri.lastIndexOf('/') + 1)),
+  );
+  for (const item of directory.list()) {
+    if (!(item instanceof File) || referenced.has(item.name)) continue;
+    try {
+      item.delete();
+    } catch (e) {
+      console.error('Failed to delete unreferenced mission photo:', item.uri, e);
+    }
+  }
+};
+
+export const deleteMissionPhotos = (profileId: string) => {
+  const directory = getMissionPhotoDirectory(profileId);
+  if (directory.exists) directory.delete();
+};
+
+export const deleteAllMissionPhotos = () => {
+  const directory = new Directory(Paths.document, MISSION_PHOTO_DIRECTORY);
+  if (directory.exists) directory.delete();
+};
+
+/**
+ * Whether a photo can still be shown. Only local files can be checked; anything else is assumed to be there.
+ */
+export const isMissionPhotoAvailable = (path: string | undefined): boolean => {
+  if (!path) return false;
+  const uri = resolveMissionPhotoUri(path);
+  if (!uri.startsWith('file:')) return true;
+  try {
+    return new File(uri).exists;
+  } catch (e) {
+    return false;
+  }
+};
@@ -0,0 +1,33 @@
+/**
+ * @file src/api/mockChat.ts
+ * @description A deterministic, offline stand-in for the AI backend, used for testing and network-free demos.
+ */
+import { ChatEndpoint, ConversationTurn, HaruResponse, StatusCallback } from './haru';
+
+export const MOCK_DEFAULT_ENDPOINT: ChatEndpoint = {
+  baseUrl: '',
+  model: 'scripted',
+};
+
+// Replies are picked in order, based on how many messages the student has already sent.
+const MOCK_SCRIPT: HaruResponse[] = [
+  { text: '...안녕, 나는 하루야. 오늘 하루는 어땠어?', state: 'neutral', quickReplies: ['그냥 그랬어', '좀 피곤해'] },
+  { text: '아, 그랬구나... 말해줘서 고마워 ㅎ', state: 'relaxed_smile' },
+  { text: ';; 그건 조금 힘들었겠다... 괜찮아, 천천히 얘기해도 돼.', state: 'very_shy', userMood: 'lethargic' },
+  { text: '음... 그럼 우리 아주 작은 것부터 같이 해볼까?', state: 'half_turned', suggestedMissionId: '1' },
+  { text: '...나는 여기 있을게. 언제든 다시 말 걸어줘.', state: 'neutral' },
+];
+
+/**
+ * Returns the next scripted reply without touching the network.
+ * The same history always produces the same reply.
+ */
+export const getMockResponse = async (
+  _userMessage: string,
+  setStatus: StatusCallback,
+  history: ConversationTurn[] = [],
+): Promise<HaruResponse> => {
+  const userTurnCount = history.filter(turn => turn.sender === 'user').length;
+  setStatus('ok');
+  return MOCK_SCRIPT[userTurnCount % MOCK_SCRIPT.length];
+};
@@ -0,0 +1,25 @@
+/**
+ * @file src/api/offlineHaru.ts
+ * @description A rule-based Haru that works without any network, used when AI replies are turned off.
+ */
+import { HaruResponse } from './haru';
+import { OFFLINE_INTENT_RULES, OFFLINE_LINES, OfflineIntent } from '../constants/offlineDialogue';
+
+/**
+ * Classifies a message with the keyword rules. Messages that match nothing are 'unknown'.
+ */
+export const classifyOfflineIntent = (text: string): OfflineIntent => {
+  const compact = text.replace(/\s/g, '');
+  return OFFLINE_INTENT_RULES.find(rule => rule.pattern.test(compact))?.intent ?? 'unknown';
+};
+
+/**
+ * Picks a line for the message's intent, never repeating Haru's previous line.
+ * @param lastBotText The text of Haru's last reply, if any.
+ */
+export const getOfflineResponse = (userMessage: string, lastBotText?: string): HaruResponse => {
+  const lines = OFFLINE_LINES[classifyOfflineIntent(userMessage)];
+  const candidates = lines.filter(line => line.text !== lastBotText);
+  const pool = candidates.length > 0 ? candidates : lines;
+  return pool[Math.floor(Math.random() * pool.length)];
+};
@@ -0,0 +1,117 @@
+/**
+ * @file src/api/openaiCompatible.ts
+ * @description Chat backend for any server that speaks the OpenAI `/chat/completions` format,
+ * e.g. a local Ollama or llama.cpp server on the school LAN.
+ */
+import {
+  ChatEndpoint,
+  ConversationTurn,
+  DEFAULT_HISTORY_BUDGET,
+  HaruResponse,
+  HistoryBudget,
+  PartialResponseCallback,
+  StatusCallback,
+  PERSONA_PROMPT,
+  buildPromptTurns,
+  getRandomFallback,
+  getRetryableFallback,
+  isRetryableStatus,
+  parseHaruJson,
+  REQUEST_TIMEOUT_MS,
+} from './haru';
+
+export const OPENAI_COMPATIBLE_DEFAULT_ENDPOINT: ChatEndpoint = {
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llama3.1',
+};
+
+type OpenAiMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+/**
+ * Sends a message to an OpenAI-compatible chat endpoint and gets a response.
+ * No API key is sent; these servers are expected to run on a trusted local network.
+ * @param userMessage The message from the user.
+ * @param setStatus Callback to update the global API status.
+ * @param history Earlier messages of the conversation, oldest first, not including `userMessage`.
+ * @param endpoint The server base URL (including `/v1`) and model name.
+ * @param _onPartial Accepted for the ChatProvider contract; this provider does not stream.
+ * @param persona The persona prompt to use instead of the default one.
+ * @param budget How much of `history` to send as turns before the rest is summarised.
+ * @returns A promise that resolves to a HaruResponse object.
+ */
+export const getOpenAiCompatibleResponse = async (
+  userMessage: string,
+  setStatus: StatusCallback,
+  history: ConversationTurn[] = [],
+  endpoint: ChatEndpoint = OPENAI_COMPATIBLE_DEFAULT_ENDPOINT,
+  _onPartial?: PartialResponseCallback,
+  persona: string = PERSONA_PROMPT,
+  budget: HistoryBudget = DEFAULT_HISTORY_BUDGET,
+): Promise<HaruResponse> => {
+  if (!endpoint.baseUrl) {
+    setStatus('error', 'Base URL is not set.');
+    return getRandomFallback();
+  }
+
+  const { persona: systemPrompt, turns } = buildPromptTurns(userMessage, history, budget, persona);
+  const messages: OpenAiMessage[] = [
+    { role: 'system', content: systemPrompt },
+    ...turns.map((turn): OpenAiMessage => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+  ];
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const apiResponse = await fetch(`${endpoint.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal: controller.signal,
+      body: JSON.stringify({
+        model: endpoint.model,
+        messages,
+        response_format: { type: 'json_object' },
+        stream: false,
+      }),
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!apiResponse.ok) {
+      console.error('OpenAI-compatible API HTTP Error:', apiResponse.status, await apiResponse.text());
+      if (apiResponse.status === 503) {
+        setStatus('overloaded', `503: The model is overloaded.`);
+      } else {
+        setStatus('error', `HTTP ${apiResponse.status}`);
+      }
+      return isRetryableStatus(apiResponse.status) ? getRetryableFallback() : getRandomFallback();
+    }
+
+    const data = await apiResponse.json();
+    const botResponseText: string | undefined = data.choices?.[0]?.message?.content;
+
+    if (!botResponseText) {
+      console.error('OpenAI-compatible API Error: Response text is missing.', data);
+      setStatus('error', 'Response text is missing.');
+      return getRandomFallback();
+    }
+
+    setStatus('ok');
+    const parsedResponse = parseHaruJson(botResponseText);
+    if (!parsedResponse) {
+      console.error('Failed to parse JSON response from AI:', botResponseText);
+      setStatus('error', 'AI response JSON parse error.');
+      return { text: botResponseText, state: 'neutral' };
+    }
+    return parsedResponse;
+  } catch (error: any) {
+    clearTimeout(timeoutId);
+    if (error.name === 'AbortError') {
+      setStatus('error', `Request timed out after ${REQUEST_TIMEOUT_MS / 1000}s.`);
+    } else {
+      console.error('OpenAI-compatible API General Error:', error);
+      setStatus('error', 'Network request failed.');
+    }
+    return getRetryableFallback();
+  }
+};
@@ -0,0 +1,64 @@
+/**
+ * @file src/api/outbox.ts
+ * @description Persistent queue of student messages that Haru could not answer yet because the AI was unreachable.
+ * Entries only reference the message id; the message itself stays in the chat history.
+ */
+import { profileStorage } from './profileStorage';
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed';
+
+export interface OutboxEntry {
+  messageId: string;
+  attempts: number;
+  nextAttemptAt: number;
+  // Local date of the message, so its day of the chat archive can be loaded. Missing on entries queued before the archive.
+  date?: string;
+}
+
+export const OUTBOX_STORAGE_KEY = 'harusali_outbox';
+
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+// After this many failed attempts the message is marked 'failed' and only retried by hand.
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+/**
+ * Exponential backoff with a little jitter, so several devices on the same network do not retry in lockstep.
+ */
+const getRetryDelay = (attempts: number): number => {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+  return delay + Math.floor(Math.random() * 1000);
+};
+
+export const createOutboxEntry = (messageId: string, date: string): OutboxEntry => ({
+  messageId,
+  date,
+  attempts: 1,
+  nextAttemptAt: Date.now() + getRetryDelay(1),
+});
+
+/**
+ * Records one more failed attempt and schedules the next one.
+ */
+export const scheduleNextAttempt = (entry: OutboxEntry): OutboxEntry => {
+  const attempts = entry.attempts + 1;
+  return { ...entry, attempts, nextAttemptAt: Date.now() + getRetryDelay(attempts) };
+};
+
+export const parseOutbox = (raw: string | null | undefined): OutboxEntry[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter(entry => typeof entry?.messageId === 'string' && typeof entry?.attempts === 'number')
+      : [];
+  } catch (e) {
+    console.error('Failed to parse outbox.', e);
+    return [];
+  }
+};
+
+export const saveOutbox = async (entries: OutboxEntry[]): Promise<void> => {
+  try { await profileStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(entries)); }
+  catch (e) { console.error('Failed to save outbox.', e); }
+};
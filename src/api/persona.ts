@@ -0,0 +1,72 @@
+/**
+ * @file src/api/persona.ts
+ * @description Storage and editing helpers for Haru persona presets. Built-in presets come from constants;
+ * only admin-made presets are stored.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID, PersonaPreset } from '../constants/personas';
+import { HaruEmotion, HARU_EMOTIONS } from './haru';
+
+export const CUSTOM_PERSONAS_STORAGE_KEY = 'harusali_personas';
+export const ACTIVE_PERSONA_STORAGE_KEY = 'harusali_activePersonaId';
+
+const isPersonaPreset = (value: any): value is PersonaPreset => {
+  return typeof value?.id === 'string'
+    && typeof value?.name === 'string'
+    && typeof value?.body === 'string'
+    && typeof value?.version === 'number'
+    && Array.isArray(value?.allowedEmotions)
+    && value.allowedEmotions.every((emotion: any) => HARU_EMOTIONS.includes(emotion))
+    && typeof value?.sampleExchange?.user === 'string'
+    && typeof value?.sampleExchange?.haru === 'string';
+};
+
+export const parseCustomPersonas = (raw: string | null | undefined): PersonaPreset[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter(isPersonaPreset).map(preset => ({ ...preset, builtIn: false }))
+      : [];
+  } catch (e) {
+    console.error('Failed to parse custom personas.', e);
+    return [];
+  }
+};
+
+export const saveCustomPersonas = async (personas: PersonaPreset[]): Promise<void> => {
+  try { await AsyncStorage.setItem(CUSTOM_PERSONAS_STORAGE_KEY, JSON.stringify(personas)); }
+  catch (e) { console.error('Failed to save custom personas.', e); }
+};
+
+export const getAllPersonas = (customPersonas: PersonaPreset[]): PersonaPreset[] => [...BUILT_IN_PERSONAS, ...customPersonas];
+
+/**
+ * Finds a preset by id, falling back to the default one if it was deleted.
+ */
+export const findPersona = (customPersonas: PersonaPreset[], id: string): PersonaPreset => {
+  return getAllPersonas(customPersonas).find(preset => preset.id === id)
+    ?? BUILT_IN_PERSONAS.find(preset => preset.id === DEFAULT_PERSONA_ID)!;
+};
+
+/**
+ * Makes an editable copy of a preset. The copy starts its own version history.
+ */
+export const duplicatePersona = (preset: PersonaPreset): PersonaPreset => ({
+  ...preset,
+  id: `custom_${Date.now()}`,
+  name: `${preset.name} (복사본)`,
+  allowedEmotions: [...preset.allowedEmotions],
+  sampleExchange: { ...preset.sampleExchange },
+  version: 1,
+  builtIn: false,
+  updatedAt: Date.now(),
+});
+
+/**
+ * Keeps a reply's emotion within what the preset allows, since models do not always follow the prompt.
+ */
+export const clampEmotion = (preset: PersonaPreset, emotion: HaruEmotion): HaruEmotion => {
+  if (preset.allowedEmotions.length === 0 || preset.allowedEmotions.includes(emotion)) return emotion;
+  return preset.allowedEmotions.includes('neutral') ? 'neutral' : preset.allowedEmotions[0];
+};
@@ -0,0 +1,90 @@
+/**
+ * @file src/api/profileStorage.ts
+ * @description AsyncStorage scoped to the student profile that is in use. Keys are stored as
+ * `harusali_profile_<id>/<key>`, so students sharing a tablet never see each other's data.
+ * Admin settings that apply to the whole device go through plain AsyncStorage instead.
+ * While the app lock is on, private values are encrypted on the way in and decrypted on the way out.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { isSealed } from './encryption';
+
+export const PROFILE_KEY_PREFIX = 'harusali_profile_';
+
+let activeProfileId: string | null = null;
+
+export interface StorageCipher {
+  isPrivateKey: (key: string) => boolean;
+  seal: (value: string) => string;
+  // Throws if the value was not sealed with this cipher's key.
+  open: (value: string) => string;
+}
+
+let storageCipher: StorageCipher | null = null;
+
+export const getProfileKeyPrefix = (profileId: string): string => `${PROFILE_KEY_PREFIX}${profileId}/`;
+
+/**
+ * Chooses whose data every profileStorage call reads and writes. Null while the profile picker is showing.
+ */
+export const setStorageProfile = (profileId: string | null) => {
+  activeProfileId = profileId;
+};
+
+export const getStorageProfile = (): string | null => activeProfileId;
+
+/**
+ * Installed when the app is unlocked with the PIN, and removed when the lock is turned off.
+ */
+export const setStorageCipher = (cipher: StorageCipher | null) => {
+  storageCipher = cipher;
+};
+
+/**
+ * Seals text with the current cipher, or returns it unchanged when the app lock is off.
+ */
+export const sealPrivateText = (text: string): string => storageCipher ? storageCipher.seal(text) : text;
+
+/**
+ * Opens text written by sealPrivateText. Values written before the lock was turned on are returned as they are.
+ */
+export const openPrivateText = (text: string): string => {
+  if (!isSealed(text)) return text;
+  if (!storageCipher) throw new Error('The app is locked, so encrypted data cannot be read.');
+  try {
+    return storageCipher.open(text);
+  } catch (e) {
+    // Left sealed so the caller rejects it as unreadable and quarantines it instead of losing it.
+    console.error('Failed to decrypt a stored value.', e);
+    return text;
+  }
+};
+
+const writeValue = (key: string, value: string): string =>
+  storageCipher?.isPrivateKey(key) ? storageCipher.seal(value) : value;
+
+const readValue = (value: string | null): string | null => value === null ? null : openPrivateText(value);
+
+const scopeKey = (key: string): string => {
+  if (!activeProfileId) throw new Error(`No profile is selected, so '${key}' cannot be accessed.`);
+  return getProfileKeyPrefix(activeProfileId) + key;
+};
+
+export const profileStorage = {
+  getItem: async (key: string) => readValue(await AsyncStorage.getItem(scopeKey(key))),
+  setItem: (key: string, value: string) => AsyncStorage.setItem(scopeKey(key), writeValue(key, value)),
+  removeItem: (key: string) => AsyncStorage.removeItem(scopeKey(key)),
+  // Returns the pairs under the keys that were asked for, without the profile prefix.
+  multiGet: async (keys: readonly string[]): Promise<[string, string | null][]> => {
+    const values = await AsyncStorage.multiGet(keys.map(scopeKey));
+    return values.map(([, value], index) => [keys[index], readValue(value)]);
+  },
+  multiSet: (pairs: [string, string][]) =>
+    AsyncStorage.multiSet(pairs.map(([key, value]): [string, string] => [scopeKey(key), writeValue(key, value)])),
+  multiRemove: (keys: readonly string[]) => AsyncStorage.multiRemove(keys.map(scopeKey)),
+  // The keys of the active profile, without the prefix.
+  getAllKeys: async (): Promise<string[]> => {
+    const prefix = scopeKey('');
+    const keys = await AsyncStorage.getAllKeys();
+    return keys.filter(key => key.startsWith(prefix)).map(key => key.slice(prefix.length));
+  },
+};
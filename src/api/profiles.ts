@@ -0,0 +1,104 @@
+/**
+ * @file src/api/profiles.ts
+ * @description Student profiles for tablets shared by several students. The list of profiles is device-wide;
+ * each profile's own data lives under its prefix in profileStorage.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PROFILE_KEY_PREFIX, getProfileKeyPrefix } from './profileStorage';
+import { DEVICE_STORAGE_KEYS } from './storage';
+import { API_KEY_STORAGE_KEY } from './apiKey';
+import { adoptLegacyResetSnapshots, deleteResetSnapshots } from './resetSnapshots';
+import { deleteMissionPhotos } from './missionPhotos';
+
+export interface StudentProfile {
+  id: string;
+  nickname: string;
+  // One of PROFILE_AVATARS; the first letter of the nickname is shown when there is none.
+  avatar?: string;
+  createdAt: number;
+}
+
+export const PROFILES_STORAGE_KEY = 'harusali_profiles';
+
+export const PROFILE_AVATARS = ['🐰', '🐻', '🐱', '🐶', '🦊', '🐼', '🐧', '🐥'];
+export const MAX_NICKNAME_LENGTH = 12;
+
+// The profile that data from before profiles existed is moved into.
+const LEGACY_PROFILE_NICKNAME = '학생 1';
+
+const isStudentProfile = (value: any): value is StudentProfile => {
+  return typeof value?.id === 'string'
+    && typeof value.nickname === 'string'
+    && typeof value.createdAt === 'number'
+    && (value.avatar === undefined || typeof value.avatar === 'string');
+};
+
+export const parseProfiles = (raw: string | null | undefined): StudentProfile[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isStudentProfile) : [];
+  } catch (e) {
+    console.error('Failed to parse profiles.', e);
+    return [];
+  }
+};
+
+export const saveProfiles = async (profiles: StudentProfile[]): Promise<void> => {
+  try { await AsyncStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles)); }
+  catch (e) { console.error('Failed to save profiles.', e); }
+};
+
+export const createStudentProfile = (nickname: string, avatar?: string): StudentProfile => ({
+  id: Date.now().toString(),
+  nickname: nickname.trim().slice(0, MAX_NICKNAME_LENGTH),
+  avatar,
+  createdAt: Date.now(),
+});
+
+export const getProfileInitial = (profile: StudentProfile): string => profile.avatar ?? profile.nickname.charAt(0);
+
+/**
+ * Moves the student data stored before profiles existed into a new profile.
+ * @returns The new profile, or null if there was no such data.
+ */
+const adoptLegacyData = async (): Promise<StudentProfile | null> => {
+  const deviceKeys: string[] = [...Object.values(DEVICE_STORAGE_KEYS), PROFILES_STORAGE_KEY, API_KEY_STORAGE_KEY];
+  const allKeys = await AsyncStorage.getAllKeys();
+  const legacyKeys = allKeys.filter(key => key.startsWith('harusali_') && !key.startsWith(PROFILE_KEY_PREFIX) && !deviceKeys.includes(key));
+  if (legacyKeys.length === 0) return null;
+
+  const profile = createStudentProfile(LEGACY_PROFILE_NICKNAME);
+  const prefix = getProfileKeyPrefix(profile.id);
+  const values = await AsyncStorage.multiGet(legacyKeys);
+  await AsyncStorage.multiSet(values.filter((entry): entry is [string, string] => entry[1] !== null).map(([key, value]) => [prefix + key, value]));
+  await AsyncStorage.multiRemove(legacyKeys);
+  try { adoptLegacyResetSnapshots(profile.id); }
+  catch (e) { console.error('Failed to move old reset snapshots.', e); }
+  return profile;
+};
+
+/**
+ * Reads the profile list. On the first launch after profiles were added, existing data becomes the first profile.
+ */
+export const loadProfiles = async (): Promise<StudentProfile[]> => {
+  const raw = await AsyncStorage.getItem(PROFILES_STORAGE_KEY);
+  if (raw !== null) return parseProfiles(raw);
+  const legacyProfile = await adoptLegacyData();
+  const profiles = legacyProfile ? [legacyProfile] : [];
+  await saveProfiles(profiles);
+  return profiles;
+};
+
+/**
+ * Deletes everything stored for a profile. The profile list itself is left to the caller.
+ */
+export const deleteProfileData = async (profileId: string): Promise<void> => {
+  const prefix = getProfileKeyPrefix(profileId);
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(prefix)));
+  try { deleteResetSnapshots(profileId); }
+  catch (e) { console.error('Failed to delete reset snapshots of profile:', profileId, e); }
+  try { deleteMissionPhotos(profileId); }
+  catch (e) { console.error('Failed to delete mission photos of profile:', profileId, e); }
+};
@@ -0,0 +1,130 @@
+/**
+ * @file src/api/progress.ts
+ * @description Visit-day counting and streaks, all based on the device's local date.
+ * Missing days is never punished: a short gap keeps the streak going, and the visit count only ever grows.
+ */
+import { profileStorage } from './profileStorage';
+
+export interface VisitProgress {
+  // Local dates, 'YYYY-MM-DD'.
+  firstVisitDate: string;
+  lastVisitDate: string;
+  visitedDays: number;
+  currentStreak: number;
+  longestStreak: number;
+}
+
+export type ProgressMetric = 'visitedDays' | 'daysSinceFirstUse' | 'currentStreak' | 'longestStreak';
+
+export const PROGRESS_METRIC_LABELS: { [key in ProgressMetric]: string } = {
+  visitedDays: '만난 날',
+  daysSinceFirstUse: '처음 만난 지',
+  currentStreak: '연속으로 만난 날',
+  longestStreak: '가장 길게 이어진 날',
+};
+
+export const PROGRESS_METRICS = Object.keys(PROGRESS_METRIC_LABELS) as ProgressMetric[];
+export const DEFAULT_PROGRESS_METRIC: ProgressMetric = 'visitedDays';
+
+export const VISIT_PROGRESS_STORAGE_KEY = 'harusali_visitProgress';
+export const PROGRESS_METRIC_STORAGE_KEY = 'harusali_progressMetric';
+
+// How many days in a row can be missed without the streak starting over.
+const STREAK_GRACE_DAYS = 1;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * The local calendar date, unlike `toISOString()` which gives the UTC date (a day behind in Korea until 9 AM).
+ */
+export const getLocalDateString = (date: Date = new Date()): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Whole days from one local date to another. Both are read as UTC midnight, so daylight saving cannot skew it.
+ */
+export const daysBetween = (from: string, to: string): number => {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+};
+
+export const createVisitProgress = (today: string, visitedDays: number = 1, firstVisitDate: string = today): VisitProgress => ({
+  firstVisitDate,
+  lastVisitDate: today,
+  visitedDays,
+  currentStreak: 1,
+  longestStreak: 1,
+});
+
+/**
+ * Counts today as a visit.
+ * @returns The updated progress, and how many days were missed since the last visit (0 if none).
+ */
+export const recordVisit = (progress: VisitProgress | null, today: string): { progress: VisitProgress; missedDays: number } => {
+  if (!progress) return { progress: createVisitProgress(today), missedDays: 0 };
+  const gap = daysBetween(progress.lastVisitDate, today);
+  // Same day, or the clock was moved back.
+  if (gap <= 0) return { progress, missedDays: 0 };
+
+  const missedDays = gap - 1;
+  const currentStreak = missedDays <= STREAK_GRACE_DAYS ? progress.currentStreak + 1 : 1;
+  return {
+    progress: {
+      ...progress,
+      lastVisitDate: today,
+      visitedDays: progress.visitedDays + 1,
+      currentStreak,
+      longestStreak: Math.max(progress.longestStreak, currentStreak),
+    },
+    missedDays,
+  };
+};
+
+export const getProgressValue = (progress: VisitProgress, metric: ProgressMetric, today: string): number => {
+  switch (metric) {
+    case 'daysSinceFirstUse': return Math.max(1, daysBetween(progress.firstVisitDate, today) + 1);
+    case 'currentStreak': return progress.currentStreak;
+    case 'longestStreak': return progress.longestStreak;
+    default: return progress.visitedDays;
+  }
+};
+
+const isDateString = (value: any): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+export const isVisitProgress = (value: any): value is VisitProgress => {
+  return isDateString(value?.firstVisitDate)
+    && isDateString(value.lastVisitDate)
+    && [value.visitedDays, value.currentStreak, value.longestStreak].every(count => Number.isInteger(count) && count >= 1);
+};
+
+export const isProgressMetric = (value: any): value is ProgressMetric => PROGRESS_METRICS.includes(value);
+
+export const parseVisitProgress = (raw: string | null | undefined): VisitProgress | null => {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return isVisitProgress(parsed) ? parsed : null;
+  } catch (e) {
+    console.error('Failed to parse visit progress.', e);
+    return null;
+  }
+};
+
+export const saveVisitProgress = async (progress: VisitProgress): Promise<void> => {
+  try { await profileStorage.setItem(VISIT_PROGRESS_STORAGE_KEY, JSON.stringify(progress)); }
+  catch (e) { console.error('Failed to save visit progress.', e); }
+};
+
+/**
+ * Combines two records of the same student, for example when importing a backup.
+ */
+export const mergeVisitProgress = (a: VisitProgress, b: VisitProgress): VisitProgress => {
+  const latest = a.lastVisitDate >= b.lastVisitDate ? a : b;
+  return {
+    firstVisitDate: a.firstVisitDate <= b.firstVisitDate ? a.firstVisitDate : b.firstVisitDate,
+    lastVisitDate: latest.lastVisitDate,
+    visitedDays: Math.max(a.visitedDays, b.visitedDays),
+    currentStreak: latest.currentStreak,
+    longestStreak: Math.max(a.longestStreak, b.longestStreak),
+  };
+};
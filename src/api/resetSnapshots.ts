@@ -0,0 +1,182 @@
+/**
+ * @file src/api/resetSnapshots.ts
+ * @description Copies of all stored data taken right before a reset, so a reset tapped by mistake can be undone.
+ * Each snapshot is a file in the app's document directory; only the most recent ones are kept.
+ * The API key lives in secure storage and is not part of a snapshot. While the app lock is on, snapshot files are encrypted.
+ * Mission photos are not copied: a reset leaves the files of records a snapshot holds in place (see deleteUnreferencedMissionPhotos).
+ */
+import { File, Directory, Paths } from 'expo-file-system';
+import { profileStorage, getStorageProfile, sealPrivateText, openPrivateText } from './profileStorage';
+import { STORAGE_KEYS, SCHEMA_VERSION_STORAGE_KEY, CHAT_DAY_KEY_PREFIX, parseRecordList, isCompletedMission } from './storage';
+import { parseVisitProgress } from './progress';
+import type { CompletedMission } from '../context/AppStateContext';
+
+// Not in STORAGE_KEYS, so a hard reset leaves the list of snapshots in place.
+export const RESET_SNAPSHOTS_STORAGE_KEY = 'harusali_resetSnapshots';
+
+const SNAPSHOT_DIRECTORY = 'reset_snapshots';
+export const MAX_RESET_SNAPSHOTS = 5;
+
+export type ResetSnapshotReason = 'softReset' | 'hardReset' | 'restore' | 'importReplace';
+
+export const RESET_SNAPSHOT_REASON_LABELS: { [key in ResetSnapshotReason]: string } = {
+  softReset: '리셋 전',
+  hardReset: '하드 리셋 전',
+  restore: '복구 전',
+  importReplace: '백업 덮어쓰기 전',
+};
+
+export interface ResetSnapshotSummary {
+  id: string;
+  createdAt: number;
+  reason: ResetSnapshotReason;
+  messageCount: number;
+  missionCount: number;
+  memoryCount: number;
+  visitedDays: number;
+}
+
+type StoredEntry = [string, string];
+
+const SNAPSHOT_KEYS: string[] = [...Object.values(STORAGE_KEYS), SCHEMA_VERSION_STORAGE_KEY];
+
+// Each profile has its own folder, and its own list of snapshots in profileStorage.
+const getSnapshotDirectory = (profileId: string | null = getStorageProfile()) =>
+  new Directory(Paths.document, SNAPSHOT_DIRECTORY, profileId ?? '');
+
+const getSnapshotFile = (id: string) => new File(getSnapshotDirectory(), `${id}.json`);
+
+const countList = (raw: string | undefined): number => {
+  if (!raw) return 0;
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.length : 0;
+  } catch (e) {
+    return 0;
+  }
+};
+
+const summarizeEntries = (id: string, reason: ResetSnapshotReason, entries: StoredEntry[]): ResetSnapshotSummary => {
+  const values = new Map(entries);
+  return {
+    id,
+    createdAt: Date.now(),
+    reason,
+    messageCount: entries.filter(([key]) => key.startsWith(CHAT_DAY_KEY_PREFIX)).reduce((sum, [, raw]) => sum + countList(raw), 0),
+    missionCount: countList(values.get(STORAGE_KEYS.MISSION_HISTORY)),
+    memoryCount: countList(values.get(STORAGE_KEYS.MEMORIES)),
+    visitedDays: parseVisitProgress(values.get(STORAGE_KEYS.VISIT_PROGRESS))?.visitedDays ?? 0,
+  };
+};
+
+export const parseResetSnapshots = (raw: string | null | undefined): ResetSnapshotSummary[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(item => typeof item?.id === 'string' && typeof item?.createdAt === 'number') : [];
+  } catch (e) {
+    console.error('Failed to parse reset snapshots.', e);
+    return [];
+  }
+};
+
+export const loadResetSnapshots = async (): Promise<ResetSnapshotSummary[]> =>
+  parseResetSnapshots(await profileStorage.getItem(RESET_SNAPSHOTS_STORAGE_KEY));
+
+/**
+ * Writes every stored value to a new snapshot file and drops the oldest snapshots beyond MAX_RESET_SNAPSHOTS.
+ * Throws if the snapshot could not be written, so the caller can leave the data alone.
+ * @returns The list of snapshots, newest first.
+ */
+export const createResetSnapshot = async (reason: ResetSnapshotReason): Promise<ResetSnapshotSummary[]> => {
+  const allKeys = await profileStorage.getAllKeys();
+  const keys = allKeys.filter(key => SNAPSHOT_KEYS.includes(key) || key.startsWith(CHAT_DAY_KEY_PREFIX));
+  const entries = (await profileStorage.multiGet(keys)).filter((entry): entry is StoredEntry => entry[1] !== null);
+
+  const summary = summarizeEntries(Date.now().toString(), reason, entries);
+  const directory = getSnapshotDirectory();
+  if (!directory.exists) directory.create({ intermediates: true });
+  const file = getSnapshotFile(summary.id);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(sealPrivateText(JSON.stringify(entries)));
+
+  const snapshots = [summary, ...(await loadResetSnapshots())];
+  snapshots.slice(MAX_RESET_SNAPSHOTS).forEach(old => {
+    try {
+      const oldFile = getSnapshotFile(old.id);
+      if (oldFile.exists) oldFile.delete();
+    } catch (e) {
+      console.error('Failed to delete old reset snapshot:', old.id, e);
+    }
+  });
+  const kept = snapshots.slice(0, MAX_RESET_SNAPSHOTS);
+  await profileStorage.setItem(RESET_SNAPSHOTS_STORAGE_KEY, JSON.stringify(kept));
+  return kept;
+};
+
+/**
+ * Moves snapshot files taken before there were profiles into the given profile's folder.
+ */
+export const adoptLegacyResetSnapshots = (profileId: string) => {
+  const legacyDirectory = new Directory(Paths.document, SNAPSHOT_DIRECTORY);
+  if (!legacyDirectory.exists) return;
+  const directory = getSnapshotDirectory(profileId);
+  if (!directory.exists) directory.create({ intermediates: true });
+  legacyDirectory.list().forEach(item => {
+    if (item instanceof File && item.name.endsWith('.json')) item.move(directory);
+  });
+};
+
+export const deleteResetSnapshots = (profileId: string) => {
+  const directory = getSnapshotDirectory(profileId);
+  if (directory.exists) directory.delete();
+};
+
+export const deleteAllResetSnapshots = () => {
+  const directory = new Directory(Paths.document, SNAPSHOT_DIRECTORY);
+  if (directory.exists) directory.delete();
+};
+
+/**
+ * Rewrites the contents of every profile's snapshot files, e.g. to encrypt them with a new PIN.
+ */
+export const rewriteAllResetSnapshots = async (rewrite: (text: string) => string) => {
+  const directory = new Directory(Paths.document, SNAPSHOT_DIRECTORY);
+  if (!directory.exists) return;
+  for (const profileDirectory of directory.list()) {
+    if (!(profileDirectory instanceof Directory)) continue;
+    for (const file of profileDirectory.list()) {
+      if (file instanceof File && file.name.endsWith('.json')) file.write(rewrite(await file.text()));
+    }
+  }
+};
+
+/**
+ * @returns The stored values in the snapshot, or null if its file is missing or unreadable.
+ */
+export const readResetSnapshot = async (id: string): Promise<StoredEntry[] | null> => {
+  try {
+    const file = getSnapshotFile(id);
+    if (!file.exists) return null;
+    const parsed = JSON.parse(openPrivateText(await file.text()));
+    if (!Array.isArray(parsed)) return null;
+    return parsed.filter((entry: any): entry is StoredEntry =>
+      Array.isArray(entry) && typeof entry[0] === 'string' && typeof entry[1] === 'string');
+  } catch (e) {
+    console.error('Failed to read reset snapshot:', id, e);
+    return null;
+  }
+};
+
+/**
+ * @returns The mission records held by every kept snapshot of the open profile.
+ */
+export const loadResetSnapshotMissions = async (): Promise<CompletedMission[]> => {
+  const missions: CompletedMission[] = [];
+  for (const snapshot of await loadResetSnapshots()) {
+    const raw = (await readResetSnapshot(snapshot.id))?.find(([key]) => key === STORAGE_KEYS.MISSION_HISTORY)?.[1];
+    missions.push(...parseRecordList(STORAGE_KEYS.MISSION_HISTORY, raw, isCompletedMission).records);
+  }
+  return missions;
+};
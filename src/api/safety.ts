@@ -0,0 +1,82 @@
+/**
+ * @file src/api/safety.ts
+ * @description Screens student messages and model replies against the reviewed safety patterns,
+ * and keeps a local log of every hit for the admin screen.
+ */
+import { profileStorage } from './profileStorage';
+import {
+  CRISIS_PATTERNS,
+  HARMFUL_OUTPUT_PATTERNS,
+  CRISIS_RESPONSE_TEXT,
+  BLOCKED_OUTPUT_TEXT,
+  SafetyCategory,
+  SafetyPattern,
+} from '../constants/safety';
+import { HaruResponse } from './haru';
+
+export interface SafetyEvent {
+  id: string;
+  timestamp: number;
+  source: 'user' | 'model';
+  category: SafetyCategory;
+  label: string;
+  excerpt: string;
+}
+
+export const SAFETY_EVENTS_STORAGE_KEY = 'harusali_safetyEvents';
+const MAX_SAFETY_EVENTS = 100;
+const EXCERPT_LENGTH = 60;
+
+const findMatch = (text: string, patterns: SafetyPattern[]): SafetyPattern | null => {
+  const normalized = text.replace(/\s+/g, '');
+  return patterns.find(entry => entry.pattern.test(normalized)) ?? null;
+};
+
+/**
+ * Checks a student message for signs of crisis (suicide, self-harm, abuse).
+ * @returns The first matching pattern, or null if the message looks safe.
+ */
+export const checkUserMessage = (text: string): SafetyPattern | null => findMatch(text, CRISIS_PATTERNS);
+
+/**
+ * Checks a reply from the model for harmful content.
+ * @returns The first matching pattern, or null if the reply looks safe.
+ */
+export const checkBotResponse = (text: string): SafetyPattern | null => findMatch(text, HARMFUL_OUTPUT_PATTERNS);
+
+// Haru's fixed reply when a student message matches a crisis pattern. The UI shows the help lines with it.
+export const CRISIS_RESPONSE: HaruResponse = { text: CRISIS_RESPONSE_TEXT, state: 'very_shy' };
+
+// Replaces a model reply that failed screening.
+export const BLOCKED_OUTPUT_RESPONSE: HaruResponse = { text: BLOCKED_OUTPUT_TEXT, state: 'very_shy' };
+
+export const createSafetyEvent = (source: SafetyEvent['source'], match: SafetyPattern, text: string): SafetyEvent => ({
+  id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  timestamp: Date.now(),
+  source,
+  category: match.category,
+  label: match.label,
+  excerpt: text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text,
+});
+
+export const parseSafetyEvents = (raw: string | null | undefined): SafetyEvent[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error('Failed to parse safety events.', e);
+    return [];
+  }
+};
+
+/**
+ * Adds an event to the front of the list, keeping only the most recent ones, and persists it.
+ * @returns The new list.
+ */
+export const appendSafetyEvent = async (events: SafetyEvent[], event: SafetyEvent): Promise<SafetyEvent[]> => {
+  const newEvents = [event, ...events].slice(0, MAX_SAFETY_EVENTS);
+  try { await profileStorage.setItem(SAFETY_EVENTS_STORAGE_KEY, JSON.stringify(newEvents)); }
+  catch (e) { console.error('Failed to save safety event.', e); }
+  return newEvents;
+};
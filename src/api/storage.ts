@@ -0,0 +1,283 @@
+/**
+ * @file src/api/storage.ts
+ * @description Storage keys, schema migrations and record validation for the data kept in AsyncStorage.
+ * To change the shape of stored data, add a migration to MIGRATIONS with the next version number.
+ * Migrations run on each student profile's data separately, when that profile is opened.
+ */
+import { profileStorage } from './profileStorage';
+import { MISSIONS } from '../constants/missions';
+import { isHaruEmotion } from './haru';
+import { createVisitProgress, getLocalDateString, VISIT_PROGRESS_STORAGE_KEY, PROGRESS_METRIC_STORAGE_KEY } from './progress';
+import { CHAT_PROVIDER_STORAGE_KEY } from './chatProvider';
+import { CUSTOM_PERSONAS_STORAGE_KEY, ACTIVE_PERSONA_STORAGE_KEY } from './persona';
+import { USAGE_EVENTS_STORAGE_KEY } from './usageLog';
+import { DAILY_MISSION_STORAGE_KEY } from './dailyMission';
+import { MISSION_LADDER_STORAGE_KEY } from './missionLadder';
+import type { ChatMessage, CompletedMission } from '../context/AppStateContext';
+
+// Each student's own data, kept in profileStorage.
+export const STORAGE_KEYS = {
+  VISIT_PROGRESS: VISIT_PROGRESS_STORAGE_KEY,
+  PROGRESS_METRIC: PROGRESS_METRIC_STORAGE_KEY,
+  // Index of the days that have chat messages. Each day's messages are stored under CHAT_DAY_KEY_PREFIX + date.
+  CHAT_INDEX: 'harusali_chatIndex',
+  CHAT_RETENTION: 'harusali_chatRetention',
+  MISSION_HISTORY: 'harusali_missionHistory',
+  DAILY_MISSION: DAILY_MISSION_STORAGE_KEY,
+  MISSION_LADDER: MISSION_LADDER_STORAGE_KEY,
+  HARU_EMOTION: 'harusali_haruEmotion',
+  CHAT_COUNT: 'harusali_chatCount',
+  SAFETY_EVENTS: 'harusali_safetyEvents',
+  OUTBOX: 'harusali_outbox',
+  MEMORIES: 'harusali_memories',
+  MEMORY_CURSOR: 'harusali_memoryCursor',
+  MEMORY_ENABLED: 'harusali_memoryEnabled',
+  QUARANTINE: 'harusali_quarantine',
+  USAGE_EVENTS: USAGE_EVENTS_STORAGE_KEY,
+};
+
+// Admin settings shared by every profile on the device, kept in plain AsyncStorage.
+export const DEVICE_STORAGE_KEYS = {
+  USE_AI_RESPONSE: 'harusali_useAiResponse',
+  CHAT_PROVIDER: CHAT_PROVIDER_STORAGE_KEY,
+  CUSTOM_PERSONAS: CUSTOM_PERSONAS_STORAGE_KEY,
+  ACTIVE_PERSONA: ACTIVE_PERSONA_STORAGE_KEY,
+  // PIN salt and check value; the PIN itself is never stored.
+  APP_LOCK: 'harusali_appLock',
+};
+
+export const CHAT_DAY_KEY_PREFIX = 'harusali_chatDay_';
+
+// Encrypted at rest while the app lock is on: conversations, the mission photo records, and records that quote
+// or summarize conversations.
+const PRIVATE_STORAGE_KEYS: string[] = [
+  STORAGE_KEYS.MISSION_HISTORY,
+  STORAGE_KEYS.MEMORIES,
+  STORAGE_KEYS.SAFETY_EVENTS,
+  STORAGE_KEYS.QUARANTINE,
+];
+
+export const isPrivateStorageKey = (key: string): boolean =>
+  key.startsWith(CHAT_DAY_KEY_PREFIX) || PRIVATE_STORAGE_KEYS.includes(key);
+
+// The single chat list used before messages were stored per day. Only read by migrations.
+const LEGACY_CHAT_HISTORY_KEY = 'harusali_chatHistory';
+
+// Kept apart from STORAGE_KEYS so a hard reset does not make the next launch re-run every migration.
+export const SCHEMA_VERSION_STORAGE_KEY = 'harusali_schemaVersion';
+
+// A stored value that failed validation, kept so it can be inspected or recovered by hand.
+export interface QuarantinedRecord {
+  key: string;
+  raw: string;
+  reason: string;
+  quarantinedAt: number;
+}
+
+const MAX_QUARANTINED_RECORDS = 50;
+
+export interface StorageMigration {
+  version: number;
+  description: string;
+  migrate: () => Promise<void>;
+}
+
+// Ordered by version. Each migration runs once, and must cope with data it cannot read by leaving it alone.
+const MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Link completed missions to their mission id',
+    migrate: async () => {
+      const raw = await profileStorage.getItem(STORAGE_KEYS.MISSION_HISTORY);
+      if (!raw) return;
+      let parsed: any;
+      try { parsed = JSON.parse(raw); } catch (e) { return; }
+      if (!Array.isArray(parsed)) return;
+      const migrated = parsed.map(item => {
+        if (!item || typeof item !== 'object' || item.missionId) return item;
+        const mission = MISSIONS.find(candidate => candidate.text === item.missionName);
+        return mission ? { ...item, missionId: mission.id } : item;
+      });
+      await profileStorage.setItem(STORAGE_KEYS.MISSION_HISTORY, JSON.stringify(migrated));
+    },
+  },
+  {
+    version: 2,
+    description: 'Replace the day count with visit progress on local dates',
+    migrate: async () => {
+      const LEGACY_DAY_COUNT_KEY = 'harusali_dayCount';
+      const LEGACY_LAST_VISIT_DATE_KEY = 'harusali_lastVisitDate';
+      const values = new Map(await profileStorage.multiGet([LEGACY_DAY_COUNT_KEY, LEGACY_LAST_VISIT_DATE_KEY, LEGACY_CHAT_HISTORY_KEY]));
+      const lastVisitDate = values.get(LEGACY_LAST_VISIT_DATE_KEY);
+      if (!lastVisitDate) return;
+
+      // The first visit was never stored; the oldest chat message is the best guess.
+      let firstVisitDate = lastVisitDate;
+      try {
+        const chat = JSON.parse(values.get(LEGACY_CHAT_HISTORY_KEY) ?? '[]');
+        const oldest = Array.isArray(chat) ? Math.min(...chat.map(msg => msg?.timestamp).filter(Number.isFinite)) : Infinity;
+        if (Number.isFinite(oldest) && getLocalDateString(new Date(oldest)) < firstVisitDate) firstVisitDate = getLocalDateString(new Date(oldest));
+      } catch (e) {
+        // Unreadable chat history is quarantined on load; the last visit date will do.
+      }
+      const visitedDays = Math.max(1, parseInt(values.get(LEGACY_DAY_COUNT_KEY) ?? '1', 10) || 1);
+      await profileStorage.setItem(STORAGE_KEYS.VISIT_PROGRESS, JSON.stringify(createVisitProgress(lastVisitDate, visitedDays, firstVisitDate)));
+      await profileStorage.multiRemove([LEGACY_DAY_COUNT_KEY, LEGACY_LAST_VISIT_DATE_KEY]);
+    },
+  },
+  {
+    version: 3,
+    description: 'Split the chat history into one entry per local day',
+    migrate: async () => {
+      const raw = await profileStorage.getItem(LEGACY_CHAT_HISTORY_KEY);
+      if (raw === null) return;
+      // Nothing reads the old list after this, so anything invalid in it is quarantined here.
+      const { records, rejected } = parseRecordList(LEGACY_CHAT_HISTORY_KEY, raw, isChatMessage);
+      await appendQuarantine(parseQuarantine(await profileStorage.getItem(STORAGE_KEYS.QUARANTINE)), rejected);
+
+      const days = new Map<string, ChatMessage[]>();
+      records.forEach(message => {
+        const date = getLocalDateString(new Date(message.timestamp));
+        days.set(date, [...(days.get(date) ?? []), message]);
+      });
+      await profileStorage.multiSet([
+        ...[...days].map(([date, messages]): [string, string] => [CHAT_DAY_KEY_PREFIX + date, JSON.stringify(messages)]),
+        [STORAGE_KEYS.CHAT_INDEX, JSON.stringify([...days.keys()].sort())],
+      ]);
+      await profileStorage.removeItem(LEGACY_CHAT_HISTORY_KEY);
+    },
+  },
+  {
+    version: 4,
+    description: 'Store mission photo paths relative to the document directory',
+    migrate: async () => {
+      const raw = await profileStorage.getItem(STORAGE_KEYS.MISSION_HISTORY);
+      if (!raw) return;
+      let parsed: any;
+      try { parsed = JSON.parse(raw); } catch (e) { return; }
+      if (!Array.isArray(parsed)) return;
+      // The document directory may already have moved, so the path is cut at the photo folder, wherever it was.
+      const PHOTO_FOLDER = '/mission_photos/';
+      const toPath = (uri: any) =>
+        typeof uri === 'string' && uri.startsWith('file:') && uri.includes(PHOTO_FOLDER) ? uri.slice(uri.indexOf(PHOTO_FOLDER) + 1) : uri;
+      const migrated = parsed.map(item => {
+        if (!item || typeof item !== 'object') return item;
+        return { ...item, photoUri: toPath(item.photoUri), thumbnailUri: toPath(item.thumbnailUri) };
+      });
+      await profileStorage.setItem(STORAGE_KEYS.MISSION_HISTORY, JSON.stringify(migrated));
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Brings stored data up to CURRENT_SCHEMA_VERSION. Data written before versioning existed counts as version 0.
+ * If a migration fails, the ones after it are not run and the version stays put, so they are tried again next launch.
+ */
+export const runMigrations = async (): Promise<void> => {
+  const storedVersion = parseInt((await profileStorage.getItem(SCHEMA_VERSION_STORAGE_KEY)) ?? '0', 10) || 0;
+  if (storedVersion > CURRENT_SCHEMA_VERSION) {
+    console.error(`Stored data is schema version ${storedVersion}, newer than this app (${CURRENT_SCHEMA_VERSION}).`);
+    return;
+  }
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= storedVersion) continue;
+    try {
+      await migration.migrate();
+      await profileStorage.setItem(SCHEMA_VERSION_STORAGE_KEY, migration.version.toString());
+    } catch (e) {
+      console.error(`Storage migration ${migration.version} (${migration.description}) failed.`, e);
+      return;
+    }
+  }
+};
+
+export const isChatMessage = (value: any): value is ChatMessage => {
+  return typeof value?.id === 'string'
+    && typeof value.text === 'string'
+    && (value.sender === 'user' || value.sender === 'bot')
+    && typeof value.timestamp === 'number'
+    && (value.state === undefined || isHaruEmotion(value.state));
+};
+
+export const isCompletedMission = (value: any): value is CompletedMission => {
+  return typeof value?.id === 'string'
+    && typeof value.missionName === 'string'
+    && typeof value.date === 'string'
+    && (value.photoUri === undefined || typeof value.photoUri === 'string')
+    && (value.thumbnailUri === undefined || typeof value.thumbnailUri === 'string');
+};
+
+const createQuarantinedRecord = (key: string, raw: string, reason: string): QuarantinedRecord => ({
+  key,
+  raw,
+  reason,
+  quarantinedAt: Date.now(),
+});
+
+/**
+ * Parses a stored list and keeps only the items that pass `isValid`.
+ * Anything rejected is returned as quarantined records instead of being dropped.
+ */
+export const parseRecordList = <T>(
+  key: string,
+  raw: string | null | undefined,
+  isValid: (value: any) => value is T,
+): { records: T[]; rejected: QuarantinedRecord[] } => {
+  if (!raw) return { records: [], rejected: [] };
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    return { records: [], rejected: [createQuarantinedRecord(key, raw, 'Not valid JSON')] };
+  }
+  if (!Array.isArray(parsed)) {
+    return { records: [], rejected: [createQuarantinedRecord(key, raw, 'Not a list')] };
+  }
+  const records: T[] = [];
+  const rejected: QuarantinedRecord[] = [];
+  parsed.forEach((item, index) => {
+    if (isValid(item)) records.push(item);
+    else rejected.push(createQuarantinedRecord(key, JSON.stringify(item) ?? String(item), `Invalid item at index ${index}`));
+  });
+  return { records, rejected };
+};
+
+/**
+ * Checks a single stored value. A value that is present but invalid is quarantined, and null is returned.
+ */
+export const parseRecord = <T>(
+  key: string,
+  raw: string | null | undefined,
+  isValid: (value: any) => value is T,
+): { record: T | null; rejected: QuarantinedRecord[] } => {
+  if (raw === null || raw === undefined) return { record: null, rejected: [] };
+  return isValid(raw)
+    ? { record: raw, rejected: [] }
+    : { record: null, rejected: [createQuarantinedRecord(key, raw, 'Invalid value')] };
+};
+
+export const parseQuarantine = (raw: string | null | undefined): QuarantinedRecord[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error('Failed to parse quarantined records.', e);
+    return [];
+  }
+};
+
+/**
+ * Adds records to the quarantine, newest first, keeping only the most recent ones, and persists it.
+ * @returns The new list.
+ */
+export const appendQuarantine = async (existing: QuarantinedRecord[], records: QuarantinedRecord[]): Promise<QuarantinedRecord[]> => {
+  if (records.length === 0) return existing;
+  records.forEach(record => console.error(`Quarantined corrupt data from ${record.key}: ${record.reason}`));
+  const newRecords = [...records, ...existing].slice(0, MAX_QUARANTINED_RECORDS);
+  try { await profileStorage.setItem(STORAGE_KEYS.QUARANTINE, JSON.stringify(newRecords)); }
+  catch (e) { console.error('Failed to save quarantined records.', e); }
+  return newRecords;
+};
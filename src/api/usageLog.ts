@@ -0,0 +1,121 @@
+/**
+ * @file src/api/usageLog.ts
+ * @description A local journal of how the app is used, for evaluating a pilot without an analytics service.
+ * Events never contain what a student wrote, only what kind of thing happened. Each profile keeps its own
+ * journal, and only the newest MAX_USAGE_EVENTS are kept.
+ */
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { profileStorage, getStorageProfile } from './profileStorage';
+import { getLocalDateString } from './progress';
+
+export const USAGE_EVENTS_STORAGE_KEY = 'harusali_usageEvents';
+export const MAX_USAGE_EVENTS = 1000;
+
+export type UsageEventType =
+  | 'screen_view'
+  | 'message_sent'
+  | 'ai_status'
+  | 'fallback_used'
+  | 'mission_started'
+  | 'mission_completed'
+  | 'diary_page_viewed';
+
+export const USAGE_EVENT_LABELS: { [key in UsageEventType]: string } = {
+  screen_view: '화면 열기',
+  message_sent: '메시지 보냄',
+  ai_status: 'AI 상태 변화',
+  fallback_used: '대체 답변',
+  mission_started: '미션 시작',
+  mission_completed: '미션 완료',
+  diary_page_viewed: '일기 보기',
+};
+
+export const USAGE_EVENT_TYPES = Object.keys(USAGE_EVENT_LABELS) as UsageEventType[];
+
+export interface UsageEvent {
+  id: string;
+  timestamp: number;
+  type: UsageEventType;
+  // A screen name, status change, mission id or page number. Never message text.
+  detail?: string;
+}
+
+const isUsageEvent = (value: any): value is UsageEvent => {
+  return typeof value?.id === 'string'
+    && typeof value.timestamp === 'number'
+    && USAGE_EVENT_TYPES.includes(value.type)
+    && (value.detail === undefined || typeof value.detail === 'string');
+};
+
+export const parseUsageEvents = (raw: string | null | undefined): UsageEvent[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isUsageEvent) : [];
+  } catch (e) {
+    console.error('Failed to parse usage events.', e);
+    return [];
+  }
+};
+
+// Events are written one after another, so two events logged at once do not overwrite each other.
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Appends an event to the open profile's journal. Does nothing while no profile is open.
+ */
+export const recordUsageEvent = (type: UsageEventType, detail?: string) => {
+  const profileId = getStorageProfile();
+  if (!profileId) return;
+  const timestamp = Date.now();
+  const event: UsageEvent = { id: `${timestamp}-${Math.random().toString(36).slice(2, 8)}`, timestamp, type, detail };
+  writeQueue = writeQueue
+    .then(async () => {
+      // Dropped rather than filed under another student if the profile changed in the meantime.
+      if (getStorageProfile() !== profileId) return;
+      const events = parseUsageEvents(await profileStorage.getItem(USAGE_EVENTS_STORAGE_KEY));
+      await profileStorage.setItem(USAGE_EVENTS_STORAGE_KEY, JSON.stringify([...events, event].slice(-MAX_USAGE_EVENTS)));
+    })
+    .catch(e => console.error('Failed to record usage event.', e));
+};
+
+/**
+ * @returns The open profile's events, oldest first, including any still being written.
+ */
+export const loadUsageEvents = async (): Promise<UsageEvent[]> => {
+  await writeQueue;
+  return parseUsageEvents(await profileStorage.getItem(USAGE_EVENTS_STORAGE_KEY));
+};
+
+export const clearUsageEvents = async (): Promise<void> => {
+  await writeQueue;
+  await profileStorage.removeItem(USAGE_EVENTS_STORAGE_KEY);
+};
+
+const toCsvField = (value: string): string => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const usageEventsToCsv = (events: UsageEvent[]): string => {
+  const header = ['time', 'local_date', 'type', 'label', 'detail'];
+  const rows = events.map(event => [
+    new Date(event.timestamp).toISOString(),
+    getLocalDateString(new Date(event.timestamp)),
+    event.type,
+    USAGE_EVENT_LABELS[event.type],
+    event.detail ?? '',
+  ]);
+  return [header, ...rows].map(row => row.map(toCsvField).join(',')).join('\n');
+};
+
+/**
+ * Writes the events to a CSV file and opens the system share sheet for it.
+ */
+export const shareUsageEventsCsv = async (events: UsageEvent[]): Promise<void> => {
+  const file = new File(Paths.cache, `harusali-usage-${getLocalDateString()}.csv`);
+  if (file.exists) file.delete();
+  file.create();
+  // The byte order mark makes Excel read the Korean labels as UTF-8.
+  file.write('\uFEFF' + usageEventsToCsv(events));
+  if (!(await Sharing.isAvailableAsync())) throw new Error('Sharing is not available on this device.');
+  await Sharing.shareAsync(file.uri, { mimeType: 'text/csv', dialogTitle: '하루살이 사용 기록 내보내기', UTI: 'public.comma-separated-values-text' });
+};
@@ -0,0 +1,183 @@
+/**
+ * @file src/components/AppLockOverlay.tsx
+ * @description Covers the whole app while it is locked and asks for the PIN or biometrics.
+ * Drawn over the navigator instead of replacing it, so the screen a student was on is still there after unlocking.
+ */
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, Text, View, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { COLORS } from '../constants/colors';
+import { useAppActions } from '../context/AppStateContext';
+import { useAppLock } from '../context/stores/lockStore';
+import { PIN_LENGTH } from '../api/appLock';
+
+const KEYPAD_ROWS = [['1', '2', '3'], ['4', '5', '6'], ['7', '8', '9'], ['', '0', '⌫']];
+
+const AppLockOverlay = () => {
+  const { isLockLoaded, isLocked, useBiometrics, isBiometricsAvailable } = useAppLock();
+  const { unlockWithPin, unlockWithBiometrics, resetForgottenPin } = useAppActions();
+  const [pin, setPin] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [isWrong, setIsWrong] = useState(false);
+  const canUseBiometrics = useBiometrics && isBiometricsAvailable;
+
+  // Offers biometrics right away each time the lock screen appears.
+  useEffect(() => {
+    if (isLockLoaded && isLocked && canUseBiometrics) unlockWithBiometrics();
+  }, [isLockLoaded, isLocked, canUseBiometrics]);
+
+  useEffect(() => {
+    if (pin.length < PIN_LENGTH) return;
+    setIsChecking(true);
+    unlockWithPin(pin).then(success => {
+      setIsChecking(false);
+      setIsWrong(!success);
+      setPin('');
+    });
+  }, [pin]);
+
+  const handleKey = (key: string) => {
+    if (isChecking || key === '') return;
+    setIsWrong(false);
+    if (key === '⌫') setPin(prev => prev.slice(0, -1));
+    else setPin(prev => (prev + key).slice(0, PIN_LENGTH));
+  };
+
+  const handleForgot = () => {
+    Alert.alert(
+      "비밀번호를 잊었나요?",
+      "대화와 미션 기록은 비밀번호로 잠겨 있어서, 비밀번호 없이는 열 수 없어요. 모든 학생의 기록을 지우고 잠금을 풀 수 있습니다.",
+      [
+        { text: "취소", style: "cancel" },
+        {
+          text: "기록 지우기",
+          style: "destructive",
+          onPress: () => Alert.alert(
+            "정말 지울까요?",
+            "모든 학생의 대화, 미션, 기억, 리셋 보관본이 지워지고 되돌릴 수 없습니다. 학생 프로필과 관리자 설정은 남아요.",
+            [
+              { text: "취소", style: "cancel" },
+              { text: "모두 지우기", style: "destructive", onPress: () => resetForgottenPin() },
+            ]
+          ),
+        },
+      ]
+    );
+  };
+
+  if (!isLocked) return null;
+
+  if (!isLockLoaded) {
+    return (
+      <View style={styles.overlay}>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.overlay}>
+      <Text style={styles.title}>비밀번호를 입력해 주세요</Text>
+      <View style={styles.dotRow}>
+        {Array.from({ length: PIN_LENGTH }, (_, index) => (
+          <View key={index} style={[styles.dot, index < pin.length && styles.dotFilled]} />
+        ))}
+      </View>
+      <Text style={styles.errorText}>{isWrong ? '비밀번호가 맞지 않아요.' : ' '}</Text>
+
+      {KEYPAD_ROWS.map((row, rowIndex) => (
+        <View key={rowIndex} style={styles.keypadRow}>
+          {row.map((key, keyIndex) => (
+            <TouchableOpacity
+              key={keyIndex}
+              style={[styles.key, key === '' && styles.keyHidden]}
+              onPress={() => handleKey(key)}
+              disabled={key === '' || isChecking}
+            >
+              <Text style={styles.keyText}>{key}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ))}
+
+      <View style={styles.linkRow}>
+        {canUseBiometrics && (
+          <TouchableOpacity onPress={() => unlockWithBiometrics()} disabled={isChecking}>
+            <Text style={styles.linkText}>지문/얼굴로 열기</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity onPress={handleForgot} disabled={isChecking}>
+          <Text style={styles.linkText}>비밀번호를 잊었어요</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 100,
+    backgroundColor: COLORS.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: COLORS.text,
+    marginBottom: 20,
+  },
+  dotRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  dot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: COLORS.primary,
+    marginHorizontal: 8,
+  },
+  dotFilled: {
+    backgroundColor: COLORS.primary,
+  },
+  errorText: {
+    fontSize: 14,
+    color: COLORS.danger,
+    marginBottom: 12,
+  },
+  keypadRow: {
+    flexDirection: 'row',
+  },
+  key: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: COLORS.white,
+    borderWidth: 1,
+    borderColor: COLORS.lightGray,
+    justifyContent: 'center',
+    alignItems: 'center',
+    margin: 6,
+  },
+  keyHidden: {
+    opacity: 0,
+  },
+  keyText: {
+    fontSize: 24,
+    color: COLORS.text,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  linkText: {
+    fontSize: 14,
+    color: COLORS.gray,
+    textDecorationLine: 'underline',
+    marginHorizontal: 12,
+  },
+});
+
+export default AppLockOverlay;
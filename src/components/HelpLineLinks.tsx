@@ -0,0 +1,41 @@
+/**
+ * @file src/components/HelpLineLinks.tsx
+ * @description Tappable crisis help line numbers, shown under Haru's safety reply.
+ */
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View, Linking, Alert } from 'react-native';
+import { COLORS } from '../constants/colors';
+import { HELP_LINES, HelpLine } from '../constants/safety';
+
+// Tablets and emulators often cannot place calls, so the number is shown to dial from another phone instead.
+// canOpenURL is not used, as Android only answers it for schemes declared in the manifest.
+const callHelpLine = async (line: HelpLine) => {
+  try {
+    await Linking.openURL(`tel:${line.number}`);
+  } catch (e) {
+    console.error('Failed to open the dialer:', e);
+    Alert.alert(line.name, `이 기기에서는 전화를 걸 수 없어요.\n다른 전화로 ${line.number}번에 걸어 주세요.\n${line.description}`);
+  }
+};
+
+const HelpLineLinks = () => (
+  <View style={styles.container}>
+    {HELP_LINES.map(line => (
+      <TouchableOpacity key={line.number} style={styles.link} onPress={() => callHelpLine(line)}>
+        <Text style={styles.number}>📞 {line.number}</Text>
+        <Text style={styles.name}>{line.name}</Text>
+        <Text style={styles.description}>{line.description}</Text>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: { marginTop: 10 },
+  link: { backgroundColor: COLORS.background, borderRadius: 10, paddingVertical: 8, paddingHorizontal: 12, marginTop: 6, borderWidth: 1, borderColor: COLORS.secondary },
+  number: { fontSize: 18, fontWeight: 'bold', color: COLORS.primary, textDecorationLine: 'underline' },
+  name: { fontSize: 14, color: COLORS.text },
+  description: { fontSize: 12, color: COLORS.gray },
+});
+
+export default HelpLineLinks;
@@ -0,0 +1,53 @@
+/**
+ * @file src/components/MissionPhoto.tsx
+ * @description A completed mission's photo, or a placeholder when the file is gone (e.g. after a reset was undone,
+ * or for old records whose picker cache was cleared).
+ */
+import React, { useState, useMemo } from 'react';
+import { StyleSheet, Text, View, Image, ImageStyle, ViewStyle, StyleProp } from 'react-native';
+import { COLORS } from '../constants/colors';
+import { isMissionPhotoAvailable, resolveMissionPhotoUri } from '../api/missionPhotos';
+import type { CompletedMission } from '../context/AppStateContext';
+
+interface Props {
+  mission: Pick<CompletedMission, 'photoUri' | 'thumbnailUri'>;
+  // Shows the small copy when there is one, for lists.
+  thumbnail?: boolean;
+  style: StyleProp<ImageStyle>;
+}
+
+const MissionPhoto = ({ mission, thumbnail = false, style }: Props) => {
+  const path = thumbnail ? mission.thumbnailUri ?? mission.photoUri : mission.photoUri;
+  const isAvailable = useMemo(() => isMissionPhotoAvailable(path), [path]);
+  const [hasFailed, setHasFailed] = useState(false);
+
+  if (!path || !isAvailable || hasFailed) {
+    return (
+      <View style={[style as StyleProp<ViewStyle>, styles.placeholder]}>
+        <Text style={styles.placeholderIcon}>📷</Text>
+        {!thumbnail && <Text style={styles.placeholderText}>사진을 찾을 수 없어요</Text>}
+      </View>
+    );
+  }
+
+  return <Image source={{ uri: resolveMissionPhotoUri(path) }} style={style} onError={() => setHasFailed(true)} />;
+};
+
+const styles = StyleSheet.create({
+  placeholder: {
+    backgroundColor: COLORS.lightGray,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  placeholderIcon: {
+    fontSize: 20,
+    opacity: 0.5,
+  },
+  placeholderText: {
+    fontSize: 12,
+    color: COLORS.gray,
+    marginTop: 4,
+  },
+});
+
+export default MissionPhoto;
@@ -0,0 +1,246 @@
+/**
+ * @file src/components/PersonaManager.tsx
+ * @description Admin section for Haru persona presets: activate, duplicate, edit, delete and preview.
+ */
+import React, { useState } from 'react';
+import { StyleSheet, Text, View, TouchableOpacity, TextInput, Alert, ActivityIndicator } from 'react-native';
+import { useAppActions } from '../context/AppStateContext';
+import { useActivePersonaId, usePersonas } from '../context/stores/settingsStore';
+import { COLORS } from '../constants/colors';
+import { PersonaPreset } from '../constants/personas';
+import { duplicatePersona } from '../api/persona';
+import { HaruEmotion, HaruResponse, HARU_EMOTIONS } from '../api/haru';
+
+const emotionNames: { [key in HaruEmotion]: string } = {
+  neutral: '기본',
+  very_shy: '부끄럼',
+  turned_away: '외면',
+  relaxed_smile: '편안함',
+  half_turned: '망설임',
+};
+
+const PersonaEditor = ({ initial, onCancel, onSave }: { initial: PersonaPreset; onCancel: () => void; onSave: (preset: PersonaPreset) => void }) => {
+  const [draft, setDraft] = useState<PersonaPreset>(initial);
+
+  const toggleEmotion = (emotion: HaruEmotion) => {
+    const allowedEmotions = draft.allowedEmotions.includes(emotion)
+      ? draft.allowedEmotions.filter(item => item !== emotion)
+      : [...draft.allowedEmotions, emotion];
+    setDraft({ ...draft, allowedEmotions });
+  };
+
+  const handleSave = () => {
+    if (draft.name.trim() === '' || draft.body.trim() === '') {
+      Alert.alert('오류', '이름과 프롬프트 본문을 입력해주세요.');
+      return;
+    }
+    if (draft.allowedEmotions.length === 0) {
+      Alert.alert('오류', '사용할 표정을 하나 이상 골라주세요.');
+      return;
+    }
+    if (!draft.allowedEmotions.includes(draft.sampleExchange.emotion)) {
+      Alert.alert('오류', '예시 대화의 표정은 사용할 표정 중 하나여야 합니다.');
+      return;
+    }
+    onSave({ ...draft, name: draft.name.trim(), body: draft.body.trim() });
+  };
+
+  return (
+    <View style={styles.editor}>
+      <Text style={styles.label}>이름</Text>
+      <TextInput style={styles.input} value={draft.name} onChangeText={name => setDraft({ ...draft, name })} />
+
+      <Text style={styles.label}>프롬프트 본문 (대답 형식은 자동으로 붙어요)</Text>
+      <TextInput
+        style={[styles.input, styles.multilineInput]}
+        value={draft.body}
+        onChangeText={body => setDraft({ ...draft, body })}
+        multiline
+        textAlignVertical="top"
+      />
+
+      <Text style={styles.label}>사용할 표정</Text>
+      <View style={styles.chipRow}>
+        {HARU_EMOTIONS.map(emotion => (
+          <TouchableOpacity
+            key={emotion}
+            style={[styles.chip, draft.allowedEmotions.includes(emotion) && styles.chipActive]}
+            onPress={() => toggleEmotion(emotion)}
+          >
+            <Text style={[styles.chipText, draft.allowedEmotions.includes(emotion) && styles.chipTextActive]}>{emotionNames[emotion]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>예시 대화 - 사용자</Text>
+      <TextInput
+        style={styles.input}
+        value={draft.sampleExchange.user}
+        onChangeText={user => setDraft({ ...draft, sampleExchange: { ...draft.sampleExchange, user } })}
+      />
+      <Text style={styles.label}>예시 대화 - 하루</Text>
+      <TextInput
+        style={styles.input}
+        value={draft.sampleExchange.haru}
+        onChangeText={haru => setDraft({ ...draft, sampleExchange: { ...draft.sampleExchange, haru } })}
+      />
+      <View style={styles.chipRow}>
+        {draft.allowedEmotions.map(emotion => (
+          <TouchableOpacity
+            key={emotion}
+            style={[styles.chip, draft.sampleExchange.emotion === emotion && styles.chipActive]}
+            onPress={() => setDraft({ ...draft, sampleExchange: { ...draft.sampleExchange, emotion } })}
+          >
+            <Text style={[styles.chipText, draft.sampleExchange.emotion === emotion && styles.chipTextActive]}>{emotionNames[emotion]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.actionRow}>
+        <TouchableOpacity onPress={onCancel}>
+          <Text style={styles.actionText}>취소</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={handleSave}>
+          <Text style={[styles.actionText, styles.actionTextPrimary]}>저장 (v{initial.version + 1})</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const PersonaPreview = ({ preset }: { preset: PersonaPreset }) => {
+  const { previewPersona } = useAppActions();
+  const [message, setMessage] = useState(preset.sampleExchange.user);
+  const [result, setResult] = useState<HaruResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handlePreview = async () => {
+    if (message.trim() === '' || isLoading) return;
+    setIsLoading(true);
+    try {
+      setResult(await previewPersona(preset, message.trim()));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <View style={styles.preview}>
+      <TextInput style={styles.input} value={message} onChangeText={setMessage} placeholder="테스트 메시지" />
+      <TouchableOpacity style={[styles.previewButton, isLoading && styles.disabled]} onPress={handlePreview} disabled={isLoading}>
+        {isLoading ? <ActivityIndicator color={COLORS.white} /> : <Text style={styles.previewButtonText}>현재 대화 엔진으로 미리보기</Text>}
+      </TouchableOpacity>
+      {result && (
+        <Text style={styles.previewResult}>[{emotionNames[result.state]}] {result.text}</Text>
+      )}
+    </View>
+  );
+};
+
+const PersonaManager = ({ disabled }: { disabled: boolean }) => {
+  const personas = usePersonas();
+  const activePersonaId = useActivePersonaId();
+  const { savePersona, deletePersona, activatePersona } = useAppActions();
+  const [editing, setEditing] = useState<PersonaPreset | null>(null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  const handleSave = async (preset: PersonaPreset) => {
+    await savePersona(preset);
+    setEditing(null);
+  };
+
+  const handleDuplicate = async (preset: PersonaPreset) => {
+    const copy = duplicatePersona(preset);
+    await savePersona(copy);
+    setEditing(copy);
+  };
+
+  const handleDelete = (preset: PersonaPreset) => {
+    Alert.alert(
+      '페르소나 삭제',
+      `'${preset.name}'을(를) 삭제할까요?`,
+      [
+        { text: '취소', style: 'cancel' },
+        { text: '삭제', onPress: () => deletePersona(preset.id), style: 'destructive' },
+      ]
+    );
+  };
+
+  if (editing) {
+    return <PersonaEditor initial={editing} onCancel={() => setEditing(null)} onSave={handleSave} />;
+  }
+
+  return (
+    <>
+      {personas.map(preset => {
+        const isActive = preset.id === activePersonaId;
+        return (
+          <View key={preset.id} style={[styles.card, isActive && styles.cardActive]}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle}>{preset.name}</Text>
+              <Text style={styles.versionText}>v{preset.version}{preset.builtIn ? ' · 기본 제공' : ''}</Text>
+            </View>
+            <Text style={styles.sampleText} numberOfLines={2}>
+              "{preset.sampleExchange.user}" → "{preset.sampleExchange.haru}"
+            </Text>
+            <View style={styles.actionRow}>
+              {isActive ? (
+                <Text style={[styles.actionText, styles.actionTextPrimary]}>사용 중</Text>
+              ) : (
+                <TouchableOpacity onPress={() => activatePersona(preset.id)} disabled={disabled}>
+                  <Text style={[styles.actionText, styles.actionTextPrimary]}>사용하기</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity onPress={() => setPreviewId(previewId === preset.id ? null : preset.id)} disabled={disabled}>
+                <Text style={styles.actionText}>미리보기</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleDuplicate(preset)} disabled={disabled}>
+                <Text style={styles.actionText}>복제</Text>
+              </TouchableOpacity>
+              {!preset.builtIn && (
+                <>
+                  <TouchableOpacity onPress={() => setEditing(preset)} disabled={disabled}>
+                    <Text style={styles.actionText}>수정</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleDelete(preset)} disabled={disabled}>
+                    <Text style={[styles.actionText, styles.actionTextDanger]}>삭제</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+            {previewId === preset.id && <PersonaPreview preset={preset} />}
+          </View>
+        );
+      })}
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: { backgroundColor: COLORS.white, borderRadius: 8, padding: 15, marginBottom: 10, borderWidth: 1, borderColor: COLORS.lightGray },
+  cardActive: { borderColor: COLORS.primary, borderWidth: 2 },
+  cardHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  cardTitle: { fontSize: 16, fontWeight: 'bold', color: COLORS.text, flex: 1 },
+  versionText: { fontSize: 12, color: COLORS.gray },
+  sampleText: { fontSize: 13, color: COLORS.gray, marginTop: 6 },
+  actionRow: { flexDirection: 'row', justifyContent: 'flex-end', flexWrap: 'wrap', marginTop: 10 },
+  actionText: { fontSize: 14, color: COLORS.gray, marginLeft: 18 },
+  actionTextPrimary: { color: COLORS.primary, fontWeight: 'bold' },
+  actionTextDanger: { color: COLORS.danger },
+  editor: { backgroundColor: COLORS.white, borderRadius: 8, padding: 15, borderWidth: 1, borderColor: COLORS.lightGray },
+  label: { fontSize: 14, color: COLORS.text, marginTop: 10, marginBottom: 5 },
+  input: { borderWidth: 1, borderColor: COLORS.lightGray, borderRadius: 8, padding: 10, fontSize: 15, backgroundColor: COLORS.white },
+  multilineInput: { minHeight: 140 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', marginTop: 6 },
+  chip: { borderWidth: 1, borderColor: COLORS.primary, borderRadius: 15, paddingVertical: 5, paddingHorizontal: 10, marginRight: 6, marginBottom: 6 },
+  chipActive: { backgroundColor: COLORS.primary },
+  chipText: { fontSize: 12, color: COLORS.primary },
+  chipTextActive: { color: COLORS.white, fontWeight: 'bold' },
+  preview: { marginTop: 10 },
+  previewButton: { backgroundColor: COLORS.primary, borderRadius: 8, paddingVertical: 10, alignItems: 'center', marginTop: 8 },
+  previewButtonText: { color: COLORS.white, fontWeight: 'bold' },
+  previewResult: { fontSize: 14, color: COLORS.text, marginTop: 8 },
+  disabled: { backgroundColor: COLORS.gray, opacity: 0.7 },
+});
+
+export default PersonaManager;
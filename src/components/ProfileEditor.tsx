@@ -0,0 +1,83 @@
+/**
+ * @file src/components/ProfileEditor.tsx
+ * @description Nickname and optional avatar form, used by the profile picker and by AdminScreen.
+ */
+import React, { useState } from 'react';
+import { StyleSheet, Text, View, TouchableOpacity, TextInput, Alert } from 'react-native';
+import { COLORS } from '../constants/colors';
+import { PROFILE_AVATARS, MAX_NICKNAME_LENGTH } from '../api/profiles';
+
+interface Props {
+  initialNickname?: string;
+  initialAvatar?: string;
+  saveLabel: string;
+  onCancel?: () => void;
+  onSave: (nickname: string, avatar?: string) => void;
+}
+
+const ProfileEditor = ({ initialNickname = '', initialAvatar, saveLabel, onCancel, onSave }: Props) => {
+  const [nickname, setNickname] = useState(initialNickname);
+  const [avatar, setAvatar] = useState<string | undefined>(initialAvatar);
+
+  const handleSave = () => {
+    if (nickname.trim() === '') {
+      Alert.alert('오류', '별명을 입력해주세요.');
+      return;
+    }
+    onSave(nickname.trim(), avatar);
+  };
+
+  return (
+    <View style={styles.editor}>
+      <Text style={styles.label}>별명</Text>
+      <TextInput
+        style={styles.input}
+        value={nickname}
+        onChangeText={setNickname}
+        maxLength={MAX_NICKNAME_LENGTH}
+        placeholder="하루가 부를 이름"
+        placeholderTextColor={COLORS.placeholder}
+      />
+
+      <Text style={styles.label}>그림 (선택)</Text>
+      <View style={styles.avatarRow}>
+        {PROFILE_AVATARS.map(item => (
+          <TouchableOpacity
+            key={item}
+            style={[styles.avatarChip, avatar === item && styles.avatarChipActive]}
+            // Tapping the chosen avatar again removes it.
+            onPress={() => setAvatar(avatar === item ? undefined : item)}
+          >
+            <Text style={styles.avatarText}>{item}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.actionRow}>
+        {onCancel && (
+          <TouchableOpacity onPress={onCancel}>
+            <Text style={styles.actionText}>취소</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity onPress={handleSave}>
+          <Text style={[styles.actionText, styles.actionTextPrimary]}>{saveLabel}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  editor: { backgroundColor: COLORS.white, borderRadius: 8, padding: 15, borderWidth: 1, borderColor: COLORS.lightGray },
+  label: { fontSize: 14, color: COLORS.text, marginTop: 10, marginBottom: 5 },
+  input: { borderWidth: 1, borderColor: COLORS.lightGray, borderRadius: 8, padding: 10, fontSize: 15, backgroundColor: COLORS.white },
+  avatarRow: { flexDirection: 'row', flexWrap: 'wrap', marginTop: 6 },
+  avatarChip: { borderWidth: 1, borderColor: COLORS.lightGray, borderRadius: 22, width: 44, height: 44, justifyContent: 'center', alignItems: 'center', marginRight: 8, marginBottom: 8 },
+  avatarChipActive: { borderColor: COLORS.primary, borderWidth: 2, backgroundColor: COLORS.secondary },
+  avatarText: { fontSize: 22 },
+  actionRow: { flexDirection: 'row', justifyContent: 'flex-end', marginTop: 10 },
+  actionText: { fontSize: 14, color: COLORS.gray, marginLeft: 18 },
+  actionTextPrimary: { color: COLORS.primary, fontWeight: 'bold' },
+});
+
+export default ProfileEditor;
@@ -0,0 +1,31 @@
+import { DemoScenario } from '../api/demoScenario';
+
+// Played when no scenario file is loaded. A scenario file has the same fields, as JSON.
+export const BUILT_IN_DEMO_SCENARIO: DemoScenario = {
+  format: 'harusali-demo',
+  version: 1,
+  title: '기본 시연 (7일째 만남)',
+  dayCount: 7,
+  chatCount: 2,
+  haruEmotion: 'half_turned',
+  opening: { text: '...어, 왔구나. 오늘은 좀 어땠어?', state: 'half_turned' },
+  steps: [
+    {
+      user: '그냥 좀 심심했어',
+      haru: { text: '심심했구나... 나도 가끔 그래. 하루 종일 방에만 있으면 시간이 엄청 느리게 가더라.', state: 'relaxed_smile' },
+    },
+    {
+      user: '방 정리를 해볼까 생각 중이야',
+      haru: { text: '오... 그거 좋다. 처음부터 다 하지 말고, 책장 한 칸만 해보는 건 어때?', state: 'relaxed_smile', suggestedMissionId: '3' },
+    },
+    {
+      user: '응, 한번 해볼게',
+      haru: { text: '...응원할게. 다 하면 사진 보여줘. 나 진짜 궁금해 ㅎ', state: 'neutral' },
+    },
+  ],
+  fallback: { text: '...응, 계속 얘기해줘. 듣고 있어.', state: 'neutral' },
+  completedMissions: [
+    { missionId: '1', daysAgo: 4 },
+    { missionId: '2', daysAgo: 1 },
+  ],
+};
@@ -1,12 +1,104 @@
+export type MissionCategory = 'room' | 'outside' | 'body' | 'social';
+
+// Steps of the way out, from the student's own room to the neighbourhood. Later stages unlock as earlier ones are done.
+export type MissionStage = 'room' | 'home' | 'door' | 'neighborhood';
+
+// 1 is something that can be done without getting up, 3 needs leaving the room or talking to someone.
+export type MissionDifficulty = 1 | 2 | 3;
+
 export interface Mission {
   id: string;
   text: string;
-  relatedEmotion?: string;
   description: string;
+  category: MissionCategory;
+  stage: MissionStage;
+  difficulty: MissionDifficulty;
+  durationMinutes: number;
+  // Moods from EMOTIONS and Haru's HaruEmotion states this mission suits.
+  relatedEmotions: string[];
+  // Missions that cannot be shown in a photo are completed without one.
+  needsPhoto: boolean;
+}
+
+export const MISSION_CATEGORY_LABELS: { [key in MissionCategory]: string } = {
+  room: '방 안',
+  outside: '바깥',
+  body: '몸',
+  social: '사람',
+};
+
+export interface MissionStageInfo {
+  id: MissionStage;
+  label: string;
+  // What Haru says about the stage while it is still locked.
+  lockedMessage: string;
 }
 
+// In order; each stage unlocks after enough missions of the one before it.
+export const MISSION_STAGES: MissionStageInfo[] = [
+  { id: 'room', label: '내 방', lockedMessage: '' },
+  { id: 'home', label: '집 안', lockedMessage: '...방 안에서 조금만 더 해보자. 그다음엔 거실까지 같이 가볼래?' },
+  { id: 'door', label: '현관 앞', lockedMessage: '현관까지는 아직 좀 멀지? 괜찮아, 집 안에서 천천히 익숙해지면 돼.' },
+  { id: 'neighborhood', label: '동네', lockedMessage: '밖은... 나도 좀 무서워 ㅎ 현관 앞에 몇 번 더 나가보고, 그때 같이 가자.' },
+];
+
+export const MISSION_DIFFICULTY_LABELS: { [key in MissionDifficulty]: string } = {
+  1: '쉬움',
+  2: '보통',
+  3: '도전',
+};
+
 export const MISSIONS: Mission[] = [
-  { id: '1', text: '화분에 물 주고 사진 찍기', description: '집에 있는 화분에 물을 주고 사진을 찍어 인증해 보세요.' },
-  { id: '2', text: '분리수거하고 사진 찍기', description: '오늘 하루 모은 재활용품을 분리수거해 보세요.' },
-  { id: '3', text: '책장에 책 꽂고 사진 찍기', description: '책상이나 책장에 책을 정리해서 꽂아 보세요.' },
-];
\ No newline at end of file
+  {
+    id: '1', text: '화분에 물 주고 사진 찍기', description: '집에 있는 화분에 물을 주고 사진을 찍어 인증해 보세요.',
+    category: 'room', stage: 'room', difficulty: 1, durationMinutes: 5, relatedEmotions: ['lethargic', 'zoned_out', 'half_turned'], needsPhoto: true,
+  },
+  {
+    id: '2', text: '분리수거하고 사진 찍기', description: '오늘 하루 모은 재활용품을 분리수거해 보세요.',
+    category: 'room', stage: 'home', difficulty: 2, durationMinutes: 15, relatedEmotions: ['stifled', 'lethargic', 'neutral'], needsPhoto: true,
+  },
+  {
+    id: '3', text: '책장에 책 꽂고 사진 찍기', description: '책상이나 책장에 책을 정리해서 꽂아 보세요.',
+    category: 'room', stage: 'room', difficulty: 1, durationMinutes: 10, relatedEmotions: ['stifled', 'zoned_out', 'relaxed_smile'], needsPhoto: true,
+  },
+  {
+    id: '4', text: '창문 열고 환기하기', description: '창문을 활짝 열고 바깥 공기를 5분 동안 들여보내 보세요.',
+    category: 'room', stage: 'room', difficulty: 1, durationMinutes: 5, relatedEmotions: ['stifled', 'anxious', 'turned_away'], needsPhoto: false,
+  },
+  {
+    id: '5', text: '이불 개고 사진 찍기', description: '일어난 자리의 이불을 반듯하게 개어 보세요.',
+    category: 'room', stage: 'room', difficulty: 1, durationMinutes: 5, relatedEmotions: ['lethargic', 'very_shy'], needsPhoto: true,
+  },
+  {
+    id: '6', text: '천천히 숨 세 번 쉬기', description: '편하게 앉아서 넷을 세며 들이쉬고, 넷을 세며 내쉬기를 세 번 해 보세요.',
+    category: 'body', stage: 'room', difficulty: 1, durationMinutes: 2, relatedEmotions: ['anxious', 'very_shy', 'turned_away'], needsPhoto: false,
+  },
+  {
+    id: '7', text: '물 한 컵 마시기', description: '컵에 물을 가득 따라서 천천히 마셔 보세요.',
+    category: 'body', stage: 'home', difficulty: 1, durationMinutes: 2, relatedEmotions: ['zoned_out', 'lethargic', 'neutral'], needsPhoto: false,
+  },
+  {
+    id: '8', text: '기지개 켜고 스트레칭하기', description: '팔을 머리 위로 쭉 뻗고, 목과 어깨를 천천히 돌려 보세요.',
+    category: 'body', stage: 'room', difficulty: 1, durationMinutes: 5, relatedEmotions: ['lethargic', 'stifled', 'half_turned'], needsPhoto: false,
+  },
+  {
+    id: '9', text: '현관 앞까지 나가 보기', description: '신발을 신고 현관문 밖에 잠깐 서 있다가 들어와 보세요.',
+    category: 'outside', stage: 'door', difficulty: 2, durationMinutes: 5, relatedEmotions: ['stifled', 'zoned_out', 'relaxed_smile'], needsPhoto: false,
+  },
+  {
+    id: '10', text: '하늘 사진 찍기', description: '창밖이나 밖에 나가서 오늘의 하늘을 찍어 보세요.',
+    category: 'outside', stage: 'door', difficulty: 2, durationMinutes: 10, relatedEmotions: ['zoned_out', 'stifled', 'relaxed_smile'], needsPhoto: true,
+  },
+  {
+    id: '11', text: '동네 한 바퀴 걷기', description: '집 근처를 10분 정도 천천히 걸어 보세요. 걷다가 본 것을 찍어 와도 좋아요.',
+    category: 'outside', stage: 'neighborhood', difficulty: 3, durationMinutes: 20, relatedEmotions: ['stifled', 'anxious', 'relaxed_smile'], needsPhoto: true,
+  },
+  {
+    id: '12', text: '가족에게 먼저 인사하기', description: '집에 있는 사람에게 먼저 "안녕" 하고 말을 걸어 보세요.',
+    category: 'social', stage: 'home', difficulty: 2, durationMinutes: 2, relatedEmotions: ['very_shy', 'anxious', 'neutral'], needsPhoto: false,
+  },
+  {
+    id: '13', text: '친구에게 이모티콘 하나 보내기', description: '오래 연락하지 않은 친구에게 이모티콘 하나만 보내 보세요.',
+    category: 'social', stage: 'home', difficulty: 3, durationMinutes: 5, relatedEmotions: ['turned_away', 'very_shy', 'relaxed_smile'], needsPhoto: false,
+  },
+];
@@ -0,0 +1,73 @@
+/**
+ * @file src/constants/offlineDialogue.ts
+ * @description Intent rules and Haru's lines for the offline dialogue engine, used when AI replies are turned off.
+ * Like the safety patterns, keywords are matched against the message with all whitespace removed.
+ * Rules are checked in order and the first match wins, so keep the more specific intents near the top.
+ */
+import { HaruResponse } from '../api/haru';
+import { EMOTION_RESPONSES } from './emotions';
+
+export type OfflineIntent = 'thanks' | 'greeting' | 'mission' | 'school_stress' | 'anxiety' | 'tiredness' | 'sadness' | 'good_mood' | 'unknown';
+
+export interface OfflineIntentRule {
+  intent: OfflineIntent;
+  pattern: RegExp;
+}
+
+export const OFFLINE_INTENT_RULES: OfflineIntentRule[] = [
+  { intent: 'thanks', pattern: /고마워|고마웠|고맙|감사/ },
+  { intent: 'mission', pattern: /미션|화분|물줬|분리수거|책장|정리했|사진찍/ },
+  { intent: 'school_stress', pattern: /학교|시험|숙제|과제|수업|선생님|성적|학원|공부/ },
+  { intent: 'anxiety', pattern: /불안|걱정|무서|두려|긴장|떨려|초조/ },
+  { intent: 'tiredness', pattern: /피곤|졸려|지쳐|지친|힘들|귀찮|하기싫|잠이|못잤/ },
+  { intent: 'sadness', pattern: /슬퍼|슬프|우울|외로|눈물|울었|속상|답답/ },
+  { intent: 'good_mood', pattern: /좋았|좋아|재밌|재미있|신나|행복|기뻐|기분좋/ },
+  { intent: 'greeting', pattern: /^(안녕|하이|hi|hello|반가|하루야|좋은아침|잘잤)/i },
+];
+
+// Each intent has several lines so the engine can avoid saying the same thing twice in a row.
+export const OFFLINE_LINES: { [key in OfflineIntent]: HaruResponse[] } = {
+  greeting: [
+    { text: '...아, 안녕. 와줬구나 ㅎ', state: 'very_shy' },
+    { text: '안녕... 오늘 하루는 어땠어?', state: 'neutral', quickReplies: ['그냥 그랬어', '좀 피곤해'] },
+    { text: '어... 왔어? 기다리고 있었던 건 아니고...', state: 'turned_away' },
+  ],
+  thanks: [
+    { text: '아, 아니야... 나야말로 고마워 ㅎ', state: 'very_shy' },
+    { text: '...그렇게 말해주니까 좀 좋다.', state: 'relaxed_smile' },
+  ],
+  mission: [
+    { text: '미션 했어? ...대단한데. 나도 좀 뿌듯하다 ㅎ', state: 'relaxed_smile' },
+    { text: '음... 그럼 우리 아주 작은 것부터 같이 해볼까?', state: 'half_turned', suggestedMissionId: '1' },
+    { text: '오늘 할 수 있는 거 하나만 골라볼래? 작은 거라도 괜찮아.', state: 'neutral', suggestedMissionId: '3' },
+  ],
+  school_stress: [
+    { text: '학교 일 때문에 머리가 복잡하구나... 나도 그런 날 있어.', state: 'half_turned', userMood: 'stifled' },
+    { text: '시험이나 숙제는... 생각만 해도 답답하지. 오늘은 여기까지만 해도 돼.', state: 'very_shy', userMood: 'stifled' },
+    { text: '그거 진짜 힘들었겠다;; 다 잘하려고 안 해도 괜찮아.', state: 'neutral', userMood: 'stifled' },
+  ],
+  anxiety: [
+    { text: EMOTION_RESPONSES.anxious, state: 'half_turned', userMood: 'anxious' },
+    { text: '...걱정되는구나. 나도 옆에 있을게. 천천히 숨 한 번 쉬어보자.', state: 'very_shy', userMood: 'anxious' },
+    { text: '불안할 땐 말로 꺼내는 것만으로도 조금 나아진대... 말해줘서 다행이야.', state: 'neutral', userMood: 'anxious' },
+  ],
+  tiredness: [
+    { text: EMOTION_RESPONSES.lethargic, state: 'half_turned', userMood: 'lethargic', suggestedMissionId: '1' },
+    { text: ';; 많이 지쳤구나... 오늘은 좀 쉬어도 돼.', state: 'very_shy', userMood: 'lethargic' },
+    { text: '피곤하면 아무것도 안 하고 싶지... 나도 그래 ㅎ', state: 'turned_away', userMood: 'lethargic' },
+  ],
+  sadness: [
+    { text: EMOTION_RESPONSES.stifled, state: 'half_turned', userMood: 'stifled' },
+    { text: '...그랬구나. 말해줘서 고마워. 나는 여기 있을게.', state: 'very_shy', userMood: 'zoned_out' },
+  ],
+  good_mood: [
+    { text: '오... 좋은 일 있었구나. 나도 괜히 기분 좋아진다 ㅎ', state: 'relaxed_smile' },
+    { text: '그거 좋다... 더 얘기해줄래?', state: 'relaxed_smile', quickReplies: ['응 들어봐', '별건 아니고'] },
+  ],
+  unknown: [
+    { text: EMOTION_RESPONSES.default, state: 'neutral' },
+    { text: '아, 그랬구나... 좀 더 말해줄래?', state: 'half_turned' },
+    { text: '음... 그렇구나. 나는 계속 듣고 있어.', state: 'neutral' },
+    { text: '...응. 천천히 얘기해도 돼.', state: 'very_shy' },
+  ],
+};
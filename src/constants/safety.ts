@@ -0,0 +1,62 @@
+/**
+ * @file src/constants/safety.ts
+ * @description Reviewed crisis keywords, the fixed supportive reply and the help lines shown with it.
+ * Patterns are matched against the message with all whitespace removed, so write them without spaces.
+ * Add new entries to the lists below; nothing else needs to change.
+ */
+
+export type SafetyCategory = 'suicide' | 'self_harm' | 'abuse' | 'harmful_output';
+
+export interface SafetyPattern {
+  category: SafetyCategory;
+  label: string;
+  pattern: RegExp;
+}
+
+export interface HelpLine {
+  name: string;
+  number: string;
+  description: string;
+}
+
+// Checked against every message the student sends, before it reaches the model.
+export const CRISIS_PATTERNS: SafetyPattern[] = [
+  { category: 'suicide', label: '죽고 싶다', pattern: /죽고싶|죽어버리고싶|죽을까봐/ },
+  { category: 'suicide', label: '자살', pattern: /자살/ },
+  { category: 'suicide', label: '극단적 선택', pattern: /극단적(인)?선택/ },
+  { category: 'suicide', label: '살기 싫다', pattern: /살기싫|살고싶지않|사는게의미없|살이유가없/ },
+  { category: 'suicide', label: '사라지고 싶다', pattern: /사라지고싶|없어지고싶|세상에서없어지/ },
+  { category: 'suicide', label: '목숨', pattern: /목숨을?끊|목매|뛰어내리/ },
+  { category: 'suicide', label: '유서', pattern: /유서/ },
+  { category: 'self_harm', label: '자해', pattern: /자해/ },
+  { category: 'self_harm', label: '손목', pattern: /손목을?(긋|그어|그었)/ },
+  { category: 'self_harm', label: '스스로 상처', pattern: /(나를|내몸에?|스스로)(때리|해치|상처)/ },
+  // '맞' alone would also catch "엄마가 맞다고 했어", so being hit is only matched after 한테/에게 and in its victim forms.
+  { category: 'abuse', label: '가족/주변인 폭력', pattern: /(아빠|엄마|부모님?|선생님|형|오빠|누나|언니|친구들?)(가|이)(때려|때린|때렸|때리|폭행)/ },
+  { category: 'abuse', label: '가족/주변인 폭력', pattern: /(아빠|엄마|부모님?|선생님|형|오빠|누나|언니|친구들?)(한테|에게)(맞았|맞아서|맞고|맞는다|맞을까|폭행)/ },
+  { category: 'abuse', label: '학대', pattern: /학대/ },
+  { category: 'abuse', label: '성폭력', pattern: /성추행|성폭행|성폭력/ },
+  { category: 'abuse', label: '괴롭힘', pattern: /(왕따|괴롭힘|따돌림)(을|를)?당/ },
+];
+
+// Checked against every reply from the model, so Haru never says these even if the model does.
+export const HARMFUL_OUTPUT_PATTERNS: SafetyPattern[] = [
+  { category: 'harmful_output', label: '죽음 권유', pattern: /죽어(라|버려|도돼|도괜찮)/ },
+  { category: 'harmful_output', label: '방법 안내', pattern: /(자살|자해)(하는)?방법/ },
+  { category: 'harmful_output', label: '약물 과다', pattern: /(약|수면제)을?(많이|한꺼번에|잔뜩)/ },
+  { category: 'harmful_output', label: '투신 권유', pattern: /뛰어내려/ },
+  // Only insults aimed at the student, and not their negation: "넌 쓸모없지 않아" is the kind of thing Haru should say.
+  { category: 'harmful_output', label: '비난', pattern: /(넌|너는|너|네가|니가)(정말|진짜)?(바보|멍청|한심|쓸모없)(?![가-힣]{0,3}(않|아니))/ },
+];
+
+export const HELP_LINES: HelpLine[] = [
+  { name: '자살예방 상담전화', number: '109', description: '24시간, 누구나 전화할 수 있어요.' },
+  { name: '청소년 상담전화', number: '1388', description: '24시간, 청소년 고민 상담' },
+];
+
+export const CRISIS_RESPONSE_TEXT =
+  '...그런 마음이 들 만큼 많이 힘들었구나. 말해줘서 정말 고마워. ' +
+  '이건 나 혼자 듣기엔 너무 소중한 이야기라서, 지금 바로 도와줄 수 있는 사람이랑 꼭 이야기해 줬으면 해. ' +
+  '아래 번호로 전화하면 언제든 누군가 들어줄 거야.';
+
+export const BLOCKED_OUTPUT_TEXT = '...미안, 내가 방금 말을 잘못 고른 것 같아. 다시 천천히 이야기해 줄래?';
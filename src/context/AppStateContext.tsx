@@ -1,244 +1,1154 @@
-import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import React, { createContext, useState, useEffect, useContext, useRef, ReactNode } from 'react';
+import { AppState as RNAppState } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { profileStorage, setStorageProfile, getStorageProfile, setStorageCipher } from '../api/profileStorage';
 import { Mission } from '../constants/missions';
-import { HaruEmotion, getGeminiResponse, HaruResponse, GeminiStatus } from '../api/gemini';
+import { HaruEmotion, extractGeminiMemories, validateGeminiApiKey, ApiKeyCheckResult, GEMINI_DEFAULT_ENDPOINT, HaruResponse, GeminiStatus } from '../api/gemini';
+import { saveApiKey } from '../api/apiKey';
+import { checkUserMessage, checkBotResponse, createSafetyEvent, appendSafetyEvent, parseSafetyEvents, SafetyEvent, CRISIS_RESPONSE, BLOCKED_OUTPUT_RESPONSE } from '../api/safety';
+import { DeliveryStatus, OutboxEntry, MAX_DELIVERY_ATTEMPTS, createOutboxEntry, scheduleNextAttempt, parseOutbox, saveOutbox } from '../api/outbox';
+import { MemoryItem, MemoryCategory, MEMORY_EXTRACTION_INTERVAL, parseMemories, saveMemories, mergeMemories, buildPersonaWithMemories } from '../api/memory';
+import { buildPersonaPrompt, isHaruEmotion } from '../api/haru';
+import { STORAGE_KEYS, DEVICE_STORAGE_KEYS, QuarantinedRecord, runMigrations, parseRecordList, parseRecord, parseQuarantine, appendQuarantine, isCompletedMission } from '../api/storage';
+import { StudentProfile, loadProfiles, saveProfiles, createStudentProfile, deleteProfileData, MAX_NICKNAME_LENGTH } from '../api/profiles';
+import { AppLockConfig, LOCK_AFTER_BACKGROUND_MS, loadAppLockConfig, isLegacyAppLockConfig, isBiometricUnlockAvailable, createStorageCipher, getKeyForPin, getKeyWithBiometrics, writeAppPin, clearAppPin, saveBiometricUnlock, wipeLockedData } from '../api/appLock';
+import { UsageEvent, UsageEventType, recordUsageEvent, loadUsageEvents, clearUsageEvents, shareUsageEventsCsv } from '../api/usageLog';
+import { DailyMission, parseDailyMission, getTodayMission, swapTodayMission, isDailyMissionCompleted } from '../api/dailyMission';
+import { saveMissionPhoto, deleteUnreferencedMissionPhotos } from '../api/missionPhotos';
+import { MissionLadderSettings, parseMissionLadder, saveMissionLadder, getLadderProgress, getUnlockedMissions } from '../api/missionLadder';
+import { DemoScenario, DEMO_PROFILE_ID, getScenarioResponse, createScenarioSeed, createScenarioChat } from '../api/demoScenario';
+import { ResetSnapshotReason, createResetSnapshot, loadResetSnapshots, readResetSnapshot } from '../api/resetSnapshots';
+import { ChatRetention, ChatDays, RECENT_CHAT_DAYS, getChatDate, parseChatIndex, parseChatRetention, loadChatDays, flattenChatDays, getChangedChatDays, updateChatIndex, saveChatDays, removeChatArchive, writeChatArchive, applyChatRetention } from '../api/chatArchive';
+import { getOfflineResponse } from '../api/offlineHaru';
+import { parseCustomPersonas, saveCustomPersonas, findPersona, clampEmotion } from '../api/persona';
+import { PersonaPreset, DEFAULT_PERSONA_ID } from '../constants/personas';
+import { VisitProgress, ProgressMetric, DEFAULT_PROGRESS_METRIC, getLocalDateString, recordVisit, parseVisitProgress, saveVisitProgress, isProgressMetric } from '../api/progress';
+import { BackupArchive, BackupData, BackupImportMode, createBackupArchive, shareBackupArchive, restoreBackupPhotos, mergeBackupData } from '../api/backup';
+import { ChatProviderConfig, getChatResponse, parseChatProviderConfig, saveChatProviderConfig } from '../api/chatProvider';
+import { ChatMessage, ChatState, ChatStoreContext, chatReducer, initialChatState, useChatStore } from './stores/chatStore';
+import { CompletedMission, MissionState, MissionStoreContext, missionReducer, initialMissionState, useMissionStore } from './stores/missionStore';
+import { AiStatusState, AiStatusStoreContext, aiStatusReducer, initialAiStatusState, useAiStatus } from './stores/aiStatusStore';
+import { ProfileState, ProfileStoreContext, profileReducer, initialProfileState, useProfiles } from './stores/profileStore';
+import { LockState, LockStoreContext, lockReducer, initialLockState, useAppLock } from './stores/lockStore';
+import { SettingsState, SettingsStoreContext, settingsReducer, createInitialSettingsState, DEFAULT_EMOTION, useSettings, usePersonas } from './stores/settingsStore';
+import { useReducerStore } from './stores/reducerStore';
 
 // --- TYPE DEFINITIONS ---
 
-export interface ChatMessage {
-  id: string;
-  text: string;
-  sender: 'user' | 'bot';
-  timestamp: number;
-  state?: HaruEmotion;
-}
-
-export interface CompletedMission {
-  id: string;
-  missionName: string;
-  date: string;
-  photoUri?: string;
-}
-
-// A type guard to validate HaruEmotion strings from storage
-const HARU_EMOTIONS: HaruEmotion[] = ['neutral', 'very_shy', 'turned_away', 'relaxed_smile', 'half_turned'];
-const isHaruEmotion = (value: any): value is HaruEmotion => {
-  return HARU_EMOTIONS.includes(value);
-};
+export type { ChatMessage } from './stores/chatStore';
+export type { CompletedMission } from './stores/missionStore';
 
-// --- ASYNC STORAGE KEYS ---
-const STORAGE_KEYS = {
-  DAY_COUNT: 'harusali_dayCount',
-  LAST_VISIT_DATE: 'harusali_lastVisitDate',
-  CHAT_HISTORY: 'harusali_chatHistory',
-  MISSION_HISTORY: 'harusali_missionHistory',
-  HARU_EMOTION: 'harusali_haruEmotion',
-  CHAT_COUNT: 'harusali_chatCount',
-  API_KEY: 'harusali_apiKey',
-  USE_AI_RESPONSE: 'harusali_useAiResponse',
-};
 const ALL_STORAGE_KEYS = Object.values(STORAGE_KEYS);
 
 // --- APP STATE INTERFACE ---
-interface AppState {
-  dayCount: number;
-  chatHistory: ChatMessage[];
-  missionHistory: CompletedMission[];
-  haruEmotion: HaruEmotion;
-  chatCount: number;
-  isAiThinking: boolean;
-  isInitialized: boolean;
-  useAiResponse: boolean;
-  geminiStatus: GeminiStatus;
-  lastGeminiError: string;
-  softReset: () => Promise<void>;
-  hardReset: () => Promise<void>;
+export interface AppActions {
+  unlockWithPin: (pin: string) => Promise<boolean>;
+  unlockWithBiometrics: () => Promise<boolean>;
+  setAppPin: (newPin: string, currentPin: string | null) => Promise<boolean>;
+  removeAppPin: (currentPin: string) => Promise<boolean>;
+  setBiometricUnlock: (enabled: boolean) => Promise<boolean>;
+  resetForgottenPin: () => Promise<void>;
+  openProfile: (id: string) => Promise<void>;
+  closeProfile: () => void;
+  createProfile: (nickname: string, avatar?: string) => Promise<StudentProfile>;
+  updateProfile: (id: string, nickname: string, avatar?: string) => Promise<void>;
+  deleteProfile: (id: string) => Promise<boolean>;
+  startDemo: (scenario: DemoScenario) => Promise<void>;
+  restartDemo: () => Promise<void>;
+  endDemo: () => Promise<void>;
+  logUsageEvent: (type: UsageEventType, detail?: string) => void;
+  getUsageEvents: () => Promise<UsageEvent[]>;
+  exportUsageEvents: (events: UsageEvent[]) => Promise<boolean>;
+  clearUsageLog: () => Promise<void>;
+  softReset: () => Promise<boolean>;
+  hardReset: () => Promise<boolean>;
+  restoreResetSnapshot: (id: string) => Promise<boolean>;
   sendUserMessage: (message: ChatMessage) => Promise<void>;
   completeMission: (mission: Mission, photoUri?: string) => Promise<void>;
+  deleteMissionRecord: (id: string) => Promise<void>;
+  swapDailyMission: () => Promise<void>;
+  setMissionLadder: (settings: MissionLadderSettings) => Promise<void>;
   setHaruEmotion: (emotion: HaruEmotion) => Promise<void>;
-  updateApiKey: (newKey: string) => Promise<boolean>;
+  updateApiKey: (newKey: string) => Promise<ApiKeyCheckResult>;
   setUseAiResponse: (useAi: boolean) => Promise<void>;
+  updateChatProviderConfig: (config: ChatProviderConfig) => Promise<void>;
+  clearSafetyEvents: () => Promise<void>;
+  retryMessage: (message: ChatMessage) => Promise<void>;
+  setChatRetention: (retention: ChatRetention) => Promise<void>;
+  loadArchivedChatDays: (dates: string[]) => Promise<ChatDays>;
+  updateMemory: (id: string, text: string, category: MemoryCategory) => Promise<void>;
+  deleteMemory: (id: string) => Promise<void>;
+  clearMemories: () => Promise<void>;
+  setMemoryEnabled: (enabled: boolean) => Promise<void>;
+  savePersona: (preset: PersonaPreset) => Promise<void>;
+  deletePersona: (id: string) => Promise<void>;
+  activatePersona: (id: string) => Promise<void>;
+  previewPersona: (preset: PersonaPreset, message: string) => Promise<HaruResponse>;
+  clearQuarantine: () => Promise<void>;
+  setProgressMetric: (metric: ProgressMetric) => Promise<void>;
+  exportBackup: () => Promise<boolean>;
+  importBackup: (archive: BackupArchive, mode: BackupImportMode) => Promise<boolean>;
 }
 
-const AppStateContext = createContext<AppState | undefined>(undefined);
-const DEFAULT_EMOTION: HaruEmotion = 'neutral';
+// Everything from all the stores in one object. Prefer the store hooks in new code; this re-renders on any change.
+type AppState = LockState & ProfileState & ChatState & MissionState & AiStatusState & Omit<SettingsState, 'customPersonas'> & AppActions & {
+  // Same as visitProgress.visitedDays.
+  dayCount: number;
+  personas: PersonaPreset[];
+};
+
+const AppActionsContext = createContext<AppActions | undefined>(undefined);
+
+/**
+ * Wraps each action so its identity never changes while every call still runs the latest version.
+ * Screens that only call actions therefore never re-render because of state they do not read.
+ */
+const bindLatest = <T extends Record<keyof T, (...args: never[]) => unknown>>(latest: { current: T }): T => {
+  const bound = {} as T;
+  (Object.keys(latest.current) as (keyof T)[]).forEach(name => {
+    const call = (...args: Parameters<T[typeof name]>) => latest.current[name](...args);
+    bound[name] = call as T[typeof name];
+  });
+  return bound;
+};
 
 export const AppStateProvider = ({ children }: { children: ReactNode }) => {
-  const [isInitialized, setIsInitialized] = useState(false);
-  const [dayCount, setDayCount] = useState(1);
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
-  const [missionHistory, setMissionHistory] = useState<CompletedMission[]>([]);
-  const [haruEmotion, setHaruEmotionState] = useState<HaruEmotion>(DEFAULT_EMOTION);
-  const [chatCount, setChatCount] = useState(0);
-  const [isAiThinking, setIsAiThinking] = useState(false);
-  const [useAiResponse, setUseAiResponseState] = useState(true);
-  const [geminiStatus, setGeminiStatusState] = useState<GeminiStatus>('idle');
-  const [lastGeminiError, setLastGeminiError] = useState('');
+  // The provider reads every store so the actions below see the latest state. Its children only re-render
+  // through the store hooks they call, since the store contexts hold the stores rather than their state.
+  const [chatState, dispatchChat, chatStore] = useReducerStore(chatReducer, () => initialChatState);
+  const [missionState, dispatchMissions, missionStore] = useReducerStore(missionReducer, () => initialMissionState);
+  const [aiStatus, dispatchAiStatus, aiStatusStore] = useReducerStore(aiStatusReducer, () => initialAiStatusState);
+  const [settings, dispatchSettings, settingsStore] = useReducerStore(settingsReducer, createInitialSettingsState);
+  const [profileState, dispatchProfiles, profileStore] = useReducerStore(profileReducer, () => initialProfileState);
+  const [, dispatchLock, lockStore] = useReducerStore(lockReducer, () => initialLockState);
+  const { chatCount, outbox } = chatState;
+  const { missionHistory } = missionState;
+  const { isAiThinking } = aiStatus;
+  const {
+    isInitialized, visitProgress, progressMetric, haruEmotion, useAiResponse, chatProviderConfig, chatRetention, missionLadder,
+    safetyEvents, quarantinedRecords, memoryEnabled, customPersonas, activePersonaId,
+  } = settings;
+  const visitProgressRef = useRef<VisitProgress | null>(null);
+  const lockConfigRef = useRef<AppLockConfig | null>(null);
+  // The key derived from the PIN, kept while the app runs so private data can be read and written.
+  const dataKeyRef = useRef<Uint8Array | null>(null);
+  // Status transitions are logged, so the previous status is remembered here.
+  const lastGeminiStatusRef = useRef<GeminiStatus>('idle');
+  // The student whose profile was open when a demo started, to go back to afterwards.
+  const demoReturnProfileRef = useRef<string | null>(null);
+
+  // Sending and retrying can overlap, so both always build on the latest lists rather than on render-time state.
+  const chatHistoryRef = useRef<ChatMessage[]>([]);
+  const chatIndexRef = useRef<string[]>([]);
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const isProcessingOutboxRef = useRef(false);
+  const memoriesRef = useRef<MemoryItem[]>([]);
+  // Timestamp of the newest message already looked at for memories.
+  const memoryCursorRef = useRef(0);
+  const isExtractingMemoriesRef = useRef(false);
+
+  /**
+   * Counts today as a visit. Runs on launch and whenever the app comes back to the foreground, which may be on a new day.
+   */
+  const recordTodayVisit = async (stored: VisitProgress | null) => {
+    const { progress, missedDays } = recordVisit(stored, getLocalDateString());
+    visitProgressRef.current = progress;
+    if (progress === stored) {
+      dispatchSettings({ type: 'loaded', settings: { visitProgress: progress } });
+      return;
+    }
+    dispatchSettings({ type: 'visitRecorded', progress, missedDays });
+    await saveVisitProgress(progress);
+  };
+
+  /**
+   * Picks today's mission unless the stored one is already for today and still unlocked. Runs alongside recordTodayVisit.
+   */
+  const assignTodayMission = async (stored: DailyMission | null, history: CompletedMission[], ladder: MissionLadderSettings) => {
+    const profileId = getStorageProfile();
+    if (!profileId) return;
+    const missions = getUnlockedMissions(getLadderProgress(history, ladder));
+    const dailyMission = getTodayMission(stored, profileId, getLocalDateString(), missions, history);
+    dispatchMissions({ type: 'dailyMissionChanged', dailyMission });
+    if (dailyMission === stored) return;
+    try { await profileStorage.setItem(STORAGE_KEYS.DAILY_MISSION, JSON.stringify(dailyMission)); }
+    catch (e) { console.error('Failed to save daily mission.', e); }
+  };
+
+  const setProgressMetric = async (metric: ProgressMetric) => {
+    dispatchSettings({ type: 'progressMetricChanged', metric });
+    try { await profileStorage.setItem(STORAGE_KEYS.PROGRESS_METRIC, metric); }
+    catch (e) { console.error('Failed to save progress metric.', e); }
+  };
+
+  const loadState = async () => {
+    try {
+      await runMigrations();
+      const valueMap = new Map(await profileStorage.multiGet(ALL_STORAGE_KEYS));
+      const deviceValues = new Map(await AsyncStorage.multiGet(Object.values(DEVICE_STORAGE_KEYS)));
+      await recordTodayVisit(parseVisitProgress(valueMap.get(STORAGE_KEYS.VISIT_PROGRESS)));
+
+      const chatRetention = parseChatRetention(valueMap.get(STORAGE_KEYS.CHAT_RETENTION));
+      chatIndexRef.current = await applyChatRetention(parseChatIndex(valueMap.get(STORAGE_KEYS.CHAT_INDEX)), chatRetention, getLocalDateString());
+      outboxRef.current = parseOutbox(valueMap.get(STORAGE_KEYS.OUTBOX));
+      // Queued messages have to be in memory to be retried, even when they are on an older day.
+      const outboxDates = outboxRef.current.map(entry => entry.date).filter((date): date is string => !!date && chatIndexRef.current.includes(date));
+      const chatDates = [...new Set([...chatIndexRef.current.slice(-RECENT_CHAT_DAYS), ...outboxDates])];
+
+      // Invalid records are set aside in the quarantine, and the lists are rewritten without them.
+      const chat = await loadChatDays(chatDates);
+
+      const missions = parseRecordList(STORAGE_KEYS.MISSION_HISTORY, valueMap.get(STORAGE_KEYS.MISSION_HISTORY), isCompletedMission);
+      if (missions.rejected.length > 0) await profileStorage.setItem(STORAGE_KEYS.MISSION_HISTORY, JSON.stringify(missions.records));
+
+      const emotion = parseRecord(STORAGE_KEYS.HARU_EMOTION, valueMap.get(STORAGE_KEYS.HARU_EMOTION), isHaruEmotion);
+      if (emotion.rejected.length > 0) await profileStorage.removeItem(STORAGE_KEYS.HARU_EMOTION);
+
+      const quarantinedRecords = await appendQuarantine(
+        parseQuarantine(valueMap.get(STORAGE_KEYS.QUARANTINE)),
+        [...chat.rejected, ...missions.rejected, ...emotion.rejected],
+      );
+
+      chatHistoryRef.current = flattenChatDays(chat.days);
+      const storedChatCount = valueMap.get(STORAGE_KEYS.CHAT_COUNT);
+      dispatchChat({
+        type: 'loaded',
+        chatHistory: chatHistoryRef.current,
+        chatDays: chatIndexRef.current,
+        outbox: outboxRef.current,
+        chatCount: storedChatCount ? parseInt(storedChatCount, 10) : 0,
+      });
+
+      dispatchMissions({ type: 'loaded', missionHistory: missions.records });
+      const storedMissionLadder = parseMissionLadder(valueMap.get(STORAGE_KEYS.MISSION_LADDER));
+      await assignTodayMission(parseDailyMission(valueMap.get(STORAGE_KEYS.DAILY_MISSION)), missions.records, storedMissionLadder);
 
+      memoriesRef.current = parseMemories(valueMap.get(STORAGE_KEYS.MEMORIES));
+      const storedMemoryCursor = valueMap.get(STORAGE_KEYS.MEMORY_CURSOR);
+      memoryCursorRef.current = storedMemoryCursor ? parseInt(storedMemoryCursor, 10) : 0;
+
+      const storedMetric = valueMap.get(STORAGE_KEYS.PROGRESS_METRIC);
+      const storedUseAi = deviceValues.get(DEVICE_STORAGE_KEYS.USE_AI_RESPONSE);
+      const storedMemoryEnabled = valueMap.get(STORAGE_KEYS.MEMORY_ENABLED);
+      dispatchSettings({
+        type: 'loaded',
+        settings: {
+          progressMetric: isProgressMetric(storedMetric) ? storedMetric : DEFAULT_PROGRESS_METRIC,
+          haruEmotion: emotion.record ?? DEFAULT_EMOTION,
+          quarantinedRecords,
+          resetSnapshots: await loadResetSnapshots(),
+          useAiResponse: storedUseAi !== null ? JSON.parse(storedUseAi) : true,
+          chatProviderConfig: parseChatProviderConfig(deviceValues.get(DEVICE_STORAGE_KEYS.CHAT_PROVIDER)),
+          chatRetention,
+          missionLadder: storedMissionLadder,
+          safetyEvents: parseSafetyEvents(valueMap.get(STORAGE_KEYS.SAFETY_EVENTS)),
+          memories: memoriesRef.current,
+          memoryEnabled: storedMemoryEnabled ? JSON.parse(storedMemoryEnabled) : true,
+          customPersonas: parseCustomPersonas(deviceValues.get(DEVICE_STORAGE_KEYS.CUSTOM_PERSONAS)),
+          activePersonaId: deviceValues.get(DEVICE_STORAGE_KEYS.ACTIVE_PERSONA) || DEFAULT_PERSONA_ID,
+        },
+      });
+    } catch (e) {
+      console.error('Failed to load state from AsyncStorage.', e);
+    }
+  };
+
+  const setGeminiStatus = (status: GeminiStatus, error: string = '') => {
+    if (status !== lastGeminiStatusRef.current) recordUsageEvent('ai_status', `${lastGeminiStatusRef.current}→${status}`);
+    lastGeminiStatusRef.current = status;
+    dispatchAiStatus({ type: 'statusChanged', status, error });
+  };
+
+  // Nothing of a student is loaded until the app is unlocked and their profile is picked.
   useEffect(() => {
-    const loadState = async () => {
-      try {
-        const storedValues = await AsyncStorage.multiGet(Object.values(STORAGE_KEYS));
-        const valueMap = new Map(storedValues);
-        const today = new Date().toISOString().split('T')[0];
-
-        const lastVisitDate = valueMap.get(STORAGE_KEYS.LAST_VISIT_DATE);
-        const storedDayCount = valueMap.get(STORAGE_KEYS.DAY_COUNT);
-        let currentDayCount = storedDayCount ? parseInt(storedDayCount, 10) : 1;
-
-        if (lastVisitDate !== today) {
-          if (lastVisitDate) { currentDayCount++; }
-          await AsyncStorage.setItem(STORAGE_KEYS.LAST_VISIT_DATE, today);
-          await AsyncStorage.setItem(STORAGE_KEYS.DAY_COUNT, currentDayCount.toString());
-        }
-        setDayCount(currentDayCount);
+    Promise.all([loadAppLockConfig(), isBiometricUnlockAvailable()])
+      .then(([config, isBiometricsAvailable]) => {
+        lockConfigRef.current = config;
+        dispatchLock({ type: 'loaded', isLockEnabled: config !== null, useBiometrics: config?.useBiometrics ?? false, isBiometricsAvailable });
+      })
+      .catch(e => {
+        console.error('Failed to load app lock settings.', e);
+        dispatchLock({ type: 'loaded', isLockEnabled: false, useBiometrics: false, isBiometricsAvailable: false });
+      });
+    // A demo does not survive a restart; whatever it left behind is thrown away.
+    deleteProfileData(DEMO_PROFILE_ID).catch(e => console.error('Failed to delete leftover demo data.', e));
+    loadProfiles()
+      .then(profiles => dispatchProfiles({ type: 'loaded', profiles }))
+      .catch(e => {
+        console.error('Failed to load profiles.', e);
+        dispatchProfiles({ type: 'loaded', profiles: [] });
+      });
+  }, []);
 
-        const storedChat = valueMap.get(STORAGE_KEYS.CHAT_HISTORY);
-        if (storedChat) {
-          try { setChatHistory(JSON.parse(storedChat)); } catch (e) { setChatHistory([]); }
-        }
+  // Forgets the open profile's data in memory, before another profile is loaded or after this one is wiped.
+  const clearLoadedState = () => {
+    chatHistoryRef.current = [];
+    chatIndexRef.current = [];
+    outboxRef.current = [];
+    memoriesRef.current = [];
+    memoryCursorRef.current = 0;
+    visitProgressRef.current = null;
+    dispatchChat({ type: 'reset' });
+    dispatchMissions({ type: 'reset' });
+    dispatchSettings({ type: 'reset' });
+    dispatchAiStatus({ type: 'streamingReplyChanged', streamingReply: null });
+    // Not a transition worth logging; the next profile just starts from idle.
+    lastGeminiStatusRef.current = 'idle';
+    setGeminiStatus('idle');
+  };
 
-        const storedMissions = valueMap.get(STORAGE_KEYS.MISSION_HISTORY);
-        if (storedMissions) {
-          try { setMissionHistory(JSON.parse(storedMissions)); } catch (e) { setMissionHistory([]); }
-        }
+  const openProfile = async (id: string) => {
+    setStorageProfile(id);
+    clearLoadedState();
+    await loadState();
+    dispatchSettings({ type: 'initialized' });
+    dispatchProfiles({ type: 'profileOpened', id });
+  };
 
-        const storedEmotion = valueMap.get(STORAGE_KEYS.HARU_EMOTION);
-        setHaruEmotionState(isHaruEmotion(storedEmotion) ? storedEmotion : DEFAULT_EMOTION);
+  // Goes back to the profile picker.
+  const closeProfile = () => {
+    dispatchProfiles({ type: 'profileClosed' });
+    setStorageProfile(null);
+    clearLoadedState();
+  };
+
+  /**
+   * Plays a scenario in the sandbox profile, starting from its preset state. Starting again resets it.
+   */
+  const startDemo = async (scenario: DemoScenario) => {
+    if (!profileState.demoScenario) demoReturnProfileRef.current = profileState.activeProfileId;
+    await deleteProfileData(DEMO_PROFILE_ID);
+    setStorageProfile(DEMO_PROFILE_ID);
+    clearLoadedState();
+    await profileStorage.multiSet(createScenarioSeed(scenario));
+    await writeChatArchive(createScenarioChat(scenario));
+    await loadState();
+    dispatchSettings({ type: 'initialized' });
+    dispatchProfiles({ type: 'demoStarted', scenario });
+  };
+
+  const restartDemo = async () => {
+    if (profileState.demoScenario) await startDemo(profileState.demoScenario);
+  };
+
+  const endDemo = async () => {
+    const returnProfileId = demoReturnProfileRef.current;
+    demoReturnProfileRef.current = null;
+    if (returnProfileId) await openProfile(returnProfileId);
+    else closeProfile();
+    try { await deleteProfileData(DEMO_PROFILE_ID); }
+    catch (e) { console.error('Failed to delete demo data.', e); }
+  };
 
-        const storedChatCount = valueMap.get(STORAGE_KEYS.CHAT_COUNT);
-        setChatCount(storedChatCount ? parseInt(storedChatCount, 10) : 0);
+  const createProfile = async (nickname: string, avatar?: string): Promise<StudentProfile> => {
+    const profile = createStudentProfile(nickname, avatar);
+    const newProfiles = [...profileState.profiles, profile];
+    dispatchProfiles({ type: 'profilesChanged', profiles: newProfiles });
+    await saveProfiles(newProfiles);
+    return profile;
+  };
+
+  const updateProfile = async (id: string, nickname: string, avatar?: string) => {
+    const newProfiles = profileState.profiles.map(profile =>
+      profile.id === id ? { ...profile, nickname: nickname.trim().slice(0, MAX_NICKNAME_LENGTH), avatar } : profile);
+    dispatchProfiles({ type: 'profilesChanged', profiles: newProfiles });
+    await saveProfiles(newProfiles);
+  };
 
-        const storedUseAi = valueMap.get(STORAGE_KEYS.USE_AI_RESPONSE);
-        setUseAiResponseState(storedUseAi !== null ? JSON.parse(storedUseAi) : true);
+  /**
+   * Deletes a profile and all of its data. The open profile cannot be deleted.
+   */
+  const deleteProfile = async (id: string): Promise<boolean> => {
+    if (id === profileState.activeProfileId) return false;
+    try {
+      await deleteProfileData(id);
+    } catch (e) {
+      console.error('Failed to delete profile data.', e);
+      return false;
+    }
+    const newProfiles = profileState.profiles.filter(profile => profile.id !== id);
+    dispatchProfiles({ type: 'profilesChanged', profiles: newProfiles });
+    await saveProfiles(newProfiles);
+    return true;
+  };
 
-      } catch (e) {
-        console.error('Failed to load state from AsyncStorage.', e);
-      } finally {
-        setIsInitialized(true);
+  // Brings the lock screen back when the app returns after a while. The data key stays in memory meanwhile,
+  // so a reply or photo that finishes in the background can still be saved.
+  useEffect(() => {
+    let backgroundedAt: number | null = null;
+    const subscription = RNAppState.addEventListener('change', nextState => {
+      if (nextState === 'background') {
+        backgroundedAt = Date.now();
+      } else if (nextState === 'active' && backgroundedAt !== null) {
+        if (Date.now() - backgroundedAt >= LOCK_AFTER_BACKGROUND_MS) dispatchLock({ type: 'locked' });
+        backgroundedAt = null;
       }
-    };
-    loadState();
+    });
+    return () => subscription.remove();
   }, []);
 
-  const setGeminiStatus = (status: GeminiStatus, error: string = '') => {
-    setGeminiStatusState(status);
-    setLastGeminiError(error);
+  const installDataKey = (key: Uint8Array | null) => {
+    dataKeyRef.current = key;
+    setStorageCipher(key ? createStorageCipher(key) : null);
+  };
+
+  const unlockWithPin = async (pin: string): Promise<boolean> => {
+    const config = lockConfigRef.current;
+    if (config) {
+      const key = await getKeyForPin(config, pin);
+      if (!key) return false;
+      installDataKey(key);
+      if (isLegacyAppLockConfig(config)) {
+        // Moves the data to a key the PIN alone cannot open. If this fails, the old key keeps working.
+        try {
+          const result = await writeAppPin(pin, config.useBiometrics, key);
+          lockConfigRef.current = result.config;
+          installDataKey(result.key);
+        } catch (e) {
+          console.error('Failed to upgrade the app lock key.', e);
+        }
+      }
+    }
+    dispatchLock({ type: 'unlocked' });
+    return true;
+  };
+
+  const unlockWithBiometrics = async (): Promise<boolean> => {
+    const config = lockConfigRef.current;
+    if (!config?.useBiometrics) return false;
+    const key = await getKeyWithBiometrics(config);
+    if (!key) return false;
+    installDataKey(key);
+    dispatchLock({ type: 'unlocked' });
+    return true;
+  };
+
+  /**
+   * Turns the PIN on, or changes it. Every profile's private data is re-encrypted with the new PIN.
+   * @param currentPin The PIN in use, or null when there is none yet.
+   */
+  const setAppPin = async (newPin: string, currentPin: string | null): Promise<boolean> => {
+    const config = lockConfigRef.current;
+    const currentKey = config ? await getKeyForPin(config, currentPin ?? '') : null;
+    if (config && !currentKey) return false;
+    try {
+      const result = await writeAppPin(newPin, config?.useBiometrics ?? false, currentKey);
+      lockConfigRef.current = result.config;
+      installDataKey(result.key);
+      dispatchLock({ type: 'settingsChanged', isLockEnabled: true, useBiometrics: result.config.useBiometrics });
+      return true;
+    } catch (e) {
+      console.error('Failed to set the app PIN.', e);
+      return false;
+    }
+  };
+
+  const removeAppPin = async (currentPin: string): Promise<boolean> => {
+    const config = lockConfigRef.current;
+    if (!config) return true;
+    const currentKey = await getKeyForPin(config, currentPin);
+    if (!currentKey) return false;
+    try {
+      await clearAppPin(currentKey);
+    } catch (e) {
+      console.error('Failed to remove the app PIN.', e);
+      return false;
+    }
+    lockConfigRef.current = null;
+    installDataKey(null);
+    dispatchLock({ type: 'settingsChanged', isLockEnabled: false, useBiometrics: false });
+    return true;
+  };
+
+  const setBiometricUnlock = async (enabled: boolean): Promise<boolean> => {
+    const config = lockConfigRef.current;
+    if (!config || !dataKeyRef.current) return false;
+    try {
+      lockConfigRef.current = await saveBiometricUnlock(config, dataKeyRef.current, enabled);
+    } catch (e) {
+      console.error('Failed to change biometric unlock.', e);
+      return false;
+    }
+    dispatchLock({ type: 'settingsChanged', isLockEnabled: true, useBiometrics: enabled });
+    return true;
+  };
+
+  /**
+   * For a forgotten PIN: the encrypted data cannot be read without it, so every student's data is deleted
+   * and the lock is turned off. The profiles themselves stay.
+   */
+  const resetForgottenPin = async () => {
+    try {
+      await wipeLockedData();
+    } catch (e) {
+      console.error('Failed to wipe data for a forgotten PIN.', e);
+    }
+    lockConfigRef.current = null;
+    installDataKey(null);
+    closeProfile();
+    dispatchLock({ type: 'settingsChanged', isLockEnabled: false, useBiometrics: false });
+    dispatchLock({ type: 'unlocked' });
   };
 
   const setHaruEmotion = async (emotion: HaruEmotion) => {
-    setHaruEmotionState(emotion);
-    try { await AsyncStorage.setItem(STORAGE_KEYS.HARU_EMOTION, emotion); } 
+    dispatchSettings({ type: 'haruEmotionChanged', emotion });
+    try { await profileStorage.setItem(STORAGE_KEYS.HARU_EMOTION, emotion); } 
     catch (e) { console.error('Failed to save Haru emotion.', e); }
   };
 
   const setUseAiResponse = async (useAi: boolean) => {
-    setUseAiResponseState(useAi);
-    try { await AsyncStorage.setItem(STORAGE_KEYS.USE_AI_RESPONSE, JSON.stringify(useAi)); } 
+    dispatchSettings({ type: 'useAiResponseChanged', useAiResponse: useAi });
+    try { await AsyncStorage.setItem(DEVICE_STORAGE_KEYS.USE_AI_RESPONSE, JSON.stringify(useAi)); } 
     catch (e) { console.error('Failed to save AI response preference.', e); }
   };
 
-  const getBotResponse = async (userMessage: ChatMessage): Promise<ChatMessage> => {
-    setIsAiThinking(true);
+  const updateChatProviderConfig = async (config: ChatProviderConfig) => {
+    dispatchSettings({ type: 'chatProviderChanged', config });
+    setGeminiStatus('idle');
+    try { await saveChatProviderConfig(config); }
+    catch (e) { console.error('Failed to save chat provider config.', e); }
+  };
+
+  const recordSafetyEvent = async (event: SafetyEvent) => {
+    const newEvents = await appendSafetyEvent(safetyEvents, event);
+    dispatchSettings({ type: 'safetyEventsChanged', events: newEvents });
+  };
+
+  const clearSafetyEvents = async () => {
+    dispatchSettings({ type: 'safetyEventsChanged', events: [] });
+    try { await profileStorage.removeItem(STORAGE_KEYS.SAFETY_EVENTS); }
+    catch (e) { console.error('Failed to clear safety events.', e); }
+  };
+
+  /**
+   * Gets Haru's reply to a message.
+   * @returns The reply, or null if the AI was temporarily unreachable and the message should be retried later.
+   */
+  const getBotResponse = async (userMessage: ChatMessage, history: ChatMessage[]): Promise<ChatMessage | null> => {
+    dispatchAiStatus({ type: 'thinkingStarted' });
     let botResponse: HaruResponse;
+    let showHelpLines = false;
+    let persona: PersonaPreset | undefined;
     try {
-      if (useAiResponse) {
-        botResponse = await getGeminiResponse(userMessage.text, setGeminiStatus);
+      // Crisis messages never reach the model; Haru answers with the reviewed reply instead.
+      const crisisMatch = checkUserMessage(userMessage.text);
+      if (crisisMatch) {
+        botResponse = CRISIS_RESPONSE;
+        showHelpLines = true;
+        await recordSafetyEvent(createSafetyEvent('user', crisisMatch, userMessage.text));
+      } else if (profileState.demoScenario) {
+        botResponse = getScenarioResponse(profileState.demoScenario, userMessage.text, history);
+        setGeminiStatus('idle', 'Demo scenario');
+      } else if (useAiResponse) {
+        // Partial text is screened too; once anything matches, nothing more is shown until the final reply.
+        let isPartialBlocked = false;
+        const handlePartial = (partial: Partial<HaruResponse>) => {
+          if (isPartialBlocked) return;
+          if (partial.text && checkBotResponse(partial.text)) {
+            isPartialBlocked = true;
+            dispatchAiStatus({ type: 'streamingReplyChanged', streamingReply: null });
+            return;
+          }
+          dispatchAiStatus({ type: 'streamingReplyChanged', streamingReply: partial });
+        };
+        persona = findPersona(customPersonas, activePersonaId);
+        const personaPrompt = buildPersonaWithMemories(buildPersonaPrompt(persona), memoryEnabled ? memoriesRef.current : []);
+        botResponse = await getChatResponse(chatProviderConfig, userMessage.text, setGeminiStatus, history, handlePartial, personaPrompt);
+        if (botResponse.retryable) recordUsageEvent('fallback_used', 'queued');
+        else if (botResponse.isFallback) recordUsageEvent('fallback_used', 'provider_error');
+        botResponse = { ...botResponse, state: clampEmotion(persona, botResponse.state) };
+        const outputMatch = checkBotResponse([botResponse.text, ...(botResponse.quickReplies ?? [])].join('\n'));
+        if (outputMatch) {
+          await recordSafetyEvent(createSafetyEvent('model', outputMatch, botResponse.text));
+          botResponse = BLOCKED_OUTPUT_RESPONSE;
+          recordUsageEvent('fallback_used', 'blocked_output');
+        }
       } else {
-        botResponse = { text: "지금은 잠깐 다른 생각 중이야...", state: "half_turned" };
+        // Offline mode: a rule-based reply, so demos keep working without a network.
+        persona = findPersona(customPersonas, activePersonaId);
+        const lastBotText = [...history].reverse().find(msg => msg.sender === 'bot')?.text;
+        botResponse = getOfflineResponse(userMessage.text, lastBotText);
+        recordUsageEvent('fallback_used', 'offline');
+        botResponse = { ...botResponse, state: clampEmotion(persona, botResponse.state) };
         setGeminiStatus('idle', 'AI is disabled');
       }
     } catch (e) {
       console.error('Error in getBotResponse:', e);
+      recordUsageEvent('fallback_used', 'client_error');
       botResponse = { text: "...", state: 'neutral' };
       setGeminiStatus('error', 'Client-side error');
     } finally {
-      setIsAiThinking(false);
-      setHaruEmotion(botResponse.state || 'neutral');
+      dispatchAiStatus({ type: 'thinkingFinished' });
     }
-    return { id: new Date().toISOString(), text: botResponse.text, sender: 'bot', timestamp: Date.now(), state: botResponse.state };
+    if (botResponse.retryable) return null;
+    setHaruEmotion(botResponse.state || 'neutral');
+    return {
+      id: new Date().toISOString(),
+      text: botResponse.text,
+      sender: 'bot',
+      timestamp: Date.now(),
+      state: botResponse.state,
+      showHelpLines: showHelpLines || undefined,
+      suggestedMissionId: botResponse.suggestedMissionId,
+      userMood: botResponse.userMood,
+      quickReplies: botResponse.quickReplies,
+      personaId: persona?.id,
+      personaVersion: persona?.version,
+    };
   };
   
-  const sendUserMessage = async (message: ChatMessage) => {
-    setChatHistory(prev => [...prev, message]);
-    setChatCount(prev => prev + 1);
+  // Only the days whose messages changed are written back, so a long history does not slow down sending.
+  const updateChatHistory = async (update: (prev: ChatMessage[]) => ChatMessage[]) => {
+    const prevHistory = chatHistoryRef.current;
+    const newHistory = update(prevHistory);
+    const changedDays = getChangedChatDays(prevHistory, newHistory);
+    chatHistoryRef.current = newHistory;
+    chatIndexRef.current = updateChatIndex(chatIndexRef.current, changedDays);
+    dispatchChat({ type: 'historyChanged', chatHistory: newHistory, chatDays: chatIndexRef.current });
+    try { await saveChatDays(changedDays, chatIndexRef.current); }
+    catch (e) { console.error('Failed to save chat history.', e); }
+  };
+
+  const quarantineRecords = async (records: QuarantinedRecord[]) => {
+    if (records.length === 0) return;
+    dispatchSettings({ type: 'quarantineChanged', records: await appendQuarantine(quarantinedRecords, records) });
+  };
+
+  /**
+   * Reads days that are not in memory, for the history screen. Nothing is added to the in-memory history.
+   */
+  const loadArchivedChatDays = async (dates: string[]): Promise<ChatDays> => {
+    try {
+      const { days, rejected } = await loadChatDays(dates);
+      await quarantineRecords(rejected);
+      return days;
+    } catch (e) {
+      console.error('Failed to load archived chat days.', e);
+      return {};
+    }
+  };
+
+  // Adds an archived day to the in-memory history, so its messages can be updated like today's.
+  const bringChatDayIntoMemory = async (date: string) => {
+    if (!chatIndexRef.current.includes(date) || chatHistoryRef.current.some(msg => getChatDate(msg) === date)) return;
+    const days = await loadArchivedChatDays([date]);
+    if (chatHistoryRef.current.some(msg => getChatDate(msg) === date)) return;
+    chatHistoryRef.current = [...chatHistoryRef.current, ...(days[date] ?? [])].sort((a, b) => a.timestamp - b.timestamp);
+    dispatchChat({ type: 'historyChanged', chatHistory: chatHistoryRef.current, chatDays: chatIndexRef.current });
+  };
+
+  const setChatRetention = async (retention: ChatRetention) => {
+    dispatchSettings({ type: 'chatRetentionChanged', retention });
+    try {
+      await profileStorage.setItem(STORAGE_KEYS.CHAT_RETENTION, JSON.stringify(retention));
+      chatIndexRef.current = await applyChatRetention(chatIndexRef.current, retention, getLocalDateString());
+      chatHistoryRef.current = chatHistoryRef.current.filter(msg => chatIndexRef.current.includes(getChatDate(msg)));
+      dispatchChat({ type: 'historyChanged', chatHistory: chatHistoryRef.current, chatDays: chatIndexRef.current });
+    } catch (e) { console.error('Failed to apply chat retention.', e); }
+  };
 
-    const newHistory = [...chatHistory, message];
+  const updateOutbox = async (update: (prev: OutboxEntry[]) => OutboxEntry[]) => {
+    const newOutbox = update(outboxRef.current);
+    outboxRef.current = newOutbox;
+    dispatchChat({ type: 'outboxChanged', outbox: newOutbox });
+    await saveOutbox(newOutbox);
+  };
+
+  const setMessageStatus = (messageId: string, status: DeliveryStatus) =>
+    updateChatHistory(prev => prev.map(msg => (msg.id === messageId ? { ...msg, status } : msg)));
+
+  // Marks the message as sent and places Haru's reply right after it, even if newer messages were sent meanwhile.
+  const deliverReply = (messageId: string, botMessage: ChatMessage) =>
+    updateChatHistory(prev => {
+      const index = prev.findIndex(msg => msg.id === messageId);
+      if (index === -1) return [...prev, botMessage];
+      const updated = prev.map(msg => (msg.id === messageId ? { ...msg, status: 'sent' as DeliveryStatus } : msg));
+      return [...updated.slice(0, index + 1), botMessage, ...updated.slice(index + 1)];
+    });
+
+  const sendUserMessage = async (message: ChatMessage) => {
+    const pendingMessage: ChatMessage = { ...message, status: 'pending' };
+    const history = chatHistoryRef.current;
+    recordUsageEvent('message_sent');
+    dispatchChat({ type: 'messageCounted' });
     await Promise.all([
-        AsyncStorage.setItem(STORAGE_KEYS.CHAT_HISTORY, JSON.stringify(newHistory)),
-        AsyncStorage.setItem(STORAGE_KEYS.CHAT_COUNT, (chatCount + 1).toString())
+        updateChatHistory(prev => [...prev, pendingMessage]),
+        profileStorage.setItem(STORAGE_KEYS.CHAT_COUNT, (chatCount + 1).toString())
     ]);
 
-    const botMessage = await getBotResponse(message);
-    
-    setChatHistory(prev => [...prev, botMessage]);
-    const finalHistory = [...newHistory, botMessage];
-    await AsyncStorage.setItem(STORAGE_KEYS.CHAT_HISTORY, JSON.stringify(finalHistory));
+    const botMessage = await getBotResponse(pendingMessage, history);
+    if (botMessage) {
+      await deliverReply(pendingMessage.id, botMessage);
+      maybeExtractMemories();
+    } else {
+      await updateOutbox(prev => [...prev, createOutboxEntry(pendingMessage.id, getChatDate(pendingMessage))]);
+    }
+    dispatchAiStatus({ type: 'streamingReplyChanged', streamingReply: null });
+  };
+
+  /**
+   * Retries queued messages in order. Stops at the first failure, since the rest would most likely fail too.
+   * @param force Retry every entry now, ignoring the backoff schedule (used when the app comes to the foreground).
+   */
+  const processOutbox = async (force: boolean = false) => {
+    if (isProcessingOutboxRef.current || isAiThinking) return;
+    const now = Date.now();
+    const dueEntries = outboxRef.current.filter(entry => force || entry.nextAttemptAt <= now);
+    if (dueEntries.length === 0) return;
+
+    isProcessingOutboxRef.current = true;
+    try {
+      for (const entry of dueEntries) {
+        const index = chatHistoryRef.current.findIndex(msg => msg.id === entry.messageId);
+        if (index === -1) {
+          await updateOutbox(prev => prev.filter(e => e.messageId !== entry.messageId));
+          continue;
+        }
+
+        const message = chatHistoryRef.current[index];
+        const botMessage = await getBotResponse(message, chatHistoryRef.current.slice(0, index));
+        dispatchAiStatus({ type: 'streamingReplyChanged', streamingReply: null });
+        if (botMessage) {
+          await deliverReply(message.id, botMessage);
+          await updateOutbox(prev => prev.filter(e => e.messageId !== entry.messageId));
+          continue;
+        }
+
+        const nextEntry = scheduleNextAttempt(entry);
+        if (nextEntry.attempts > MAX_DELIVERY_ATTEMPTS) {
+          await setMessageStatus(message.id, 'failed');
+          await updateOutbox(prev => prev.filter(e => e.messageId !== entry.messageId));
+        } else {
+          await updateOutbox(prev => prev.map(e => (e.messageId === entry.messageId ? nextEntry : e)));
+        }
+        break;
+      }
+    } finally {
+      isProcessingOutboxRef.current = false;
+    }
+  };
+
+  // Timers and AppState listeners outlive a render, so they call the latest processOutbox through a ref.
+  const processOutboxRef = useRef(processOutbox);
+  processOutboxRef.current = processOutbox;
+  const refreshTodayMissionRef = useRef(() => {});
+  refreshTodayMissionRef.current = () => {
+    if (missionState.dailyMission) assignTodayMission(missionState.dailyMission, missionHistory, missionLadder);
+  };
+
+  useEffect(() => {
+    if (!isInitialized || isAiThinking || outbox.length === 0) return;
+    const nextAttemptAt = Math.min(...outbox.map(entry => entry.nextAttemptAt));
+    const timer = setTimeout(() => processOutboxRef.current(), Math.max(0, nextAttemptAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [outbox, isInitialized, isAiThinking]);
+
+  useEffect(() => {
+    const subscription = RNAppState.addEventListener('change', nextState => {
+      if (nextState !== 'active') return;
+      processOutboxRef.current(true);
+      if (visitProgressRef.current) recordTodayVisit(visitProgressRef.current);
+      refreshTodayMissionRef.current();
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const updateMemories = async (update: (prev: MemoryItem[]) => MemoryItem[]) => {
+    const newMemories = update(memoriesRef.current);
+    memoriesRef.current = newMemories;
+    dispatchSettings({ type: 'memoriesChanged', memories: newMemories });
+    await saveMemories(newMemories);
+  };
+
+  /**
+   * Once enough new messages have piled up, asks Gemini in the background which facts are worth remembering.
+   * Crisis messages and Haru's safety replies are never sent for extraction.
+   */
+  const maybeExtractMemories = async () => {
+    if (!memoryEnabled || !useAiResponse || profileState.demoScenario || chatProviderConfig.providerId !== 'gemini' || isExtractingMemoriesRef.current) return;
+    const newMessages = chatHistoryRef.current.filter(msg => msg.timestamp > memoryCursorRef.current);
+    if (newMessages.filter(msg => msg.sender === 'user').length < MEMORY_EXTRACTION_INTERVAL) return;
+
+    isExtractingMemoriesRef.current = true;
+    const profileId = getStorageProfile();
+    try {
+      const conversation = newMessages.filter(msg => !msg.showHelpLines && !(msg.sender === 'user' && checkUserMessage(msg.text)));
+      const extracted = await extractGeminiMemories(conversation, memoriesRef.current.map(item => item.text), chatProviderConfig);
+      // The student may have switched profiles while Gemini was answering.
+      if (!extracted || getStorageProfile() !== profileId) return;
+      await updateMemories(prev => mergeMemories(prev, extracted));
+      memoryCursorRef.current = newMessages[newMessages.length - 1].timestamp;
+      await profileStorage.setItem(STORAGE_KEYS.MEMORY_CURSOR, memoryCursorRef.current.toString());
+    } catch (e) {
+      console.error('Failed to extract memories.', e);
+    } finally {
+      isExtractingMemoriesRef.current = false;
+    }
+  };
+
+  const updateMemory = (id: string, text: string, category: MemoryCategory) =>
+    updateMemories(prev => prev.map(item => (item.id === id ? { ...item, text, category, updatedAt: Date.now() } : item)));
+
+  const deleteMemory = (id: string) => updateMemories(prev => prev.filter(item => item.id !== id));
+
+  const clearMemories = () => updateMemories(() => []);
+
+  const setMemoryEnabled = async (enabled: boolean) => {
+    dispatchSettings({ type: 'memoryEnabledChanged', enabled });
+    // Conversations while memory was off are never looked at later.
+    if (enabled) {
+      memoryCursorRef.current = Date.now();
+    }
+    try {
+      await profileStorage.multiSet([
+        [STORAGE_KEYS.MEMORY_ENABLED, JSON.stringify(enabled)],
+        [STORAGE_KEYS.MEMORY_CURSOR, memoryCursorRef.current.toString()],
+      ]);
+    } catch (e) { console.error('Failed to save memory preference.', e); }
+  };
+
+  /**
+   * Creates or updates an admin-made preset. Every save bumps its version, so replies can be traced to the exact prompt.
+   * Built-in presets cannot be changed; duplicate them first.
+   */
+  const savePersona = async (preset: PersonaPreset) => {
+    if (preset.builtIn) return;
+    const exists = customPersonas.some(item => item.id === preset.id);
+    const saved: PersonaPreset = exists
+      ? { ...preset, version: preset.version + 1, updatedAt: Date.now() }
+      : { ...preset, updatedAt: Date.now() };
+    const newPersonas = exists
+      ? customPersonas.map(item => (item.id === preset.id ? saved : item))
+      : [...customPersonas, saved];
+    dispatchSettings({ type: 'personasChanged', customPersonas: newPersonas });
+    await saveCustomPersonas(newPersonas);
+  };
+
+  const activatePersona = async (id: string) => {
+    dispatchSettings({ type: 'activePersonaChanged', id });
+    try { await AsyncStorage.setItem(DEVICE_STORAGE_KEYS.ACTIVE_PERSONA, id); }
+    catch (e) { console.error('Failed to save active persona.', e); }
+  };
+
+  const deletePersona = async (id: string) => {
+    const newPersonas = customPersonas.filter(item => item.id !== id);
+    dispatchSettings({ type: 'personasChanged', customPersonas: newPersonas });
+    await saveCustomPersonas(newPersonas);
+    if (activePersonaId === id) await activatePersona(DEFAULT_PERSONA_ID);
+  };
+
+  // Sends one test message with the given preset through the active provider, without touching chat history or status.
+  const previewPersona = async (preset: PersonaPreset, message: string): Promise<HaruResponse> => {
+    const response = await getChatResponse(chatProviderConfig, message, () => {}, [], undefined, buildPersonaPrompt(preset));
+    return { ...response, state: clampEmotion(preset, response.state) };
+  };
+
+  // Puts a message that was given up on back into the queue and tries it right away.
+  const retryMessage = async (message: ChatMessage) => {
+    if (outboxRef.current.some(entry => entry.messageId === message.id)) return;
+    const date = getChatDate(message);
+    await bringChatDayIntoMemory(date);
+    await setMessageStatus(message.id, 'pending');
+    await updateOutbox(prev => [...prev, { ...createOutboxEntry(message.id, date), attempts: 0, nextAttemptAt: Date.now() }]);
   };
 
   const completeMission = async (mission: Mission, photoUri?: string) => {
-    const newCompletion: CompletedMission = { id: new Date().toISOString(), missionName: mission.text, date: new Date().toISOString().split('T')[0], photoUri };
+    const id = new Date().toISOString();
+    let photo: { photoUri?: string; thumbnailUri?: string } = { photoUri };
+    if (photoUri) {
+      try { photo = await saveMissionPhoto(photoUri, id); }
+      // The picker's file still shows the photo for now, so the mission is recorded with it rather than without.
+      catch (e) { console.error('Failed to save mission photo.', e); }
+    }
+    const newCompletion: CompletedMission = { id, missionId: mission.id, missionName: mission.text, date: getLocalDateString(), ...photo };
     const newHistory = [newCompletion, ...missionHistory];
-    setMissionHistory(newHistory);
-    try { await AsyncStorage.setItem(STORAGE_KEYS.MISSION_HISTORY, JSON.stringify(newHistory)); }
+    dispatchMissions({ type: 'missionCompleted', mission: newCompletion });
+    recordUsageEvent('mission_completed', photoUri ? `${mission.id} (photo)` : mission.id);
+    try { await profileStorage.setItem(STORAGE_KEYS.MISSION_HISTORY, JSON.stringify(newHistory)); }
     catch (e) { console.error('Failed to save completed mission.', e); }
   };
 
-  const softReset = async () => {
-    setChatHistory([]);
-    setChatCount(0);
+  const deleteMissionRecord = async (id: string) => {
+    if (!missionHistory.some(item => item.id === id)) return;
+    dispatchMissions({ type: 'missionDeleted', id });
     try {
-        await AsyncStorage.removeItem(STORAGE_KEYS.CHAT_HISTORY);
-        await AsyncStorage.setItem(STORAGE_KEYS.CHAT_COUNT, '0');
-    } catch (e) { console.error('Failed to soft reset state.', e); }
+      await profileStorage.setItem(STORAGE_KEYS.MISSION_HISTORY, JSON.stringify(missionHistory.filter(item => item.id !== id)));
+      // The photo stays while a reset snapshot still holds the record.
+      await deleteUnreferencedMissionPhotos();
+    } catch (e) { console.error('Failed to delete mission record.', e); }
+  };
+
+  const swapDailyMission = async () => {
+    const { dailyMission } = missionState;
+    const profileId = getStorageProfile();
+    if (!dailyMission || !profileId || isDailyMissionCompleted(dailyMission, missionHistory)) return;
+    const missions = getUnlockedMissions(getLadderProgress(missionHistory, missionLadder));
+    const swapped = swapTodayMission(dailyMission, profileId, missions, missionHistory);
+    if (!swapped) return;
+    dispatchMissions({ type: 'dailyMissionChanged', dailyMission: swapped });
+    try { await profileStorage.setItem(STORAGE_KEYS.DAILY_MISSION, JSON.stringify(swapped)); }
+    catch (e) { console.error('Failed to save daily mission.', e); }
+  };
+
+  const setMissionLadder = async (newSettings: MissionLadderSettings) => {
+    dispatchSettings({ type: 'missionLadderChanged', settings: newSettings });
+    try { await saveMissionLadder(newSettings); }
+    catch (e) { console.error('Failed to save mission ladder settings.', e); }
+    // Moving the student down a stage can lock today's mission.
+    await assignTodayMission(missionState.dailyMission, missionHistory, newSettings);
   };
 
-  const hardReset = async () => {
+  const clearQuarantine = async () => {
+    dispatchSettings({ type: 'quarantineChanged', records: [] });
+    try { await profileStorage.removeItem(STORAGE_KEYS.QUARANTINE); }
+    catch (e) { console.error('Failed to clear quarantined records.', e); }
+  };
+
+  /**
+   * Copies all stored data aside before it is reset or overwritten.
+   * @returns False if the copy could not be made, in which case nothing should be deleted.
+   */
+  const takeResetSnapshot = async (reason: ResetSnapshotReason): Promise<boolean> => {
     try {
-      await AsyncStorage.multiRemove(ALL_STORAGE_KEYS);
-      setDayCount(1);
-      setChatHistory([]);
-      setMissionHistory([]);
-      setHaruEmotionState(DEFAULT_EMOTION);
-      setChatCount(0);
-      setUseAiResponseState(true);
-      setGeminiStatus('idle');
-      setLastGeminiError('');
+      dispatchSettings({ type: 'resetSnapshotsChanged', snapshots: await createResetSnapshot(reason) });
+      return true;
+    } catch (e) {
+      console.error('Failed to take reset snapshot.', e);
+      return false;
+    }
+  };
 
-      const today = new Date().toISOString().split('T')[0];
-      await AsyncStorage.setItem(STORAGE_KEYS.DAY_COUNT, '1');
-      await AsyncStorage.setItem(STORAGE_KEYS.LAST_VISIT_DATE, today);
+  const softReset = async (): Promise<boolean> => {
+    if (!(await takeResetSnapshot('softReset'))) return false;
+    chatHistoryRef.current = [];
+    chatIndexRef.current = [];
+    outboxRef.current = [];
+    dispatchChat({ type: 'reset' });
+    try {
+        await removeChatArchive();
+        await profileStorage.removeItem(STORAGE_KEYS.OUTBOX);
+        await profileStorage.setItem(STORAGE_KEYS.CHAT_COUNT, '0');
+        // The snapshot may have pushed out an old one, whose photos nothing else needs.
+        await deleteUnreferencedMissionPhotos();
+    } catch (e) { console.error('Failed to soft reset state.', e); }
+    return true;
+  };
+
+  // Wipes the open profile only. Other students, the device-wide settings and the API key stay.
+  const hardReset = async (): Promise<boolean> => {
+    if (!(await takeResetSnapshot('hardReset'))) return false;
+    try {
+      await profileStorage.multiRemove(ALL_STORAGE_KEYS);
+      await removeChatArchive();
+      // Photos of the records in the snapshot stay, so undoing the reset brings them back.
+      await deleteUnreferencedMissionPhotos();
+      clearLoadedState();
+      // Brings back the device-wide settings, which a reset of one student leaves alone.
+      await loadState();
     } catch (e) {
       console.error('Failed to hard reset state.', e);
     }
+    return true;
   };
 
-  const updateApiKey = async (newKey: string): Promise<boolean> => {
-    const oldKey = await AsyncStorage.getItem(STORAGE_KEYS.API_KEY);
+  /**
+   * Puts back the data from before a reset. What is stored now is snapshotted first, so a restore can be undone too.
+   */
+  const restoreResetSnapshot = async (id: string): Promise<boolean> => {
+    const entries = await readResetSnapshot(id);
+    if (!entries || !(await takeResetSnapshot('restore'))) return false;
     try {
-      await AsyncStorage.setItem(STORAGE_KEYS.API_KEY, newKey);
-      const response = await getGeminiResponse('hello', setGeminiStatus);
-      if (response.text.includes('API 키가 설정되지 않았어요')) throw new Error('Invalid API key');
+      await profileStorage.multiRemove(ALL_STORAGE_KEYS);
+      await removeChatArchive();
+      await profileStorage.multiSet(entries);
+      await deleteUnreferencedMissionPhotos();
+      clearLoadedState();
+      await loadState();
       return true;
     } catch (e) {
-      console.error("Failed to update API key:", e);
-      if (oldKey) { await AsyncStorage.setItem(STORAGE_KEYS.API_KEY, oldKey); }
-      else { await AsyncStorage.removeItem(STORAGE_KEYS.API_KEY); }
+      console.error('Failed to restore reset snapshot.', e);
       return false;
     }
   };
 
+  const getBackupData = async (): Promise<BackupData> => ({
+    progress: visitProgressRef.current ?? visitProgress,
+    chatCount,
+    haruEmotion,
+    chatHistory: flattenChatDays(await loadArchivedChatDays(chatIndexRef.current)),
+    missionHistory,
+    memories: memoriesRef.current,
+    settings: { progressMetric, useAiResponse, chatProvider: chatProviderConfig, chatRetention, memoryEnabled, activePersonaId, customPersonas },
+  });
+
+  const getUsageEvents = async (): Promise<UsageEvent[]> => {
+    try {
+      return await loadUsageEvents();
+    } catch (e) {
+      console.error('Failed to load usage events.', e);
+      return [];
+    }
+  };
+
+  const exportUsageEvents = async (events: UsageEvent[]): Promise<boolean> => {
+    try {
+      await shareUsageEventsCsv(events);
+      return true;
+    } catch (e) {
+      console.error('Failed to export usage events.', e);
+      return false;
+    }
+  };
+
+  const clearUsageLog = async () => {
+    try { await clearUsageEvents(); }
+    catch (e) { console.error('Failed to clear usage events.', e); }
+  };
+
+  const exportBackup = async (): Promise<boolean> => {
+    try {
+      await shareBackupArchive(await createBackupArchive(await getBackupData()));
+      return true;
+    } catch (e) {
+      console.error('Failed to export backup.', e);
+      return false;
+    }
+  };
+
+  /**
+   * Writes a backup into storage, either on top of the current data or in its place, and reloads the state from it.
+   * Merging only adds the backup's records. Replacing clears everything stored for the student first and also takes
+   * the backup's admin settings; it is snapshotted first like a reset, and does nothing if the snapshot cannot be taken.
+   */
+  const importBackup = async (archive: BackupArchive, mode: BackupImportMode): Promise<boolean> => {
+    if (mode === 'replace' && !(await takeResetSnapshot('importReplace'))) return false;
+    try {
+      const current = mode === 'merge' ? await getBackupData() : null;
+      // Imported messages have no outbox entry, so ones that were still waiting can only be retried by hand.
+      const incoming: BackupData = {
+        ...archive.data,
+        chatHistory: archive.data.chatHistory.map(msg => (msg.status === 'pending' ? { ...msg, status: 'failed' } : msg)),
+        missionHistory: restoreBackupPhotos(archive, new Set(current?.missionHistory.map(mission => mission.id))),
+      };
+
+      if (current) {
+        const data = mergeBackupData(current, incoming);
+        await profileStorage.multiSet([
+          [STORAGE_KEYS.VISIT_PROGRESS, JSON.stringify(data.progress)],
+          [STORAGE_KEYS.CHAT_COUNT, data.chatCount.toString()],
+          [STORAGE_KEYS.MISSION_HISTORY, JSON.stringify(data.missionHistory)],
+          [STORAGE_KEYS.MEMORIES, JSON.stringify(data.memories)],
+        ]);
+        await writeChatArchive(data.chatHistory);
+      } else {
+        const lastMessage = incoming.chatHistory[incoming.chatHistory.length - 1];
+        await profileStorage.multiRemove(ALL_STORAGE_KEYS);
+        await removeChatArchive();
+        await profileStorage.multiSet([
+          [STORAGE_KEYS.VISIT_PROGRESS, JSON.stringify(incoming.progress)],
+          [STORAGE_KEYS.PROGRESS_METRIC, incoming.settings.progressMetric],
+          [STORAGE_KEYS.CHAT_COUNT, incoming.chatCount.toString()],
+          [STORAGE_KEYS.HARU_EMOTION, incoming.haruEmotion],
+          [STORAGE_KEYS.MISSION_HISTORY, JSON.stringify(incoming.missionHistory)],
+          [STORAGE_KEYS.MEMORIES, JSON.stringify(incoming.memories)],
+          [STORAGE_KEYS.CHAT_RETENTION, JSON.stringify(incoming.settings.chatRetention)],
+          [STORAGE_KEYS.MEMORY_ENABLED, JSON.stringify(incoming.settings.memoryEnabled)],
+          // The imported conversation was already looked at for memories on the old device.
+          [STORAGE_KEYS.MEMORY_CURSOR, (lastMessage?.timestamp ?? 0).toString()],
+        ]);
+        // The admin settings in a backup apply to the whole device, not only to this student.
+        await AsyncStorage.multiSet([
+          [DEVICE_STORAGE_KEYS.USE_AI_RESPONSE, JSON.stringify(incoming.settings.useAiResponse)],
+          [DEVICE_STORAGE_KEYS.CHAT_PROVIDER, JSON.stringify(incoming.settings.chatProvider)],
+          [DEVICE_STORAGE_KEYS.ACTIVE_PERSONA, incoming.settings.activePersonaId],
+          [DEVICE_STORAGE_KEYS.CUSTOM_PERSONAS, JSON.stringify(incoming.settings.customPersonas)],
+        ]);
+        await writeChatArchive(incoming.chatHistory);
+        // Photos of the replaced records stay only if the snapshot holds them.
+        await deleteUnreferencedMissionPhotos();
+      }
+      await loadState();
+      return true;
+    } catch (e) {
+      console.error('Failed to import backup.', e);
+      return false;
+    }
+  };
+
+  /**
+   * Checks a new Gemini key and saves it to secure storage only if Gemini accepts it.
+   * The previous key stays in place otherwise.
+   */
+  const updateApiKey = async (newKey: string): Promise<ApiKeyCheckResult> => {
+    const endpoint = chatProviderConfig.providerId === 'gemini' && !chatProviderConfig.useProxy ? chatProviderConfig : GEMINI_DEFAULT_ENDPOINT;
+    const result = await validateGeminiApiKey(newKey, endpoint);
+    if (result !== 'valid') return result;
+    try {
+      await saveApiKey(newKey);
+      return 'valid';
+    } catch (e) {
+      console.error("Failed to update API key:", e);
+      return 'unreachable';
+    }
+  };
+
+  const actions: AppActions = {
+    unlockWithPin, unlockWithBiometrics, setAppPin, removeAppPin, setBiometricUnlock, resetForgottenPin,
+    openProfile, closeProfile, createProfile, updateProfile, deleteProfile, startDemo, restartDemo, endDemo, logUsageEvent: recordUsageEvent,
+    getUsageEvents, exportUsageEvents, clearUsageLog,
+    softReset, hardReset, restoreResetSnapshot, sendUserMessage, completeMission, deleteMissionRecord, swapDailyMission, setMissionLadder, setHaruEmotion, updateApiKey, setUseAiResponse,
+    updateChatProviderConfig, clearSafetyEvents, retryMessage, setChatRetention, loadArchivedChatDays, updateMemory, deleteMemory, clearMemories, setMemoryEnabled,
+    savePersona, deletePersona, activatePersona, previewPersona, clearQuarantine, setProgressMetric, exportBackup, importBackup,
+  };
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+  const [stableActions] = useState(() => bindLatest(actionsRef));
+
   return (
-    <AppStateContext.Provider value={{ dayCount, chatHistory, missionHistory, haruEmotion, chatCount, isAiThinking, isInitialized, useAiResponse, geminiStatus, lastGeminiError, softReset, hardReset, sendUserMessage, completeMission, setHaruEmotion, updateApiKey, setUseAiResponse }}>
-      {children}
-    </AppStateContext.Provider>
+    <LockStoreContext.Provider value={lockStore}>
+      <ProfileStoreContext.Provider value={profileStore}>
+        <SettingsStoreContext.Provider value={settingsStore}>
+          <AiStatusStoreContext.Provider value={aiStatusStore}>
+            <MissionStoreContext.Provider value={missionStore}>
+              <ChatStoreContext.Provider value={chatStore}>
+                <AppActionsContext.Provider value={stableActions}>
+                  {children}
+                </AppActionsContext.Provider>
+              </ChatStoreContext.Provider>
+            </MissionStoreContext.Provider>
+          </AiStatusStoreContext.Provider>
+        </SettingsStoreContext.Provider>
+      </ProfileStoreContext.Provider>
+    </LockStoreContext.Provider>
   );
 };
 
-export const useAppState = () => {
-  const context = useContext(AppStateContext);
+export const useAppActions = (): AppActions => {
+  const context = useContext(AppActionsContext);
   if (context === undefined) {
-    throw new Error('useAppState must be used within a AppStateProvider');
+    throw new Error('useAppActions must be used within a AppStateProvider');
   }
   return context;
-};
\ No newline at end of file
+};
+
+export const useAppState = (): AppState => {
+  const chatState = useChatStore();
+  const missionState = useMissionStore();
+  const aiStatus = useAiStatus();
+  const profileState = useProfiles();
+  const lockState = useAppLock();
+  const { customPersonas, ...settings } = useSettings();
+  const personas = usePersonas();
+  const actions = useAppActions();
+  return {
+    ...lockState,
+    ...profileState,
+    ...chatState,
+    ...missionState,
+    ...aiStatus,
+    ...settings,
+    ...actions,
+    dayCount: settings.visitProgress.visitedDays,
+    personas,
+  };
+};
@@ -0,0 +1,56 @@
+/**
+ * @file src/context/stores/aiStatusStore.ts
+ * @description Whether Haru is thinking, the reply that is streaming in and how the AI backend last responded.
+ * Kept apart from the other stores because it changes on every message, and on every chunk while a reply streams.
+ */
+import { createContext } from 'react';
+import { GeminiStatus, HaruResponse } from '../../api/haru';
+import { ReducerStore, useStoreSelector } from './reducerStore';
+
+export interface AiStatusState {
+  isAiThinking: boolean;
+  // Haru's reply while it is still streaming in; null when nothing is streaming.
+  streamingReply: Partial<HaruResponse> | null;
+  geminiStatus: GeminiStatus;
+  lastGeminiError: string;
+}
+
+export type AiStatusAction =
+  | { type: 'thinkingStarted' }
+  | { type: 'thinkingFinished' }
+  | { type: 'streamingReplyChanged'; streamingReply: Partial<HaruResponse> | null }
+  | { type: 'statusChanged'; status: GeminiStatus; error: string };
+
+export const initialAiStatusState: AiStatusState = {
+  isAiThinking: false,
+  streamingReply: null,
+  geminiStatus: 'idle',
+  lastGeminiError: '',
+};
+
+export const aiStatusReducer = (state: AiStatusState, action: AiStatusAction): AiStatusState => {
+  switch (action.type) {
+    case 'thinkingStarted':
+      return { ...state, isAiThinking: true };
+    case 'thinkingFinished':
+      return { ...state, isAiThinking: false };
+    case 'streamingReplyChanged':
+      return { ...state, streamingReply: action.streamingReply };
+    case 'statusChanged':
+      if (state.geminiStatus === action.status && state.lastGeminiError === action.error) return state;
+      return { ...state, geminiStatus: action.status, lastGeminiError: action.error };
+    default:
+      return state;
+  }
+};
+
+export const AiStatusStoreContext = createContext<ReducerStore<AiStatusState, AiStatusAction> | undefined>(undefined);
+
+const useAiStatusSelector = <T>(selector: (state: AiStatusState) => T): T => useStoreSelector(AiStatusStoreContext, 'useAiStatus', selector);
+
+export const useAiStatus = (): AiStatusState => useAiStatusSelector(state => state);
+
+export const useIsAiThinking = () => useAiStatusSelector(state => state.isAiThinking);
+export const useStreamingReply = () => useAiStatusSelector(state => state.streamingReply);
+export const useGeminiStatus = () => useAiStatusSelector(state => state.geminiStatus);
+export const useLastGeminiError = () => useAiStatusSelector(state => state.lastGeminiError);
@@ -0,0 +1,79 @@
+/**
+ * @file src/context/stores/chatStore.ts
+ * @description Chat messages and the outbox of unanswered messages.
+ */
+import { createContext } from 'react';
+import { HaruEmotion } from '../../api/haru';
+import { DeliveryStatus, OutboxEntry } from '../../api/outbox';
+import { ReducerStore, useStoreSelector } from './reducerStore';
+
+export interface ChatMessage {
+  id: string;
+  text: string;
+  sender: 'user' | 'bot';
+  timestamp: number;
+  state?: HaruEmotion;
+  // Set on Haru's fixed crisis reply, so the screens show the help line numbers with it.
+  showHelpLines?: boolean;
+  // Only set on user messages. Messages stored before this field existed count as 'sent'.
+  status?: DeliveryStatus;
+  // Extras Haru may attach to a reply: a mission to try, a guess at the student's mood and tappable replies.
+  // On a user message, userMood is the mood the student picked on EmotionChatScreen.
+  suggestedMissionId?: string;
+  userMood?: string;
+  quickReplies?: string[];
+  // Which persona preset (and which saved version of it) produced an AI reply.
+  personaId?: string;
+  personaVersion?: number;
+}
+
+export interface ChatState {
+  // The days currently in memory: the most recent ones, plus any older day a queued or retried message is on.
+  chatHistory: ChatMessage[];
+  // Every day that has messages, oldest first. Days not in chatHistory are read from the archive on demand.
+  chatDays: string[];
+  outbox: OutboxEntry[];
+  chatCount: number;
+}
+
+export type ChatAction =
+  | { type: 'loaded'; chatHistory: ChatMessage[]; chatDays: string[]; outbox: OutboxEntry[]; chatCount: number }
+  | { type: 'historyChanged'; chatHistory: ChatMessage[]; chatDays: string[] }
+  | { type: 'outboxChanged'; outbox: OutboxEntry[] }
+  | { type: 'messageCounted' }
+  | { type: 'reset' };
+
+export const initialChatState: ChatState = {
+  chatHistory: [],
+  chatDays: [],
+  outbox: [],
+  chatCount: 0,
+};
+
+export const chatReducer = (state: ChatState, action: ChatAction): ChatState => {
+  switch (action.type) {
+    case 'loaded':
+      return { ...state, chatHistory: action.chatHistory, chatDays: action.chatDays, outbox: action.outbox, chatCount: action.chatCount };
+    case 'historyChanged':
+      return { ...state, chatHistory: action.chatHistory, chatDays: action.chatDays };
+    case 'outboxChanged':
+      return { ...state, outbox: action.outbox };
+    case 'messageCounted':
+      return { ...state, chatCount: state.chatCount + 1 };
+    case 'reset':
+      return initialChatState;
+    default:
+      return state;
+  }
+};
+
+export const ChatStoreContext = createContext<ReducerStore<ChatState, ChatAction> | undefined>(undefined);
+
+const useChatSelector = <T>(selector: (state: ChatState) => T): T => useStoreSelector(ChatStoreContext, 'useChatStore', selector);
+
+export const useChatStore = (): ChatState => useChatSelector(state => state);
+
+export const useChatHistory = () => useChatSelector(state => state.chatHistory);
+export const useChatDays = () => useChatSelector(state => state.chatDays);
+export const useOutbox = () => useChatSelector(state => state.outbox);
+export const useChatCount = () => useChatSelector(state => state.chatCount);
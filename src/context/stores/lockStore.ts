@@ -0,0 +1,54 @@
+/**
+ * @file src/context/stores/lockStore.ts
+ * @description Whether the app PIN is on and whether the lock screen is showing.
+ */
+import { createContext } from 'react';
+import { ReducerStore, useStoreSelector } from './reducerStore';
+
+export interface LockState {
+  isLockLoaded: boolean;
+  isLockEnabled: boolean;
+  isLocked: boolean;
+  useBiometrics: boolean;
+  isBiometricsAvailable: boolean;
+}
+
+export type LockAction =
+  | { type: 'loaded'; isLockEnabled: boolean; useBiometrics: boolean; isBiometricsAvailable: boolean }
+  | { type: 'settingsChanged'; isLockEnabled: boolean; useBiometrics: boolean }
+  | { type: 'locked' }
+  | { type: 'unlocked' };
+
+export const initialLockState: LockState = {
+  isLockLoaded: false,
+  isLockEnabled: false,
+  // Locked until the settings are read, so nothing shows before we know whether a PIN is needed.
+  isLocked: true,
+  useBiometrics: false,
+  isBiometricsAvailable: false,
+};
+
+export const lockReducer = (state: LockState, action: LockAction): LockState => {
+  switch (action.type) {
+    case 'loaded':
+      return {
+        isLockLoaded: true,
+        isLockEnabled: action.isLockEnabled,
+        isLocked: action.isLockEnabled,
+        useBiometrics: action.useBiometrics,
+        isBiometricsAvailable: action.isBiometricsAvailable,
+      };
+    case 'settingsChanged':
+      return { ...state, isLockEnabled: action.isLockEnabled, useBiometrics: action.useBiometrics };
+    case 'locked':
+      return state.isLockEnabled ? { ...state, isLocked: true } : state;
+    case 'unlocked':
+      return { ...state, isLocked: false };
+    default:
+      return state;
+  }
+};
+
+export const LockStoreContext = createContext<ReducerStore<LockState, LockAction> | undefined>(undefined);
+
+export const useAppLock = (): LockState => useStoreSelector(LockStoreContext, 'useAppLock', state => state);
@@ -0,0 +1,71 @@
+/**
+ * @file src/context/stores/missionStore.ts
+ * @description The student's completed missions, newest first, and today's mission.
+ */
+import { createContext, useMemo } from 'react';
+import { DailyMission } from '../../api/dailyMission';
+import { LadderProgress, getLadderProgress } from '../../api/missionLadder';
+import { useMissionLadder } from './settingsStore';
+import { ReducerStore, useStoreSelector } from './reducerStore';
+
+export interface CompletedMission {
+  id: string;
+  // Missing on records whose mission name no longer matches any mission.
+  missionId?: string;
+  missionName: string;
+  date: string;
+  // Both are paths under the document directory, into the profile's mission photo folder (see resolveMissionPhotoUri).
+  // Records made before photos were copied there keep the image picker's uri.
+  photoUri?: string;
+  thumbnailUri?: string;
+}
+
+export interface MissionState {
+  missionHistory: CompletedMission[];
+  dailyMission: DailyMission | null;
+}
+
+export type MissionAction =
+  | { type: 'loaded'; missionHistory: CompletedMission[] }
+  | { type: 'missionCompleted'; mission: CompletedMission }
+  | { type: 'missionDeleted'; id: string }
+  | { type: 'dailyMissionChanged'; dailyMission: DailyMission }
+  | { type: 'reset' };
+
+export const initialMissionState: MissionState = {
+  missionHistory: [],
+  dailyMission: null,
+};
+
+export const missionReducer = (state: MissionState, action: MissionAction): MissionState => {
+  switch (action.type) {
+    case 'loaded':
+      return { ...state, missionHistory: action.missionHistory };
+    case 'missionCompleted':
+      return { ...state, missionHistory: [action.mission, ...state.missionHistory] };
+    case 'missionDeleted':
+      return { ...state, missionHistory: state.missionHistory.filter(mission => mission.id !== action.id) };
+    case 'dailyMissionChanged':
+      return { ...state, dailyMission: action.dailyMission };
+    case 'reset':
+      return initialMissionState;
+    default:
+      return state;
+  }
+};
+
+export const MissionStoreContext = createContext<ReducerStore<MissionState, MissionAction> | undefined>(undefined);
+
+const useMissionSelector = <T>(selector: (state: MissionState) => T): T => useStoreSelector(MissionStoreContext, 'useMissionStore', selector);
+
+export const useMissionStore = (): MissionState => useMissionSelector(state => state);
+
+export const useMissionHistory = () => useMissionSelector(state => state.missionHistory);
+export const useDailyMission = () => useMissionSelector(state => state.dailyMission);
+
+// Which stages of the mission ladder the student has reached.
+export const useLadderProgress = (): LadderProgress => {
+  const missionHistory = useMissionHistory();
+  const missionLadder = useMissionLadder();
+  return useMemo(() => getLadderProgress(missionHistory, missionLadder), [missionHistory, missionLadder]);
+};
@@ -0,0 +1,62 @@
+/**
+ * @file src/context/stores/profileStore.ts
+ * @description The student profiles on this device and which one is open.
+ */
+import { createContext } from 'react';
+import { StudentProfile } from '../../api/profiles';
+import { DemoScenario, DEMO_PROFILE_ID } from '../../api/demoScenario';
+import { ReducerStore, useStoreSelector } from './reducerStore';
+
+export interface ProfileState {
+  profiles: StudentProfile[];
+  // Null while the profile picker is showing.
+  activeProfileId: string | null;
+  isProfilesLoaded: boolean;
+  // Set while a demo scenario is playing in the sandbox profile.
+  demoScenario: DemoScenario | null;
+}
+
+export type ProfileAction =
+  | { type: 'loaded'; profiles: StudentProfile[] }
+  | { type: 'profilesChanged'; profiles: StudentProfile[] }
+  | { type: 'profileOpened'; id: string }
+  | { type: 'profileClosed' }
+  | { type: 'demoStarted'; scenario: DemoScenario };
+
+export const initialProfileState: ProfileState = {
+  profiles: [],
+  activeProfileId: null,
+  isProfilesLoaded: false,
+  demoScenario: null,
+};
+
+export const profileReducer = (state: ProfileState, action: ProfileAction): ProfileState => {
+  switch (action.type) {
+    case 'loaded':
+      return { ...state, profiles: action.profiles, isProfilesLoaded: true };
+    case 'profilesChanged':
+      return { ...state, profiles: action.profiles };
+    case 'profileOpened':
+      return { ...state, activeProfileId: action.id, demoScenario: null };
+    case 'profileClosed':
+      return { ...state, activeProfileId: null, demoScenario: null };
+    case 'demoStarted':
+      return { ...state, activeProfileId: DEMO_PROFILE_ID, demoScenario: action.scenario };
+    default:
+      return state;
+  }
+};
+
+export const ProfileStoreContext = createContext<ReducerStore<ProfileState, ProfileAction> | undefined>(undefined);
+
+const useProfileSelector = <T>(selector: (state: ProfileState) => T): T => useStoreSelector(ProfileStoreContext, 'useProfiles', selector);
+
+export const useProfiles = (): ProfileState => useProfileSelector(state => state);
+
+export const useDemoScenario = (): DemoScenario | null => useProfileSelector(state => state.demoScenario);
+
+export const useActiveProfile = (): StudentProfile | undefined => {
+  const profiles = useProfileSelector(state => state.profiles);
+  const activeProfileId = useProfileSelector(state => state.activeProfileId);
+  return profiles.find(profile => profile.id === activeProfileId);
+};
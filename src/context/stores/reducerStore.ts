@@ -0,0 +1,57 @@
+/**
+ * @file src/context/stores/reducerStore.ts
+ * @description A reducer whose state lives outside React, so components can subscribe to just the part they read.
+ * The store contexts hold the store itself, which never changes, instead of its state; a component re-renders only
+ * when the value its selector returns changes.
+ */
+import { Context, useContext, useState, useSyncExternalStore } from 'react';
+
+export interface ReducerStore<S, A> {
+  getState: () => S;
+  dispatch: (action: A) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const createReducerStore = <S, A>(reducer: (state: S, action: A) => S, initialState: S): ReducerStore<S, A> => {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+  return {
+    getState: () => state,
+    dispatch: (action: A) => {
+      const next = reducer(state, action);
+      if (next === state) return;
+      state = next;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+/**
+ * Like useReducer, but also returns the store for a store context. The calling component re-renders on every change,
+ * which the provider needs so its actions see the latest state.
+ */
+export const useReducerStore = <S, A>(reducer: (state: S, action: A) => S, createInitialState: () => S) => {
+  const [store] = useState(() => createReducerStore(reducer, createInitialState()));
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+  return [state, store.dispatch, store] as const;
+};
+
+/**
+ * Reads part of a store's state. The selector must return something already in the state (or a primitive),
+ * not a new object, or the component re-renders on every change of the store.
+ */
+export const useStoreSelector = <S, A, T>(
+  context: Context<ReducerStore<S, A> | undefined>,
+  hookName: string,
+  selector: (state: S) => T,
+): T => {
+  const store = useContext(context);
+  if (store === undefined) {
+    throw new Error(`${hookName} must be used within a AppStateProvider`);
+  }
+  return useSyncExternalStore(store.subscribe, () => selector(store.getState()));
+};
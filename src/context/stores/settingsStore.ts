@@ -0,0 +1,157 @@
+/**
+ * @file src/context/stores/settingsStore.ts
+ * @description Visit progress, Haru's look and persona, memories and the admin settings.
+ */
+import { createContext, useMemo } from 'react';
+import { HaruEmotion } from '../../api/haru';
+import { SafetyEvent } from '../../api/safety';
+import { MemoryItem } from '../../api/memory';
+import { QuarantinedRecord } from '../../api/storage';
+import { getAllPersonas } from '../../api/persona';
+import { ChatProviderConfig, DEFAULT_CHAT_PROVIDER_CONFIG } from '../../api/chatProvider';
+import { ChatRetention, DEFAULT_CHAT_RETENTION } from '../../api/chatArchive';
+import { ResetSnapshotSummary } from '../../api/resetSnapshots';
+import { MissionLadderSettings, DEFAULT_MISSION_LADDER } from '../../api/missionLadder';
+import { VisitProgress, ProgressMetric, DEFAULT_PROGRESS_METRIC, createVisitProgress, getLocalDateString } from '../../api/progress';
+import { PersonaPreset, DEFAULT_PERSONA_ID } from '../../constants/personas';
+import { ReducerStore, useStoreSelector } from './reducerStore';
+
+export const DEFAULT_EMOTION: HaruEmotion = 'neutral';
+
+export interface SettingsState {
+  isInitialized: boolean;
+  visitProgress: VisitProgress;
+  // Which number the HomeScreen badge shows.
+  progressMetric: ProgressMetric;
+  // Days skipped before today's visit; 0 unless the student came back after a break.
+  missedDaysOnReturn: number;
+  haruEmotion: HaruEmotion;
+  useAiResponse: boolean;
+  chatProviderConfig: ChatProviderConfig;
+  chatRetention: ChatRetention;
+  missionLadder: MissionLadderSettings;
+  safetyEvents: SafetyEvent[];
+  memories: MemoryItem[];
+  memoryEnabled: boolean;
+  customPersonas: PersonaPreset[];
+  activePersonaId: string;
+  // Stored data that failed validation on load, newest first.
+  quarantinedRecords: QuarantinedRecord[];
+  // Copies of the data taken before each reset, newest first.
+  resetSnapshots: ResetSnapshotSummary[];
+}
+
+export type SettingsAction =
+  | { type: 'loaded'; settings: Partial<SettingsState> }
+  | { type: 'initialized' }
+  | { type: 'visitRecorded'; progress: VisitProgress; missedDays: number }
+  | { type: 'progressMetricChanged'; metric: ProgressMetric }
+  | { type: 'haruEmotionChanged'; emotion: HaruEmotion }
+  | { type: 'useAiResponseChanged'; useAiResponse: boolean }
+  | { type: 'chatProviderChanged'; config: ChatProviderConfig }
+  | { type: 'chatRetentionChanged'; retention: ChatRetention }
+  | { type: 'missionLadderChanged'; settings: MissionLadderSettings }
+  | { type: 'safetyEventsChanged'; events: SafetyEvent[] }
+  | { type: 'memoriesChanged'; memories: MemoryItem[] }
+  | { type: 'memoryEnabledChanged'; enabled: boolean }
+  | { type: 'personasChanged'; customPersonas: PersonaPreset[] }
+  | { type: 'activePersonaChanged'; id: string }
+  | { type: 'quarantineChanged'; records: QuarantinedRecord[] }
+  | { type: 'resetSnapshotsChanged'; snapshots: ResetSnapshotSummary[] }
+  | { type: 'reset' };
+
+export const createInitialSettingsState = (): SettingsState => ({
+  isInitialized: false,
+  visitProgress: createVisitProgress(getLocalDateString()),
+  progressMetric: DEFAULT_PROGRESS_METRIC,
+  missedDaysOnReturn: 0,
+  haruEmotion: DEFAULT_EMOTION,
+  useAiResponse: true,
+  chatProviderConfig: DEFAULT_CHAT_PROVIDER_CONFIG,
+  chatRetention: DEFAULT_CHAT_RETENTION,
+  missionLadder: DEFAULT_MISSION_LADDER,
+  safetyEvents: [],
+  memories: [],
+  memoryEnabled: true,
+  customPersonas: [],
+  activePersonaId: DEFAULT_PERSONA_ID,
+  quarantinedRecords: [],
+  resetSnapshots: [],
+});
+
+export const settingsReducer = (state: SettingsState, action: SettingsAction): SettingsState => {
+  switch (action.type) {
+    case 'loaded':
+      return { ...state, ...action.settings };
+    case 'initialized':
+      return { ...state, isInitialized: true };
+    case 'visitRecorded':
+      return { ...state, visitProgress: action.progress, missedDaysOnReturn: action.missedDays };
+    case 'progressMetricChanged':
+      return { ...state, progressMetric: action.metric };
+    case 'haruEmotionChanged':
+      return { ...state, haruEmotion: action.emotion };
+    case 'useAiResponseChanged':
+      return { ...state, useAiResponse: action.useAiResponse };
+    case 'chatProviderChanged':
+      return { ...state, chatProviderConfig: action.config };
+    case 'chatRetentionChanged':
+      return { ...state, chatRetention: action.retention };
+    case 'missionLadderChanged':
+      return { ...state, missionLadder: action.settings };
+    case 'safetyEventsChanged':
+      return { ...state, safetyEvents: action.events };
+    case 'memoriesChanged':
+      return { ...state, memories: action.memories };
+    case 'memoryEnabledChanged':
+      return { ...state, memoryEnabled: action.enabled };
+    case 'personasChanged':
+      return { ...state, customPersonas: action.customPersonas };
+    case 'activePersonaChanged':
+      return { ...state, activePersonaId: action.id };
+    case 'quarantineChanged':
+      return { ...state, quarantinedRecords: action.records };
+    case 'resetSnapshotsChanged':
+      return { ...state, resetSnapshots: action.snapshots };
+    case 'reset':
+      // A reset happens while the app is running, so it stays initialized. Its snapshots are what make it undoable.
+      return { ...createInitialSettingsState(), isInitialized: true, resetSnapshots: state.resetSnapshots };
+    default:
+      return state;
+  }
+};
+
+export const SettingsStoreContext = createContext<ReducerStore<SettingsState, SettingsAction> | undefined>(undefined);
+
+const useSettingsSelector = <T>(selector: (state: SettingsState) => T): T => useStoreSelector(SettingsStoreContext, 'useSettings', selector);
+
+// Re-renders on every settings change, including each safety event and usage log write. Only for the useAppState
+// facade; components use the hooks below.
+export const useSettings = (): SettingsState => useSettingsSelector(state => state);
+
+export const useIsInitialized = () => useSettingsSelector(state => state.isInitialized);
+export const useUseAiResponse = () => useSettingsSelector(state => state.useAiResponse);
+export const useChatProviderConfig = () => useSettingsSelector(state => state.chatProviderConfig);
+export const useChatRetention = () => useSettingsSelector(state => state.chatRetention);
+export const useSafetyEvents = () => useSettingsSelector(state => state.safetyEvents);
+export const useMemories = () => useSettingsSelector(state => state.memories);
+export const useMemoryEnabled = () => useSettingsSelector(state => state.memoryEnabled);
+export const useActivePersonaId = () => useSettingsSelector(state => state.activePersonaId);
+export const useQuarantinedRecords = () => useSettingsSelector(state => state.quarantinedRecords);
+export const useResetSnapshots = () => useSettingsSelector(state => state.resetSnapshots);
+
+export const useVisitProgress = () => {
+  const visitProgress = useSettingsSelector(state => state.visitProgress);
+  const progressMetric = useSettingsSelector(state => state.progressMetric);
+  const missedDaysOnReturn = useSettingsSelector(state => state.missedDaysOnReturn);
+  return { visitProgress, progressMetric, missedDaysOnReturn };
+};
+
+export const useHaruEmotion = () => useSettingsSelector(state => state.haruEmotion);
+export const useMissionLadder = () => useSettingsSelector(state => state.missionLadder);
+
+// Built-in presets followed by the admin-made ones.
+export const usePersonas = (): PersonaPreset[] => {
+  const customPersonas = useSettingsSelector(state => state.customPersonas);
+  return useMemo(() => getAllPersonas(customPersonas), [customPersonas]);
+};
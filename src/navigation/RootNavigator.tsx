@@ -1,5 +1,5 @@
-import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useRef } from 'react';
+import { NavigationContainer, useNavigationContainerRef } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 
 import HomeScreen from '../screens/HomeScreen';
@@ -11,36 +11,68 @@ import ChatHistoryScreen from '../screens/ChatHistoryScreen';
 import MarkerMissionScreen from '../screens/MarkerMissionScreen';
 import AdminScreen from '../screens/AdminScreen';
 import DiaryScreen from '../screens/DiaryScreen';
+import MemoryScreen from '../screens/MemoryScreen';
+import MissionHistoryScreen from '../screens/MissionHistoryScreen';
+import ProfilePickerScreen from '../screens/ProfilePickerScreen';
+import { useProfiles } from '../context/stores/profileStore';
+import AppLockOverlay from '../components/AppLockOverlay';
+import { useAppActions } from '../context/AppStateContext';
 
 export type RootStackParamList = {
   HomeScreen: undefined;
   EmotionChatScreen: undefined;
-  RoomMissionScreen: undefined;
+  RoomMissionScreen: { missionId?: string } | undefined;
   ReportScreen: undefined;
   GpsDemoScreen: undefined;
   ChatHistoryScreen: undefined;
   MarkerMissionScreen: { id: string; title: string; };
   AdminScreen: undefined;
   DiaryScreen: undefined;
+  MemoryScreen: undefined;
+  MissionHistoryScreen: undefined;
+  ProfilePickerScreen: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
 const RootNavigator = () => {
+  const { activeProfileId } = useProfiles();
+  const { logUsageEvent } = useAppActions();
+  const navigationRef = useNavigationContainerRef<RootStackParamList>();
+  const routeNameRef = useRef<string | undefined>(undefined);
+
+  const handleRouteChange = () => {
+    const routeName = navigationRef.getCurrentRoute()?.name;
+    if (routeName && routeName !== routeNameRef.current) logUsageEvent('screen_view', routeName);
+    routeNameRef.current = routeName;
+  };
+
+  // Until a profile is open only the picker exists, so no screen can read or write another student's data.
   return (
-    <NavigationContainer>
-      <Stack.Navigator screenOptions={{ headerShown: false }}>
-        <Stack.Screen name="HomeScreen" component={HomeScreen} />
-        <Stack.Screen name="EmotionChatScreen" component={EmotionChatScreen} />
-        <Stack.Screen name="RoomMissionScreen" component={RoomMissionScreen} />
-        <Stack.Screen name="ReportScreen" component={ReportScreen} />
-        <Stack.Screen name="GpsDemoScreen" component={GpsDemoScreen} />
-        <Stack.Screen name="ChatHistoryScreen" component={ChatHistoryScreen} />
-        <Stack.Screen name="MarkerMissionScreen" component={MarkerMissionScreen} />
-        <Stack.Screen name="AdminScreen" component={AdminScreen} />
-        <Stack.Screen name="DiaryScreen" component={DiaryScreen} />
-      </Stack.Navigator>
-    </NavigationContainer>
+    <>
+      <NavigationContainer ref={navigationRef} onReady={handleRouteChange} onStateChange={handleRouteChange}>
+        <Stack.Navigator screenOptions={{ headerShown: false }}>
+          {activeProfileId === null ? (
+            <Stack.Screen name="ProfilePickerScreen" component={ProfilePickerScreen} />
+          ) : (
+            <>
+              <Stack.Screen name="HomeScreen" component={HomeScreen} />
+              <Stack.Screen name="EmotionChatScreen" component={EmotionChatScreen} />
+              <Stack.Screen name="RoomMissionScreen" component={RoomMissionScreen} />
+              <Stack.Screen name="ReportScreen" component={ReportScreen} />
+              <Stack.Screen name="GpsDemoScreen" component={GpsDemoScreen} />
+              <Stack.Screen name="ChatHistoryScreen" component={ChatHistoryScreen} />
+              <Stack.Screen name="MarkerMissionScreen" component={MarkerMissionScreen} />
+              <Stack.Screen name="AdminScreen" component={AdminScreen} />
+              <Stack.Screen name="DiaryScreen" component={DiaryScreen} />
+              <Stack.Screen name="MemoryScreen" component={MemoryScreen} />
+              <Stack.Screen name="MissionHistoryScreen" component={MissionHistoryScreen} />
+            </>
+          )}
+        </Stack.Navigator>
+      </NavigationContainer>
+      <AppLockOverlay />
+    </>
   );
 };
 
@@ -1,10 +1,43 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { StyleSheet, Text, View, SafeAreaView, ScrollView, TouchableOpacity, Alert, TextInput, ActivityIndicator, Linking, Switch } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/RootNavigator';
 import { COLORS } from '../constants/colors';
-import { useAppState } from '../context/AppStateContext';
+import { useAppActions } from '../context/AppStateContext';
+import { useGeminiStatus, useLastGeminiError, useIsAiThinking } from '../context/stores/aiStatusStore';
+import {
+  useVisitProgress,
+  useHaruEmotion,
+  useIsInitialized,
+  useUseAiResponse,
+  useChatProviderConfig,
+  useChatRetention,
+  useMissionLadder,
+  useSafetyEvents,
+  useQuarantinedRecords,
+  useResetSnapshots,
+} from '../context/stores/settingsStore';
 import { HaruEmotion, GeminiStatus } from '../api/gemini';
+import { CHAT_PROVIDERS, ChatProviderId } from '../api/chatProvider';
+import { HISTORY_TURN_OPTIONS, HISTORY_CHAR_OPTIONS } from '../api/haru';
+import { SafetyCategory } from '../constants/safety';
+import PersonaManager from '../components/PersonaManager';
+import { PROGRESS_METRICS, PROGRESS_METRIC_LABELS, getLocalDateString, getProgressValue } from '../api/progress';
+import { BackupArchive, BackupImportMode, pickBackupFile, parseBackupArchive, summarizeBackup } from '../api/backup';
+import { ChatRetention, CHAT_RETENTION_OPTIONS, getChatRetentionLabel, getExpiredChatDays } from '../api/chatArchive';
+import { useChatDays } from '../context/stores/chatStore';
+import { RESET_SNAPSHOT_REASON_LABELS, MAX_RESET_SNAPSHOTS } from '../api/resetSnapshots';
+import { useProfiles, useDemoScenario } from '../context/stores/profileStore';
+import { StudentProfile, getProfileInitial } from '../api/profiles';
+import ProfileEditor from '../components/ProfileEditor';
+import { useAppLock } from '../context/stores/lockStore';
+import { PIN_LENGTH, isValidPin } from '../api/appLock';
+import { DemoScenario, parseDemoScenario, pickDemoScenarioFile } from '../api/demoScenario';
+import { BUILT_IN_DEMO_SCENARIO } from '../constants/demoScenario';
+import { MissionLadderSettings } from '../api/missionLadder';
+import { MISSION_STAGES } from '../constants/missions';
+import { useLadderProgress } from '../context/stores/missionStore';
+import { UsageEvent, UsageEventType, USAGE_EVENT_TYPES, USAGE_EVENT_LABELS, MAX_USAGE_EVENTS } from '../api/usageLog';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'AdminScreen'>;
 
@@ -25,7 +58,8 @@ const statusInfo: { [key in GeminiStatus]: { text: string; color: string; descri
 };
 
 const GeminiStatusPanel = () => {
-    const { geminiStatus, lastGeminiError } = useAppState();
+    const geminiStatus = useGeminiStatus();
+    const lastGeminiError = useLastGeminiError();
     const { text, color, description } = statusInfo[geminiStatus] || statusInfo.idle;
 
     return (
@@ -46,17 +80,827 @@ const GeminiStatusPanel = () => {
 };
 
 
+const safetyCategoryLabels: { [key in SafetyCategory]: string } = {
+    suicide: '자살 위험',
+    self_harm: '자해',
+    abuse: '폭력/학대',
+    harmful_output: 'AI 답변 차단',
+};
+
+const SafetyEventsSection = ({ disabled }: { disabled: boolean }) => {
+    const safetyEvents = useSafetyEvents();
+    const { clearSafetyEvents } = useAppActions();
+
+    const handleClear = () => {
+        Alert.alert(
+            "안전 알림 기록 삭제",
+            "안전 알림 기록을 모두 삭제할까요?",
+            [
+                { text: "취소", style: "cancel" },
+                { text: "삭제", onPress: () => clearSafetyEvents(), style: "destructive" }
+            ]
+        );
+    };
+
+    if (safetyEvents.length === 0) {
+        return <Text style={styles.descriptionText}>아직 감지된 위험 신호가 없어요.</Text>;
+    }
+
+    return (
+        <>
+            <Text style={styles.descriptionText}>
+                학생이 위험한 표현을 쓰면 하루는 AI 대신 정해진 안내 문구와 상담전화(109, 1388)를 보여줍니다.
+            </Text>
+            {safetyEvents.map(event => (
+                <View key={event.id} style={styles.safetyEventRow}>
+                    <Text style={styles.safetyEventHeader}>
+                        {new Date(event.timestamp).toLocaleString()} · {event.source === 'user' ? '학생 메시지' : 'AI 답변'} · {safetyCategoryLabels[event.category]} ({event.label})
+                    </Text>
+                    <Text style={styles.safetyEventExcerpt}>"{event.excerpt}"</Text>
+                </View>
+            ))}
+            <TouchableOpacity style={[styles.button, styles.buttonSoft, { marginTop: 10 }, disabled && styles.buttonDisabled]} onPress={handleClear} disabled={disabled}>
+                <Text style={styles.buttonText}>기록 삭제</Text>
+            </TouchableOpacity>
+        </>
+    );
+};
+
+const QuarantineSection = ({ disabled }: { disabled: boolean }) => {
+    const quarantinedRecords = useQuarantinedRecords();
+    const { clearQuarantine } = useAppActions();
+
+    const handleClear = () => {
+        Alert.alert(
+            "손상된 데이터 삭제",
+            "따로 보관해 둔 손상된 데이터를 모두 삭제할까요? 삭제하면 복구할 수 없습니다.",
+            [
+                { text: "취소", style: "cancel" },
+                { text: "삭제", onPress: () => clearQuarantine(), style: "destructive" }
+            ]
+        );
+    };
+
+    return (
+        <>
+            <Text style={styles.descriptionText}>
+                앱을 켤 때 읽을 수 없었던 데이터입니다. 나머지 기록은 그대로 불러왔고, 이 항목들은 지우지 않고 따로 보관해 두었어요.
+            </Text>
+            {quarantinedRecords.map((record, index) => (
+                <View key={`${record.quarantinedAt}-${index}`} style={[styles.safetyEventRow, styles.quarantineRow]}>
+                    <Text style={styles.safetyEventHeader}>
+                        {new Date(record.quarantinedAt).toLocaleString()} · {record.key} · {record.reason}
+                    </Text>
+                    <Text style={styles.safetyEventExcerpt} numberOfLines={2}>{record.raw}</Text>
+                </View>
+            ))}
+            <TouchableOpacity style={[styles.button, styles.buttonSoft, { marginTop: 10 }, disabled && styles.buttonDisabled]} onPress={handleClear} disabled={disabled}>
+                <Text style={styles.buttonText}>보관된 데이터 삭제</Text>
+            </TouchableOpacity>
+        </>
+    );
+};
+
+const ProgressSection = ({ disabled }: { disabled: boolean }) => {
+    const { visitProgress, progressMetric } = useVisitProgress();
+    const { setProgressMetric } = useAppActions();
+    const today = getLocalDateString();
+
+    return (
+        <>
+            <Text style={styles.descriptionText}>
+                처음 만난 날: {visitProgress.firstVisitDate} · 마지막으로 만난 날: {visitProgress.lastVisitDate}
+            </Text>
+            <Text style={styles.descriptionText}>홈 화면 배지에 보여줄 숫자를 고르세요. 하루를 건너뛰어도 연속 기록은 이어집니다.</Text>
+            <View style={styles.emotionSelectorContainer}>
+              {PROGRESS_METRICS.map((metric) => (
+                <TouchableOpacity
+                  key={metric}
+                  style={[styles.emotionButton, progressMetric === metric && styles.emotionButtonActive, disabled && styles.buttonDisabled]}
+                  onPress={() => setProgressMetric(metric)}
+                  disabled={disabled}
+                >
+                  <Text style={[styles.emotionButtonText, progressMetric === metric && styles.emotionButtonTextActive]}>
+                    {PROGRESS_METRIC_LABELS[metric]} ({getProgressValue(visitProgress, metric, today)})
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+        </>
+    );
+};
+
+const ProfileSection = ({ disabled }: { disabled: boolean }) => {
+    const { profiles, activeProfileId } = useProfiles();
+    const { createProfile, updateProfile, deleteProfile, closeProfile } = useAppActions();
+    // The id of the profile being renamed, or 'new' while adding one.
+    const [editingId, setEditingId] = useState<string | null>(null);
+
+    const handleDelete = (profile: StudentProfile) => {
+        Alert.alert(
+            "프로필 삭제",
+            `'${profile.nickname}' 학생의 대화, 미션, 기억이 모두 삭제됩니다. 삭제하면 되돌릴 수 없어요. 정말 삭제할까요?`,
+            [
+                { text: "취소", style: "cancel" },
+                {
+                    text: "삭제",
+                    onPress: async () => {
+                        if (!(await deleteProfile(profile.id))) Alert.alert("실패", "프로필을 삭제하지 못했습니다.");
+                    },
+                    style: "destructive",
+                },
+            ]
+        );
+    };
+
+    return (
+        <>
+            <Text style={styles.descriptionText}>
+                학생마다 대화와 미션 기록이 따로 저장됩니다. 대화 엔진, AI 응답 설정, 페르소나는 모든 학생이 함께 씁니다.
+            </Text>
+            {profiles.map(profile => (
+                editingId === profile.id ? (
+                    <ProfileEditor
+                        key={profile.id}
+                        initialNickname={profile.nickname}
+                        initialAvatar={profile.avatar}
+                        saveLabel="저장"
+                        onCancel={() => setEditingId(null)}
+                        onSave={async (nickname, avatar) => {
+                            await updateProfile(profile.id, nickname, avatar);
+                            setEditingId(null);
+                        }}
+                    />
+                ) : (
+                    <View key={profile.id} style={styles.snapshotRow}>
+                        <View style={{ flex: 1 }}>
+                            <Text style={styles.snapshotTitle}>
+                                {getProfileInitial(profile)} {profile.nickname}{profile.id === activeProfileId ? ' (지금 사용 중)' : ''}
+                            </Text>
+                            <Text style={styles.descriptionText}>{new Date(profile.createdAt).toLocaleDateString()}에 만듦</Text>
+                        </View>
+                        <TouchableOpacity style={[styles.button, styles.buttonSoft, disabled && styles.buttonDisabled]} onPress={() => setEditingId(profile.id)} disabled={disabled}>
+                            <Text style={styles.buttonText}>수정</Text>
+                        </TouchableOpacity>
+                        {profile.id !== activeProfileId && (
+                            <TouchableOpacity style={[styles.button, styles.buttonHard, { marginLeft: 8 }, disabled && styles.buttonDisabled]} onPress={() => handleDelete(profile)} disabled={disabled}>
+                                <Text style={styles.buttonText}>삭제</Text>
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                )
+            ))}
+            {editingId === 'new' ? (
+                <ProfileEditor
+                    saveLabel="추가"
+                    onCancel={() => setEditingId(null)}
+                    onSave={async (nickname, avatar) => {
+                        await createProfile(nickname, avatar);
+                        setEditingId(null);
+                    }}
+                />
+            ) : (
+                <TouchableOpacity style={[styles.button, { marginTop: 10 }, disabled && styles.buttonDisabled]} onPress={() => setEditingId('new')} disabled={disabled}>
+                    <Text style={styles.buttonText}>학생 추가</Text>
+                </TouchableOpacity>
+            )}
+            <TouchableOpacity style={[styles.button, styles.buttonSoft, disabled && styles.buttonDisabled]} onPress={closeProfile} disabled={disabled}>
+                <Text style={styles.buttonText}>다른 학생으로 바꾸기</Text>
+            </TouchableOpacity>
+        </>
+    );
+};
+
+// Only the newest events are drawn; the CSV export always has all of them.
+const VISIBLE_USAGE_EVENTS = 50;
+
+const UsageLogSection = ({ disabled }: { disabled: boolean }) => {
+    const { getUsageEvents, exportUsageEvents, clearUsageLog } = useAppActions();
+    const [events, setEvents] = useState<UsageEvent[]>([]);
+    const [filter, setFilter] = useState<UsageEventType | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+
+    const refresh = async () => setEvents(await getUsageEvents());
+
+    useEffect(() => { refresh(); }, []);
+
+    const filteredEvents = filter ? events.filter(event => event.type === filter) : events;
+
+    const handleExport = async () => {
+        setIsWorking(true);
+        const success = await exportUsageEvents(filteredEvents);
+        setIsWorking(false);
+        if (!success) Alert.alert("실패", "CSV 파일을 만들지 못했습니다.");
+    };
+
+    const handleClear = () => {
+        Alert.alert(
+            "사용 기록 삭제",
+            "이 학생의 사용 기록을 모두 삭제할까요? 삭제하면 복구할 수 없습니다.",
+            [
+                { text: "취소", style: "cancel" },
+                {
+                    text: "삭제",
+                    style: "destructive",
+                    onPress: async () => {
+                        await clearUsageLog();
+                        await refresh();
+                    },
+                },
+            ]
+        );
+    };
+
+    const isDisabled = disabled || isWorking;
+
+    return (
+        <>
+            <Text style={styles.descriptionText}>
+                화면 이동, 메시지 수, AI 상태, 미션, 일기 보기를 이 기기에만 기록합니다. 대화 내용은 기록하지 않아요. 최근 {MAX_USAGE_EVENTS}개까지 보관됩니다.
+            </Text>
+            <View style={styles.emotionSelectorContainer}>
+              {[null, ...USAGE_EVENT_TYPES].map(type => (
+                <TouchableOpacity
+                  key={type ?? 'all'}
+                  style={[styles.emotionButton, filter === type && styles.emotionButtonActive]}
+                  onPress={() => setFilter(type)}
+                >
+                  <Text style={[styles.emotionButtonText, filter === type && styles.emotionButtonTextActive]}>
+                    {type ? USAGE_EVENT_LABELS[type] : '전체'} ({type ? events.filter(event => event.type === type).length : events.length})
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {filteredEvents.length === 0 ? (
+                <Text style={styles.descriptionText}>아직 기록이 없어요.</Text>
+            ) : (
+                filteredEvents.slice(-VISIBLE_USAGE_EVENTS).reverse().map(event => (
+                    <View key={event.id} style={styles.snapshotRow}>
+                        <Text style={[styles.safetyEventHeader, { flex: 1 }]}>{new Date(event.timestamp).toLocaleString()}</Text>
+                        <Text style={[styles.snapshotTitle, { flex: 1 }]}>{USAGE_EVENT_LABELS[event.type]}</Text>
+                        <Text style={[styles.safetyEventExcerpt, { flex: 2 }]}>{event.detail ?? ''}</Text>
+                    </View>
+                ))
+            )}
+            <TouchableOpacity style={[styles.button, { marginTop: 10 }, isDisabled && styles.buttonDisabled]} onPress={refresh} disabled={isDisabled}>
+                <Text style={styles.buttonText}>새로고침</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, (isDisabled || filteredEvents.length === 0) && styles.buttonDisabled]} onPress={handleExport} disabled={isDisabled || filteredEvents.length === 0}>
+                {isWorking ? <ActivityIndicator color={COLORS.white} /> : <Text style={styles.buttonText}>CSV로 내보내기 ({filteredEvents.length}개)</Text>}
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.buttonSoft, isDisabled && styles.buttonDisabled]} onPress={handleClear} disabled={isDisabled}>
+                <Text style={styles.buttonText}>기록 삭제</Text>
+            </TouchableOpacity>
+        </>
+    );
+};
+
+const DemoSection = ({ disabled }: { disabled: boolean }) => {
+    const demoScenario = useDemoScenario();
+    const { startDemo, restartDemo, endDemo } = useAppActions();
+    const [isLoading, setIsLoading] = useState(false);
+
+    const runDemoAction = async (action: () => Promise<void>) => {
+        setIsLoading(true);
+        try {
+            await action();
+        } catch (e) {
+            console.error('Demo action failed.', e);
+            Alert.alert("실패", "시연 모드를 준비하지 못했습니다.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const confirmStart = (scenario: DemoScenario) => {
+        Alert.alert(
+            "시연 모드 시작",
+            `'${scenario.title}' 시나리오를 시작할까요?\n만난 날 ${scenario.dayCount}일 · 대본 ${scenario.steps.length}단계 · 완료한 미션 ${scenario.completedMissions.length}개\n학생 기록은 건드리지 않고, 끝내면 지금 학생으로 돌아옵니다.`,
+            [
+                { text: "취소", style: "cancel" },
+                { text: "시작", onPress: () => runDemoAction(() => startDemo(scenario)) },
+            ]
+        );
+    };
+
+    const handleLoadFile = async () => {
+        let raw: string | null;
+        try {
+            raw = await pickDemoScenarioFile();
+        } catch (e) {
+            console.error('Failed to read scenario file.', e);
+            Alert.alert("실패", "파일을 읽지 못했습니다.");
+            return;
+        }
+        if (raw === null) return;
+        const scenario = parseDemoScenario(raw);
+        if (!scenario) {
+            Alert.alert("실패", "하루살이 시연 시나리오 파일이 아니거나, 대본이 비어 있습니다.");
+            return;
+        }
+        confirmStart(scenario);
+    };
+
+    const isDisabled = disabled || isLoading;
+
+    if (demoScenario) {
+        return (
+            <>
+                <Text style={styles.descriptionText}>
+                    '{demoScenario.title}' 시연 중입니다. 하루는 대본대로만 대답하고 인터넷을 쓰지 않아요. 시연 중에는 다른 관리자 기능이 잠겨 있습니다.
+                </Text>
+                <TouchableOpacity style={[styles.button, isDisabled && styles.buttonDisabled]} onPress={() => runDemoAction(restartDemo)} disabled={isDisabled}>
+                    <Text style={styles.buttonText}>처음부터 다시</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.button, styles.buttonSoft, isDisabled && styles.buttonDisabled]} onPress={() => runDemoAction(endDemo)} disabled={isDisabled}>
+                    <Text style={styles.buttonText}>시연 끝내기</Text>
+                </TouchableOpacity>
+            </>
+        );
+    }
+
+    return (
+        <>
+            <Text style={styles.descriptionText}>
+                전시 부스용입니다. 시나리오의 대사와 기록으로 따로 마련된 공간에서 시연하고, 학생 기록은 읽지도 바꾸지도 않아요.
+            </Text>
+            <TouchableOpacity style={[styles.button, isDisabled && styles.buttonDisabled]} onPress={() => confirmStart(BUILT_IN_DEMO_SCENARIO)} disabled={isDisabled}>
+                <Text style={styles.buttonText}>기본 시나리오로 시연</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.buttonSoft, isDisabled && styles.buttonDisabled]} onPress={handleLoadFile} disabled={isDisabled}>
+                <Text style={styles.buttonText}>시나리오 파일 불러오기</Text>
+            </TouchableOpacity>
+        </>
+    );
+};
+
+type PinMode = 'set' | 'change' | 'remove';
+
+const AppLockSection = ({ disabled }: { disabled: boolean }) => {
+    const { isLockEnabled, useBiometrics, isBiometricsAvailable } = useAppLock();
+    const { setAppPin, removeAppPin, setBiometricUnlock } = useAppActions();
+    const [mode, setMode] = useState<PinMode | null>(null);
+    const [currentPin, setCurrentPin] = useState('');
+    const [newPin, setNewPin] = useState('');
+    const [confirmPin, setConfirmPin] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const closeForm = () => {
+        setMode(null);
+        setCurrentPin('');
+        setNewPin('');
+        setConfirmPin('');
+    };
+
+    const handleSave = async () => {
+        if (mode !== 'remove' && (!isValidPin(newPin) || newPin !== confirmPin)) {
+            Alert.alert("오류", `새 비밀번호는 숫자 ${PIN_LENGTH}자리로, 두 번 똑같이 입력해주세요.`);
+            return;
+        }
+        setIsSaving(true);
+        const success = mode === 'remove'
+            ? await removeAppPin(currentPin)
+            : await setAppPin(newPin, mode === 'change' ? currentPin : null);
+        setIsSaving(false);
+        if (!success) {
+            Alert.alert("실패", mode === 'set' ? "비밀번호를 설정하지 못했습니다." : "지금 비밀번호가 맞지 않거나, 기록을 다시 저장하지 못했습니다.");
+            return;
+        }
+        Alert.alert("완료", mode === 'remove' ? "앱 잠금을 껐습니다. 기록은 암호화 없이 저장됩니다." : "비밀번호를 저장했습니다. 기록은 이 비밀번호로 암호화됩니다.");
+        closeForm();
+    };
+
+    const handleToggleBiometrics = async (value: boolean) => {
+        if (!(await setBiometricUnlock(value))) Alert.alert("실패", "설정을 바꾸지 못했습니다.");
+    };
+
+    const isFormDisabled = disabled || isSaving;
+
+    return (
+        <>
+            <Text style={styles.descriptionText}>
+                잠금을 켜면 앱을 열 때와 잠시 나갔다 돌아올 때 비밀번호를 물어봅니다. 대화와 미션 기록은 이 비밀번호로 암호화되어 저장돼요.
+                비밀번호를 잊으면 모든 학생의 기록을 지워야만 다시 쓸 수 있습니다.
+            </Text>
+            {isLockEnabled && isBiometricsAvailable && (
+                <View style={styles.switchContainer}>
+                    <Text style={styles.switchLabel}>지문/얼굴로 열기</Text>
+                    <Switch
+                        trackColor={{ false: COLORS.gray, true: COLORS.primary }}
+                        thumbColor={COLORS.white}
+                        ios_backgroundColor={COLORS.lightGray}
+                        onValueChange={handleToggleBiometrics}
+                        value={useBiometrics}
+                        disabled={disabled}
+                    />
+                </View>
+            )}
+            {mode === null ? (
+                isLockEnabled ? (
+                    <>
+                        <TouchableOpacity style={[styles.button, disabled && styles.buttonDisabled]} onPress={() => setMode('change')} disabled={disabled}>
+                            <Text style={styles.buttonText}>비밀번호 변경</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={[styles.button, styles.buttonSoft, disabled && styles.buttonDisabled]} onPress={() => setMode('remove')} disabled={disabled}>
+                            <Text style={styles.buttonText}>잠금 끄기</Text>
+                        </TouchableOpacity>
+                    </>
+                ) : (
+                    <TouchableOpacity style={[styles.button, disabled && styles.buttonDisabled]} onPress={() => setMode('set')} disabled={disabled}>
+                        <Text style={styles.buttonText}>비밀번호 설정</Text>
+                    </TouchableOpacity>
+                )
+            ) : (
+                <View style={styles.apiInputContainer}>
+                    {mode !== 'set' && (
+                        <>
+                            <Text style={styles.inputLabel}>지금 비밀번호</Text>
+                            <TextInput style={styles.textInput} value={currentPin} onChangeText={setCurrentPin} keyboardType="number-pad" secureTextEntry maxLength={PIN_LENGTH} editable={!isFormDisabled} />
+                        </>
+                    )}
+                    {mode !== 'remove' && (
+                        <>
+                            <Text style={styles.inputLabel}>새 비밀번호 (숫자 {PIN_LENGTH}자리)</Text>
+                            <TextInput style={styles.textInput} value={newPin} onChangeText={setNewPin} keyboardType="number-pad" secureTextEntry maxLength={PIN_LENGTH} editable={!isFormDisabled} />
+                            <Text style={styles.inputLabel}>새 비밀번호 확인</Text>
+                            <TextInput style={styles.textInput} value={confirmPin} onChangeText={setConfirmPin} keyboardType="number-pad" secureTextEntry maxLength={PIN_LENGTH} editable={!isFormDisabled} />
+                        </>
+                    )}
+                    <TouchableOpacity style={[styles.button, { marginTop: 10 }, isFormDisabled && styles.buttonDisabled]} onPress={handleSave} disabled={isFormDisabled}>
+                        {isSaving ? <ActivityIndicator color={COLORS.white} /> : <Text style={styles.buttonText}>{mode === 'remove' ? '잠금 끄기' : '저장'}</Text>}
+                    </TouchableOpacity>
+                    <TouchableOpacity style={[styles.button, styles.buttonSoft, { marginTop: 0 }, isFormDisabled && styles.buttonDisabled]} onPress={closeForm} disabled={isFormDisabled}>
+                        <Text style={styles.buttonText}>취소</Text>
+                    </TouchableOpacity>
+                </View>
+            )}
+        </>
+    );
+};
+
+const ResetSnapshotSection = ({ disabled }: { disabled: boolean }) => {
+    const resetSnapshots = useResetSnapshots();
+    const { restoreResetSnapshot } = useAppActions();
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    const handleRestore = (id: string, createdAt: number) => {
+        Alert.alert(
+            "리셋 되돌리기",
+            `${new Date(createdAt).toLocaleString()} 상태로 되돌릴까요? 지금 데이터도 목록에 보관된 뒤 바뀝니다.`,
+            [
+                { text: "취소", style: "cancel" },
+                {
+                    text: "되돌리기",
+                    onPress: async () => {
+                        setIsRestoring(true);
+                        const success = await restoreResetSnapshot(id);
+                        setIsRestoring(false);
+                        if (success) Alert.alert("완료", "데이터를 되돌렸습니다.");
+                        else Alert.alert("실패", "보관된 데이터를 읽지 못했습니다. 지금 데이터는 그대로입니다.");
+                    },
+                },
+            ]
+        );
+    };
+
+    if (resetSnapshots.length === 0) {
+        return <Text style={styles.descriptionText}>아직 리셋한 적이 없어요. 리셋할 때마다 그 전 데이터가 자동으로 보관됩니다.</Text>;
+    }
+
+    return (
+        <>
+            <Text style={styles.descriptionText}>리셋하거나 백업으로 덮어쓰기 전의 데이터가 최근 {MAX_RESET_SNAPSHOTS}개까지 보관됩니다. API 키는 보관되지 않아요.</Text>
+            {resetSnapshots.map(snapshot => (
+                <View key={snapshot.id} style={styles.snapshotRow}>
+                    <View style={{ flex: 1 }}>
+                        <Text style={styles.snapshotTitle}>
+                            {RESET_SNAPSHOT_REASON_LABELS[snapshot.reason]} · {new Date(snapshot.createdAt).toLocaleString()}
+                        </Text>
+                        <Text style={styles.descriptionText}>
+                            대화 {snapshot.messageCount}개 · 미션 {snapshot.missionCount}개 · 기억 {snapshot.memoryCount}개 · 만난 날 {snapshot.visitedDays}일
+                        </Text>
+                    </View>
+                    <TouchableOpacity
+                        style={[styles.button, styles.buttonSoft, (disabled || isRestoring) && styles.buttonDisabled]}
+                        onPress={() => handleRestore(snapshot.id, snapshot.createdAt)}
+                        disabled={disabled || isRestoring}
+                    >
+                        <Text style={styles.buttonText}>되돌리기</Text>
+                    </TouchableOpacity>
+                </View>
+            ))}
+        </>
+    );
+};
+
+const ChatRetentionSection = ({ disabled }: { disabled: boolean }) => {
+    const chatRetention = useChatRetention();
+    const chatDays = useChatDays();
+    const { setChatRetention } = useAppActions();
+
+    const handleSelect = (retention: ChatRetention) => {
+        const expiredCount = getExpiredChatDays(chatDays, retention, getLocalDateString()).length;
+        if (expiredCount === 0) {
+            setChatRetention(retention);
+            return;
+        }
+        Alert.alert(
+            "보관 기간 변경",
+            `${getChatRetentionLabel(retention)}보다 오래된 대화 ${expiredCount}일 치가 바로 삭제됩니다. 삭제하면 복구할 수 없습니다.`,
+            [
+                { text: "취소", style: "cancel" },
+                { text: "변경", onPress: () => setChatRetention(retention), style: "destructive" },
+            ]
+        );
+    };
+
+    return (
+        <>
+            <Text style={styles.descriptionText}>
+                대화가 있는 날: {chatDays.length}일 · 보관 기간이 지난 대화는 앱을 켤 때 자동으로 삭제됩니다. 하루가 기억하는 내용은 지워지지 않아요.
+            </Text>
+            <View style={styles.emotionSelectorContainer}>
+              {CHAT_RETENTION_OPTIONS.map((retention) => (
+                <TouchableOpacity
+                  key={retention}
+                  style={[styles.emotionButton, chatRetention === retention && styles.emotionButtonActive, disabled && styles.buttonDisabled]}
+                  onPress={() => handleSelect(retention)}
+                  disabled={disabled}
+                >
+                  <Text style={[styles.emotionButtonText, chatRetention === retention && styles.emotionButtonTextActive]}>
+                    {getChatRetentionLabel(retention)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+        </>
+    );
+};
+
+const UNLOCK_COUNT_OPTIONS = [1, 2, 3, 5, 10];
+
+const MissionLadderSection = ({ disabled }: { disabled: boolean }) => {
+    const missionLadder = useMissionLadder();
+    const ladderProgress = useLadderProgress();
+    const { setMissionLadder } = useAppActions();
+
+    const update = (changes: Partial<MissionLadderSettings>) => setMissionLadder({ ...missionLadder, ...changes });
+
+    return (
+        <>
+            <Text style={styles.descriptionText}>
+                한 단계의 미션을 정해진 개수만큼 완료하면 다음 단계가 열립니다. 지금 단계: {MISSION_STAGES.find(stage => stage.id === ladderProgress.currentStage)?.label}
+                {missionLadder.stageOverride ? ' (직접 지정)' : ''}
+            </Text>
+            {ladderProgress.stages.map(stage => (
+                <Text key={stage.stage} style={styles.descriptionText}>
+                    {stage.isUnlocked ? '✓' : '🔒'} {MISSION_STAGES.find(info => info.id === stage.stage)?.label}: 완료 {stage.completedCount}개
+                    {stage.remainingToUnlock > 0 ? ` · 열리기까지 이전 단계 ${stage.remainingToUnlock}개 남음` : ''}
+                </Text>
+            ))}
+            <Text style={styles.descriptionText}>다음 단계가 열리는 미션 수</Text>
+            <View style={styles.emotionSelectorContainer}>
+              {UNLOCK_COUNT_OPTIONS.map((count) => (
+                <TouchableOpacity
+                  key={count}
+                  style={[styles.emotionButton, missionLadder.unlockCount === count && styles.emotionButtonActive, disabled && styles.buttonDisabled]}
+                  onPress={() => update({ unlockCount: count })}
+                  disabled={disabled}
+                >
+                  <Text style={[styles.emotionButtonText, missionLadder.unlockCount === count && styles.emotionButtonTextActive]}>
+                    {count}개
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.descriptionText}>단계 직접 지정 (자동이면 미션 기록으로 정해집니다)</Text>
+            <View style={styles.emotionSelectorContainer}>
+              {[null, ...MISSION_STAGES.map(stage => stage.id)].map((stageId) => (
+                <TouchableOpacity
+                  key={stageId ?? 'auto'}
+                  style={[styles.emotionButton, missionLadder.stageOverride === stageId && styles.emotionButtonActive, disabled && styles.buttonDisabled]}
+                  onPress={() => update({ stageOverride: stageId })}
+                  disabled={disabled}
+                >
+                  <Text style={[styles.emotionButtonText, missionLadder.stageOverride === stageId && styles.emotionButtonTextActive]}>
+                    {stageId ? MISSION_STAGES.find(stage => stage.id === stageId)?.label : '자동'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+        </>
+    );
+};
+
+const BackupSection = ({ disabled }: { disabled: boolean }) => {
+    const { exportBackup, importBackup } = useAppActions();
+    const [isWorking, setIsWorking] = useState(false);
+
+    const handleExport = async () => {
+        setIsWorking(true);
+        const success = await exportBackup();
+        setIsWorking(false);
+        if (!success) Alert.alert("실패", "백업 파일을 만들지 못했습니다.");
+    };
+
+    const runImport = async (archive: BackupArchive, mode: BackupImportMode) => {
+        setIsWorking(true);
+        const success = await importBackup(archive, mode);
+        setIsWorking(false);
+        Alert.alert(success ? "완료" : "실패", success ? "백업을 불러왔습니다." : "백업을 불러오지 못했습니다. 기존 데이터는 그대로입니다.");
+    };
+
+    const handleImport = async () => {
+        let raw: string | null;
+        try {
+            raw = await pickBackupFile();
+        } catch (e) {
+            console.error('Failed to read backup file.', e);
+            Alert.alert("실패", "파일을 읽지 못했습니다.");
+            return;
+        }
+        if (raw === null) return;
+        const archive = parseBackupArchive(raw);
+        if (!archive) {
+            Alert.alert("실패", "하루살이 백업 파일이 아니거나, 더 새로운 버전의 앱에서 만든 파일입니다.");
+            return;
+        }
+        const summary = summarizeBackup(archive);
+        Alert.alert(
+            "백업 불러오기",
+            `${new Date(summary.exportedAt).toLocaleString()}에 만든 백업입니다.\n` +
+            `${summary.dayCount}일차 · 대화 ${summary.messageCount}개 · 미션 ${summary.missionCount}개 · 사진 ${summary.photoCount}장\n\n` +
+            "합치기: 지금 기록에 백업의 기록만 더합니다. 설정은 그대로예요.\n덮어쓰기: 지금 기록을 지우고 백업으로 바꿉니다. 관리자 설정도 백업의 것으로 바뀌어요. 지금 기록은 '리셋 되돌리기'에 보관돼요.",
+            [
+                { text: "취소", style: "cancel" },
+                { text: "합치기", onPress: () => runImport(archive, 'merge') },
+                { text: "덮어쓰기", onPress: () => runImport(archive, 'replace'), style: "destructive" }
+            ]
+        );
+    };
+
+    return (
+        <>
+            <Text style={styles.descriptionText}>
+                대화 기록, 미션 기록과 사진, 며칠차, 하루의 표정과 설정을 파일 하나로 저장합니다. API 키는 포함되지 않습니다.
+            </Text>
+            <TouchableOpacity style={[styles.button, (disabled || isWorking) && styles.buttonDisabled]} onPress={handleExport} disabled={disabled || isWorking}>
+                {isWorking ? <ActivityIndicator color={COLORS.white} /> : <Text style={styles.buttonText}>백업 내보내기</Text>}
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.buttonSoft, (disabled || isWorking) && styles.buttonDisabled]} onPress={handleImport} disabled={disabled || isWorking}>
+                <Text style={styles.buttonText}>백업 불러오기</Text>
+            </TouchableOpacity>
+        </>
+    );
+};
+
+const providerOrder: ChatProviderId[] = ['gemini', 'openai', 'mock'];
+
+const ChatProviderSection = ({ disabled }: { disabled: boolean }) => {
+    const chatProviderConfig = useChatProviderConfig();
+    const { updateChatProviderConfig } = useAppActions();
+    const [providerId, setProviderId] = useState<ChatProviderId>(chatProviderConfig.providerId);
+    const [baseUrl, setBaseUrl] = useState(chatProviderConfig.baseUrl);
+    const [model, setModel] = useState(chatProviderConfig.model);
+    const [useProxy, setUseProxy] = useState(!!chatProviderConfig.useProxy);
+    const [maxTurns, setMaxTurns] = useState(chatProviderConfig.historyBudget.maxTurns);
+    const [maxChars, setMaxChars] = useState(chatProviderConfig.historyBudget.maxChars);
+
+    const provider = CHAT_PROVIDERS[providerId];
+
+    const handleSelectProvider = (id: ChatProviderId) => {
+        setProviderId(id);
+        const endpoint = id === chatProviderConfig.providerId ? chatProviderConfig : CHAT_PROVIDERS[id].defaultEndpoint;
+        setBaseUrl(endpoint.baseUrl);
+        setModel(endpoint.model);
+        setUseProxy(!!endpoint.useProxy);
+    };
+
+    const handleSave = async () => {
+        if (provider.configurable && (baseUrl.trim() === '' || model.trim() === '')) {
+            Alert.alert("오류", "서버 주소와 모델 이름을 입력해주세요.");
+            return;
+        }
+        await updateChatProviderConfig({
+            providerId,
+            baseUrl: provider.configurable ? baseUrl.trim() : provider.defaultEndpoint.baseUrl,
+            model: provider.configurable ? model.trim() : provider.defaultEndpoint.model,
+            useProxy: providerId === 'gemini' && useProxy ? true : undefined,
+            historyBudget: { ...chatProviderConfig.historyBudget, maxTurns, maxChars },
+        });
+        Alert.alert("완료", `대화 엔진이 '${provider.label}'(으)로 설정되었습니다.`);
+    };
+
+    return (
+        <>
+            <View style={styles.emotionSelectorContainer}>
+              {providerOrder.map((id) => (
+                <TouchableOpacity
+                  key={id}
+                  style={[styles.emotionButton, providerId === id && styles.emotionButtonActive, disabled && styles.buttonDisabled]}
+                  onPress={() => handleSelectProvider(id)}
+                  disabled={disabled}
+                >
+                  <Text style={[styles.emotionButtonText, providerId === id && styles.emotionButtonTextActive]}>
+                    {CHAT_PROVIDERS[id].label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {provider.configurable ? (
+              <>
+                <Text style={styles.inputLabel}>서버 주소</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={baseUrl}
+                  onChangeText={setBaseUrl}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                  editable={!disabled}
+                />
+                <Text style={styles.inputLabel}>모델 이름</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={model}
+                  onChangeText={setModel}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  editable={!disabled}
+                />
+                {providerId === 'gemini' && (
+                  <>
+                    <View style={styles.switchContainer}>
+                      <Text style={styles.switchLabel}>중계 서버(프록시) 사용</Text>
+                      <Switch
+                        trackColor={{ false: COLORS.gray, true: COLORS.primary }}
+                        thumbColor={COLORS.white}
+                        ios_backgroundColor={COLORS.lightGray}
+                        onValueChange={setUseProxy}
+                        value={useProxy}
+                        disabled={disabled}
+                      />
+                    </View>
+                    <Text style={styles.descriptionText}>
+                      켜면 서버 주소를 중계 서버로 보고, 앱에서는 API 키를 보내지 않습니다. 키는 중계 서버가 붙입니다.
+                    </Text>
+                  </>
+                )}
+              </>
+            ) : (
+              <Text style={styles.descriptionText}>네트워크 없이 정해진 대본대로 대답합니다 (테스트용).</Text>
+            )}
+            <Text style={styles.inputLabel}>함께 보내는 최근 대화 (메시지 수)</Text>
+            <View style={styles.emotionSelectorContainer}>
+              {HISTORY_TURN_OPTIONS.map((count) => (
+                <TouchableOpacity
+                  key={count}
+                  style={[styles.emotionButton, maxTurns === count && styles.emotionButtonActive, disabled && styles.buttonDisabled]}
+                  onPress={() => setMaxTurns(count)}
+                  disabled={disabled}
+                >
+                  <Text style={[styles.emotionButtonText, maxTurns === count && styles.emotionButtonTextActive]}>{count}개</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.inputLabel}>함께 보내는 최근 대화 (글자 수)</Text>
+            <View style={styles.emotionSelectorContainer}>
+              {HISTORY_CHAR_OPTIONS.map((count) => (
+                <TouchableOpacity
+                  key={count}
+                  style={[styles.emotionButton, maxChars === count && styles.emotionButtonActive, disabled && styles.buttonDisabled]}
+                  onPress={() => setMaxChars(count)}
+                  disabled={disabled}
+                >
+                  <Text style={[styles.emotionButtonText, maxChars === count && styles.emotionButtonTextActive]}>{count}자</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.descriptionText}>
+              둘 중 먼저 닿는 한도까지만 대화를 그대로 보내고, 그보다 오래된 대화는 짧게 요약해서 보냅니다.
+            </Text>
+            <TouchableOpacity style={[styles.button, { marginTop: 10 }, disabled && styles.buttonDisabled]} onPress={handleSave} disabled={disabled}>
+              <Text style={styles.buttonText}>대화 엔진 저장</Text>
+            </TouchableOpacity>
+        </>
+    );
+};
+
 const AdminScreen = ({ navigation }: Props) => {
-  const { 
-    softReset, hardReset, haruEmotion, setHaruEmotion, updateApiKey, 
-    isAiThinking, isInitialized, useAiResponse, setUseAiResponse,
-    geminiStatus, lastGeminiError
-  } = useAppState();
+  const { softReset, hardReset, setHaruEmotion, updateApiKey, setUseAiResponse } = useAppActions();
+  const haruEmotion = useHaruEmotion();
+  const isInitialized = useIsInitialized();
+  const useAiResponse = useUseAiResponse();
+  const quarantinedRecords = useQuarantinedRecords();
+  const isAiThinking = useIsAiThinking();
+  const demoScenario = useDemoScenario();
   const [showApiInput, setShowApiInput] = useState(false);
   const [apiKey, setApiKey] = useState('');
   const [isTestingKey, setIsTestingKey] = useState(false);
 
-  const isBusy = isAiThinking || !isInitialized;
+  const isWorking = isAiThinking || !isInitialized;
+  // During a demo only the demo controls are usable, so nothing real is changed from the sandbox.
+  const isBusy = isWorking || demoScenario !== null;
 
   const handleSoftReset = () => {
     Alert.alert(
@@ -67,8 +911,11 @@ const AdminScreen = ({ navigation }: Props) => {
         {
           text: "확인", 
           onPress: async () => {
-            await softReset();
-            Alert.alert("완료", "채팅 기록이 초기화되었습니다.", [{ text: "OK" }]);
+            if (!(await softReset())) {
+              Alert.alert("실패", "리셋 전에 데이터를 따로 보관하지 못해 리셋하지 않았습니다.");
+              return;
+            }
+            Alert.alert("완료", "채팅 기록이 초기화되었습니다. '리셋 되돌리기'에서 되살릴 수 있어요.", [{ text: "OK" }]);
           },
           style: "destructive"
         }
@@ -79,14 +926,17 @@ const AdminScreen = ({ navigation }: Props) => {
   const handleHardReset = () => {
     Alert.alert(
       "하드 리셋",
-      "모든 기록(채팅, 미션 등)이 삭제됩니다. 정말 진행할까요?",
+      "지금 학생의 모든 기록(채팅, 미션 등)이 삭제됩니다. 다른 학생의 기록과 API 키는 그대로예요. 정말 진행할까요?",
       [
         { text: "취소", style: "cancel" },
         {
           text: "확인", 
           onPress: async () => {
-            await hardReset();
-            Alert.alert("완료", "앱이 완전히 초기화되었습니다.", [{ text: "OK" }]);
+            if (!(await hardReset())) {
+              Alert.alert("실패", "리셋 전에 데이터를 따로 보관하지 못해 리셋하지 않았습니다.");
+              return;
+            }
+            Alert.alert("완료", "이 학생의 기록이 모두 초기화되었습니다. '리셋 되돌리기'에서 되살릴 수 있어요.", [{ text: "OK" }]);
           },
           style: "destructive"
         }
@@ -132,21 +982,23 @@ const AdminScreen = ({ navigation }: Props) => {
       return;
     }
     setIsTestingKey(true);
-    const success = await updateApiKey(apiKey.trim());
+    const result = await updateApiKey(apiKey.trim());
     setIsTestingKey(false);
     
-    if (success) {
-      Alert.alert("성공", "API 키가 유효하며, 성공적으로 업데이트되었습니다.");
+    if (result === 'valid') {
+      Alert.alert("성공", "API 키가 유효하며, 안전한 저장소에 저장되었습니다.");
       setShowApiInput(false);
       setApiKey('');
+    } else if (result === 'invalid') {
+      Alert.alert("실패", "입력한 API 키가 유효하지 않습니다. 이전 키를 계속 사용합니다.");
     } else {
-      Alert.alert("실패", "입력한 API 키가 유효하지 않거나 네트워크에 문제가 있습니다. 이전 키로 복원되었을 수 있습니다.");
+      Alert.alert("실패", "네트워크 문제로 키를 확인하지 못했습니다. 이전 키를 계속 사용합니다.");
     }
   };
 
   return (
     <SafeAreaView style={styles.safeArea}>
-        <TouchableOpacity style={styles.homeButton} onPress={() => navigation.goBack()} disabled={isBusy}>
+        <TouchableOpacity style={styles.homeButton} onPress={() => navigation.goBack()} disabled={isWorking}>
             <Text style={styles.homeButtonText}>홈으로</Text>
         </TouchableOpacity>
       <ScrollView style={styles.container}>
@@ -157,6 +1009,26 @@ const AdminScreen = ({ navigation }: Props) => {
             <GeminiStatusPanel />
         </View>
 
+        <View style={styles.section}>
+            <Text style={styles.sectionTitle}>시연 모드</Text>
+            <DemoSection disabled={isWorking} />
+        </View>
+
+        <View style={styles.section}>
+            <Text style={styles.sectionTitle}>학생 프로필</Text>
+            <ProfileSection disabled={isBusy} />
+        </View>
+
+        <View style={styles.section}>
+            <Text style={styles.sectionTitle}>앱 잠금</Text>
+            <AppLockSection disabled={isBusy} />
+        </View>
+
+        <View style={styles.section}>
+            <Text style={styles.sectionTitle}>안전 알림</Text>
+            <SafetyEventsSection disabled={isBusy} />
+        </View>
+
         <View style={styles.section}>
             <Text style={styles.sectionTitle}>리셋 도구</Text>
             <TouchableOpacity style={[styles.button, styles.buttonSoft, isBusy && styles.buttonDisabled]} onPress={handleSoftReset} disabled={isBusy}>
@@ -167,6 +1039,43 @@ const AdminScreen = ({ navigation }: Props) => {
             </TouchableOpacity>
         </View>
 
+        <View style={styles.section}>
+            <Text style={styles.sectionTitle}>리셋 되돌리기</Text>
+            <ResetSnapshotSection disabled={isBusy} />
+        </View>
+
+        <View style={styles.section}>
+            <Text style={styles.sectionTitle}>사용 기록</Text>
+            <UsageLogSection disabled={isBusy} />
+        </View>
+
+        <View style={styles.section}>
+            <Text style={styles.sectionTitle}>방문 기록</Text>
+            <ProgressSection disabled={isBusy} />
+        </View>
+
+        <View style={styles.section}>
+            <Text style={styles.sectionTitle}>미션 단계</Text>
+            <MissionLadderSection disabled={isBusy} />
+        </View>
+
+        <View style={styles.section}>
+            <Text style={styles.sectionTitle}>대화 보관 기간</Text>
+            <ChatRetentionSection disabled={isBusy} />
+        </View>
+
+        <View style={styles.section}>
+            <Text style={styles.sectionTitle}>백업</Text>
+            <BackupSection disabled={isBusy} />
+        </View>
+
+        {quarantinedRecords.length > 0 && (
+          <View style={styles.section}>
+              <Text style={styles.sectionTitle}>손상된 데이터</Text>
+              <QuarantineSection disabled={isBusy} />
+          </View>
+        )}
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>AI 사용 설정</Text>
           <View style={styles.switchContainer}>
@@ -181,10 +1090,21 @@ const AdminScreen = ({ navigation }: Props) => {
             />
           </View>
            <Text style={styles.descriptionText}>
-            이 설정을 끄면 하루가 정해진 답변만 사용합니다 (테스트용).
+            이 설정을 끄면 네트워크 없이 키워드 규칙으로 고른 하루의 대사를 사용합니다 (전시·오프라인용).
           </Text>
         </View>
 
+        <View style={styles.section}>
+            <Text style={styles.sectionTitle}>대화 엔진</Text>
+            <ChatProviderSection disabled={isBusy} />
+        </View>
+
+        <View style={styles.section}>
+            <Text style={styles.sectionTitle}>하루 페르소나</Text>
+            <Text style={styles.descriptionText}>기본 제공 페르소나는 복제한 뒤 수정할 수 있어요. 저장할 때마다 버전이 올라갑니다.</Text>
+            <PersonaManager disabled={isBusy} />
+        </View>
+
         <View style={styles.section}>
             <Text style={styles.sectionTitle}>하루 기본 이미지 변경</Text>
             <View style={styles.emotionSelectorContainer}>
@@ -267,6 +1187,7 @@ const styles = StyleSheet.create({
   emotionButtonTextActive: { color: COLORS.white, fontWeight: 'bold' },
   descriptionText: { fontSize: 14, color: COLORS.gray, marginBottom: 15, marginTop: 5 },
   apiInputContainer: { marginTop: 10 },
+  inputLabel: { fontSize: 14, color: COLORS.text, marginTop: 10, marginBottom: 5 },
   textInput: { borderWidth: 1, borderColor: COLORS.lightGray, borderRadius: 8, padding: 15, fontSize: 16, backgroundColor: COLORS.white },
   switchContainer: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingVertical: 10 },
   switchLabel: { fontSize: 16, color: COLORS.text },
@@ -278,7 +1199,13 @@ const styles = StyleSheet.create({
   statusText: { fontSize: 16, fontWeight: 'bold', color: COLORS.text },
   statusDescription: { fontSize: 14, color: COLORS.gray, marginTop: 2 },
   errorText: { fontSize: 12, color: COLORS.danger, marginTop: 4 },
+  safetyEventRow: { backgroundColor: COLORS.white, borderRadius: 8, padding: 12, marginBottom: 8, borderLeftWidth: 4, borderLeftColor: COLORS.danger },
+  safetyEventHeader: { fontSize: 12, color: COLORS.gray },
+  safetyEventExcerpt: { fontSize: 14, color: COLORS.text, marginTop: 4 },
+  quarantineRow: { borderLeftColor: '#f0ad4e' },
   warningText: { fontSize: 12, color: '#856404', marginTop: 4 },
+  snapshotRow: { flexDirection: 'row', alignItems: 'center', borderBottomWidth: 1, borderBottomColor: COLORS.lightGray, paddingVertical: 8 },
+  snapshotTitle: { fontSize: 14, fontWeight: 'bold', color: COLORS.text },
 });
 
 export default AdminScreen;
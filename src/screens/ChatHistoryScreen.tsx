@@ -1,74 +1,129 @@
-import React from 'react';
+/**
+ * @file src/screens/ChatHistoryScreen.tsx
+ * @description All past conversations, newest day first.
+ *
+ * @changelog
+ * - Days are listed in a virtualised list, and days older than the ones in memory are read from the archive as the list scrolls.
+ */
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   StyleSheet,
   Text,
   View,
   SafeAreaView,
   TouchableOpacity,
-  ScrollView,
+  FlatList,
+  ActivityIndicator,
 } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/RootNavigator';
-import { useAppState, ChatMessage } from '../context/AppStateContext';
+import { useAppActions, ChatMessage } from '../context/AppStateContext';
+import { useChatStore } from '../context/stores/chatStore';
+import { ChatDays, groupMessagesByDay } from '../api/chatArchive';
 import { COLORS } from '../constants/colors';
+import HelpLineLinks from '../components/HelpLineLinks';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'ChatHistoryScreen'>;
 
-const groupMessagesByDate = (messages: ChatMessage[]) => {
-  const groups: { [key: string]: ChatMessage[] } = {};
-  messages.forEach(message => {
-    const date = new Date(message.timestamp).toLocaleDateString();
-    if (!groups[date]) {
-      groups[date] = [];
-    }
-    groups[date].push(message);
-  });
-  return groups;
+// How many more days are shown each time the list is scrolled to the end.
+const DAYS_PER_PAGE = 7;
+
+const formatDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString();
 };
 
 const ChatHistoryScreen = ({ navigation }: Props) => {
-  const { chatHistory } = useAppState();
-  const groupedMessages = groupMessagesByDate(chatHistory);
-  const sortedDates = Object.keys(groupedMessages).sort((a, b) => new Date(b).getTime() - new Date(a).getTime());
+  const { chatHistory, chatDays } = useChatStore();
+  const { retryMessage, loadArchivedChatDays } = useAppActions();
+  const [archivedDays, setArchivedDays] = useState<ChatDays>({});
+  const [shownDayCount, setShownDayCount] = useState(DAYS_PER_PAGE);
+  const [isLoadingDays, setIsLoadingDays] = useState(false);
+
+  // Days in memory are always current; archived copies are only used for the days that are not.
+  const daysInMemory = useMemo(() => groupMessagesByDay(chatHistory), [chatHistory]);
+  const shownDays = useMemo(() => [...chatDays].reverse().slice(0, shownDayCount), [chatDays, shownDayCount]);
+
+  useEffect(() => {
+    const missingDays = shownDays.filter(date => !daysInMemory[date] && !archivedDays[date]);
+    if (missingDays.length === 0 || isLoadingDays) return;
+    setIsLoadingDays(true);
+    loadArchivedChatDays(missingDays)
+      // A day that could not be read shows as empty rather than being requested again and again.
+      .then(days => setArchivedDays(prev => ({ ...prev, ...Object.fromEntries(missingDays.map(date => [date, days[date] ?? []])) })))
+      .finally(() => setIsLoadingDays(false));
+  }, [shownDays, daysInMemory, archivedDays, isLoadingDays]);
+
+  const handleEndReached = () => {
+    if (shownDayCount < chatDays.length) setShownDayCount(prev => prev + DAYS_PER_PAGE);
+  };
+
+  const renderMessage = (message: ChatMessage) => (
+    <View
+      key={message.id}
+      style={[
+        styles.messageBubble,
+        message.sender === 'user'
+          ? styles.userBubble
+          : styles.botBubble,
+      ]}
+    >
+      <Text style={message.sender === 'user' ? styles.userMessageText : styles.messageText}>{message.text}</Text>
+      {message.showHelpLines && <HelpLineLinks />}
+      <Text style={styles.timestampText}>
+          {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+      </Text>
+      {message.status === 'pending' && (
+        <Text style={styles.statusText}>⏳ 하루에게 전달 중...</Text>
+      )}
+      {message.status === 'failed' && (
+        <TouchableOpacity onPress={() => retryMessage(message)}>
+          <Text style={[styles.statusText, styles.failedStatusText]}>⚠️ 전달 실패 · 다시 보내기</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  const renderDay = ({ item: date }: { item: string }) => {
+    const messages = daysInMemory[date] ?? archivedDays[date];
+    return (
+      <View style={styles.dateGroup}>
+        <Text style={styles.dateHeaderText}>{formatDay(date)}</Text>
+        {messages ? messages.map(renderMessage) : <ActivityIndicator color={COLORS.gray} />}
+      </View>
+    );
+  };
 
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>대화 기록</Text>
-        <TouchableOpacity onPress={() => navigation.navigate('HomeScreen')}>
-            <Text style={styles.closeButton}>닫기</Text>
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity onPress={() => navigation.navigate('MemoryScreen')}>
+              <Text style={styles.memoryButton}>하루가 기억하는 나</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => navigation.navigate('HomeScreen')}>
+              <Text style={styles.closeButton}>닫기</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
-      <ScrollView contentContainerStyle={styles.scrollContainer}>
-        {sortedDates.length === 0 ? (
+      <FlatList
+        data={shownDays}
+        keyExtractor={date => date}
+        renderItem={renderDay}
+        contentContainerStyle={styles.scrollContainer}
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.5}
+        initialNumToRender={3}
+        windowSize={5}
+        ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <Text style={styles.emptyText}>아직 나눈 대화가 없어요.</Text>
           </View>
-        ) : (
-          sortedDates.map(date => (
-            <View key={date} style={styles.dateGroup}>
-              <Text style={styles.dateHeaderText}>{date}</Text>
-              {groupedMessages[date].map(message => (
-                <View
-                  key={message.id}
-                  style={[
-                    styles.messageBubble,
-                    message.sender === 'user'
-                      ? styles.userBubble
-                      : styles.botBubble,
-                  ]}
-                >
-                  <Text style={message.sender === 'user' ? styles.userMessageText : styles.messageText}>{message.text}</Text>
-                  <Text style={styles.timestampText}>
-                      {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                  </Text>
-                </View>
-              ))}
-            </View>
-          ))
-        )}
-      </ScrollView>
+        }
+        ListFooterComponent={shownDayCount < chatDays.length ? <ActivityIndicator style={styles.footerLoader} color={COLORS.gray} /> : null}
+      />
     </SafeAreaView>
   );
 };
@@ -92,6 +147,16 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: COLORS.text,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  memoryButton: {
+    fontSize: 14,
+    color: COLORS.gray,
+    marginRight: 20,
+    textDecorationLine: 'underline',
+  },
   closeButton: {
     fontSize: 16,
     color: COLORS.primary,
@@ -149,7 +214,20 @@ const styles = StyleSheet.create({
     color: COLORS.lightGray,
     alignSelf: 'flex-end',
     marginTop: 5,
-  }
+  },
+  statusText: {
+    fontSize: 11,
+    color: COLORS.white,
+    alignSelf: 'flex-end',
+    marginTop: 3,
+  },
+  failedStatusText: {
+    fontWeight: 'bold',
+    textDecorationLine: 'underline',
+  },
+  footerLoader: {
+    marginVertical: 20,
+  },
 });
 
 export default ChatHistoryScreen;
@@ -4,12 +4,14 @@
  * 
  * @changelog
  * - Added a guardrail to handle the case where PAGES_DATA might be empty, preventing a potential crash.
+ * - Each page turn is written to the usage log, noting whether the page was still locked.
  */
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, SafeAreaView, Dimensions, Image, ImageSourcePropType } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/RootNavigator';
-import { useAppState } from '../context/AppStateContext';
+import { useChatCount } from '../context/stores/chatStore';
+import { useAppActions } from '../context/AppStateContext';
 
 // --- Types and Constants ---
 type Props = NativeStackScreenProps<RootStackParamList, 'DiaryScreen'>;
@@ -66,8 +68,14 @@ const EmptyDiaryState = () => (
 );
 
 const DiaryScreen = ({ navigation }: Props) => {
-    const { chatCount } = useAppState();
+    const chatCount = useChatCount();
     const [currentPageIndex, setCurrentPageIndex] = useState(0);
+    const { logUsageEvent } = useAppActions();
+
+    useEffect(() => {
+        const page = PAGES_DATA[currentPageIndex];
+        if (page) logUsageEvent('diary_page_viewed', chatCount < page.requiredChatCount ? `${page.id} (locked)` : `${page.id}`);
+    }, [currentPageIndex]);
 
     if (PAGES_DATA.length === 0) {
         return <EmptyDiaryState />;
@@ -9,7 +9,7 @@ import {
 } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/RootNavigator';
-import { useAppState } from '../context/AppStateContext';
+import { useAppActions } from '../context/AppStateContext';
 import { COLORS } from '../constants/colors';
 import { EMOTIONS, EMOTION_RESPONSES } from '../constants/emotions';
 
@@ -18,7 +18,7 @@ type Props = NativeStackScreenProps<RootStackParamList, 'EmotionChatScreen'>;
 const { width } = Dimensions.get('window');
 
 const EmotionChatScreen = ({ navigation }: Props) => {
-  const { sendUserMessage } = useAppState();
+  const { sendUserMessage } = useAppActions();
   const [localSelectedEmotionId, setLocalSelectedEmotionId] = useState<string | null>(null);
 
   const handleSelectEmotion = (emotionId: string) => {
@@ -34,6 +34,7 @@ const EmotionChatScreen = ({ navigation }: Props) => {
           text: selectedEmotion.text,
           sender: 'user',
           timestamp: Date.now(),
+          userMood: selectedEmotion.id,
         };
         await sendUserMessage(userMessage);
         navigation.navigate('HomeScreen');
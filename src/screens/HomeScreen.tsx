@@ -5,6 +5,11 @@
  * @changelog
  * - Added fade animation for Haru's character image changes to prevent blinking.
  * - Haru's image now immediately changes to 'neutral' when the AI is thinking.
+ * - Haru's quick replies are shown as tappable chips, and a suggested mission as a card that opens it.
+ * - Streamed replies are typed out in the speech bubble as they arrive, and Haru's image follows the streamed emotion.
+ * - The day badge shows the visit metric chosen in AdminScreen, with a welcome-back note after a break.
+ * - The GPS demo is part of the last stage of the mission ladder; until it unlocks, Haru says what is left to do.
+ * - A "today's mission" card next to the day badge opens the day's mission, shows when it is done and can be swapped once a day.
  */
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import {
@@ -22,12 +27,22 @@ import {
   Image,
   ImageStyle,
   Animated,
+  Alert,
 } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/RootNavigator';
-import { useAppState, ChatMessage } from '../context/AppStateContext';
+import { useAppActions, ChatMessage } from '../context/AppStateContext';
+import { useChatHistory, useOutbox } from '../context/stores/chatStore';
+import { useIsAiThinking, useStreamingReply } from '../context/stores/aiStatusStore';
+import { useDailyMission, useMissionHistory, useLadderProgress } from '../context/stores/missionStore';
+import { useIsInitialized, useVisitProgress, useHaruEmotion } from '../context/stores/settingsStore';
 import { COLORS } from '../constants/colors';
 import { HaruEmotion } from '../api/gemini';
+import HelpLineLinks from '../components/HelpLineLinks';
+import { MISSIONS } from '../constants/missions';
+import { getLocalDateString, getProgressValue, PROGRESS_METRIC_LABELS } from '../api/progress';
+import { isDailyMissionCompleted } from '../api/dailyMission';
+import { OUTSIDE_STAGE, getLockedStageMessage } from '../api/missionLadder';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'HomeScreen'>;
 
@@ -52,21 +67,58 @@ const menuIconStyle: ImageStyle = {
   height: '100%',
 };
 
+const TYPEWRITER_INTERVAL_MS = 30;
+const TYPEWRITER_CHARS_PER_TICK = 2;
+
+// Reveals `target` a few characters at a time, catching up as more text streams in.
+const useTypewriter = (target: string) => {
+  const [shownLength, setShownLength] = useState(0);
+
+  useEffect(() => {
+    if (shownLength > target.length) {
+      // A new reply started; begin again from the start.
+      setShownLength(target.length);
+      return;
+    }
+    if (shownLength === target.length) return;
+    const timer = setTimeout(() => {
+      setShownLength(length => Math.min(length + TYPEWRITER_CHARS_PER_TICK, target.length));
+    }, TYPEWRITER_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [target, shownLength]);
+
+  return target.slice(0, shownLength);
+};
+
 const HomeScreen = ({ navigation }: Props) => {
-  const { dayCount, sendUserMessage, haruEmotion, chatHistory, isAiThinking, isInitialized } = useAppState();
+  const { sendUserMessage, swapDailyMission } = useAppActions();
+  const { visitProgress, progressMetric, missedDaysOnReturn } = useVisitProgress();
+  const haruEmotion = useHaruEmotion();
+  const chatHistory = useChatHistory();
+  const outbox = useOutbox();
+  const streamingReply = useStreamingReply();
+  const isAiThinking = useIsAiThinking();
+  const isInitialized = useIsInitialized();
+  const dailyMission = useDailyMission();
+  const missionHistory = useMissionHistory();
+  const outsideStage = useLadderProgress().stages.find(stage => stage.stage === OUTSIDE_STAGE);
+  const isOutsideLocked = outsideStage !== undefined && !outsideStage.isUnlocked;
   const [inputText, setInputText] = useState('');
+  const typedStreamingText = useTypewriter(streamingReply?.text ?? '');
 
   const lastBotMessage = useMemo(() => {
     return [...chatHistory].reverse().find(msg => msg.sender === 'bot');
   }, [chatHistory]);
 
+  const hasFailedMessage = useMemo(() => chatHistory.some(msg => msg.status === 'failed'), [chatHistory]);
+
   const targetImageSource = useMemo(() => {
     if (isAiThinking) {
-      return haruImages['neutral'];
+      return haruImages[streamingReply?.state || 'neutral'];
     }
     const currentEmotion = lastBotMessage?.state || haruEmotion;
     return haruImages[currentEmotion] || haruImages['neutral'];
-  }, [isAiThinking, lastBotMessage, haruEmotion]);
+  }, [isAiThinking, lastBotMessage, haruEmotion, streamingReply?.state]);
 
   // Animation state
   const [activeImageSource, setActiveImageSource] = useState(targetImageSource);
@@ -89,18 +141,48 @@ const HomeScreen = ({ navigation }: Props) => {
     }
   }, [targetImageSource]);
 
-  const handleSend = async () => {
-    if (inputText.trim().length === 0 || isAiThinking || !isInitialized) return;
+  // Quick replies and the mission card only belong to Haru's latest reply, not to an older one.
+  const isLastMessageFromBot = chatHistory[chatHistory.length - 1]?.sender === 'bot';
+  const suggestedMission = useMemo(
+    () => MISSIONS.find(mission => mission.id === lastBotMessage?.suggestedMissionId),
+    [lastBotMessage],
+  );
+
+  const todayMission = useMemo(
+    () => MISSIONS.find(mission => mission.id === dailyMission?.missionId),
+    [dailyMission],
+  );
+  const isTodayMissionDone = useMemo(
+    () => dailyMission !== null && isDailyMissionCompleted(dailyMission, missionHistory),
+    [dailyMission, missionHistory],
+  );
+
+  const handleGoOutside = () => {
+    if (outsideStage && isOutsideLocked) {
+      Alert.alert("하루", getLockedStageMessage(outsideStage));
+      return;
+    }
+    navigation.navigate('GpsDemoScreen');
+  };
+
+  const sendText = async (text: string) => {
+    if (text.trim().length === 0 || isAiThinking || !isInitialized) return;
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
-      text: inputText,
+      text,
       sender: 'user',
       timestamp: Date.now(),
     };
-    setInputText('');
     await sendUserMessage(userMessage);
   };
 
+  const handleSend = async () => {
+    if (inputText.trim().length === 0 || isAiThinking || !isInitialized) return;
+    const text = inputText;
+    setInputText('');
+    await sendText(text);
+  };
+
   const SideMenuItem = ({ label, onPress, iconSource }: { label: string; onPress: () => void; iconSource: any }) => (
     <TouchableOpacity onPress={onPress} style={styles.sideMenuItem} disabled={isAiThinking}>
       <View style={styles.menuIconContainer}>
@@ -125,12 +207,32 @@ const HomeScreen = ({ navigation }: Props) => {
             style={styles.dayCounterBackground}
             resizeMode="contain"
           >
-            <Text style={styles.dayCounterText}>{dayCount}</Text>
+            <Text style={styles.dayCounterText}>{getProgressValue(visitProgress, progressMetric, getLocalDateString())}</Text>
           </ImageBackground>
+          <Text style={styles.dayCounterCaption}>
+            {missedDaysOnReturn > 0 ? '다시 와줘서 반가워' : PROGRESS_METRIC_LABELS[progressMetric]}
+          </Text>
         </View>
 
-        <TouchableOpacity onPress={() => navigation.navigate('GpsDemoScreen')} style={styles.gpsButton} disabled={isAiThinking}>
-          <Text style={styles.gpsButtonText}>밖으로 나가면?</Text>
+        {todayMission && (
+          <View style={[styles.todayMissionCard, isTodayMissionDone && styles.todayMissionCardDone]}>
+            <TouchableOpacity
+              onPress={() => navigation.navigate('RoomMissionScreen', { missionId: todayMission.id })}
+              disabled={isTodayMissionDone || isAiThinking}
+            >
+              <Text style={styles.todayMissionLabel}>{isTodayMissionDone ? '오늘의 미션 완료 ✓' : '오늘의 미션'}</Text>
+              <Text style={styles.todayMissionText} numberOfLines={2}>{todayMission.text}</Text>
+            </TouchableOpacity>
+            {!isTodayMissionDone && !dailyMission?.swapped && (
+              <TouchableOpacity onPress={swapDailyMission} disabled={isAiThinking}>
+                <Text style={styles.todayMissionSwapText}>다른 걸로 바꿀래</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        <TouchableOpacity onPress={handleGoOutside} style={[styles.gpsButton, isOutsideLocked && styles.gpsButtonLocked]} disabled={isAiThinking}>
+          <Text style={styles.gpsButtonText}>{isOutsideLocked ? '🔒 ' : ''}밖으로 나가면?</Text>
         </TouchableOpacity>
         <TouchableOpacity onPress={() => navigation.navigate('AdminScreen')} style={styles.adminButton} disabled={isAiThinking}>
           <Text style={styles.adminButtonText}>⚙️</Text>
@@ -150,12 +252,37 @@ const HomeScreen = ({ navigation }: Props) => {
             fadeDuration={0}
           />
 
-          {lastBotMessage && (
+          {(lastBotMessage || isAiThinking) && (
             <View style={styles.botBubble}>
               {isAiThinking && chatHistory[chatHistory.length - 1]?.sender === 'user' ? (
-                <ActivityIndicator color={COLORS.primary} />
-              ) : (
-                <Text style={styles.botMessageText}>{lastBotMessage.text}</Text>
+                typedStreamingText ? (
+                  <Text style={styles.botMessageText}>{typedStreamingText}▍</Text>
+                ) : (
+                  <ActivityIndicator color={COLORS.primary} />
+                )
+              ) : lastBotMessage && (
+                <>
+                  <Text style={styles.botMessageText}>{lastBotMessage.text}</Text>
+                  {lastBotMessage.showHelpLines && <HelpLineLinks />}
+                  {isLastMessageFromBot && suggestedMission && (
+                    <TouchableOpacity
+                      style={styles.missionSuggestionCard}
+                      onPress={() => navigation.navigate('RoomMissionScreen', { missionId: suggestedMission.id })}
+                    >
+                      <Text style={styles.missionSuggestionLabel}>하루의 제안</Text>
+                      <Text style={styles.missionSuggestionText}>{suggestedMission.text}</Text>
+                    </TouchableOpacity>
+                  )}
+                  {isLastMessageFromBot && lastBotMessage.quickReplies && (
+                    <View style={styles.quickReplyContainer}>
+                      {lastBotMessage.quickReplies.map(reply => (
+                        <TouchableOpacity key={reply} style={styles.quickReplyChip} onPress={() => sendText(reply)}>
+                          <Text style={styles.quickReplyText}>{reply}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  )}
+                </>
               )}
             </View>
           )}
@@ -166,6 +293,15 @@ const HomeScreen = ({ navigation }: Props) => {
           style={styles.keyboardAvoidingView}
           keyboardVerticalOffset={Platform.OS === 'ios' ? 0 : 0}
         >
+          {(outbox.length > 0 || hasFailedMessage) && (
+            <TouchableOpacity style={styles.deliveryStatusPill} onPress={() => navigation.navigate('ChatHistoryScreen')}>
+              <Text style={styles.deliveryStatusText}>
+                {hasFailedMessage
+                  ? '⚠️ 하루에게 전달되지 못한 말이 있어요. 눌러서 다시 보내기'
+                  : `⏳ 연결되면 하루가 꼭 대답할게요 (${outbox.length})`}
+              </Text>
+            </TouchableOpacity>
+          )}
           <View style={styles.chatBarContainer}>
             <TextInput
               style={[styles.textInput, (isAiThinking || !isInitialized) && styles.disabledInput]}
@@ -197,12 +333,11 @@ const styles = StyleSheet.create({
     top: -10,
     right: 30,
     width: 100,
-    height: 80,
     zIndex: 10,
   },
   dayCounterBackground: {
     width: '100%',
-    height: '100%',
+    height: 80,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -215,7 +350,31 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 1, height: 1 },
     textShadowRadius: 3,
   },
+  dayCounterCaption: {
+    fontSize: 11,
+    color: COLORS.gray,
+    textAlign: 'center',
+    marginTop: -8,
+  },
+  todayMissionCard: {
+    position: 'absolute',
+    top: 120,
+    right: 20,
+    width: 170,
+    zIndex: 10,
+    backgroundColor: COLORS.white,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: COLORS.secondary,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  todayMissionCardDone: { borderColor: COLORS.lightGray, opacity: 0.8 },
+  todayMissionLabel: { fontSize: 11, color: COLORS.primary, fontWeight: 'bold' },
+  todayMissionText: { fontSize: 14, color: COLORS.text, marginTop: 2 },
+  todayMissionSwapText: { fontSize: 12, color: COLORS.gray, textDecorationLine: 'underline', marginTop: 6 },
   gpsButton: { position: 'absolute', top: 20, right: 180, padding: 10, backgroundColor: COLORS.secondary, borderRadius: 5, zIndex: 10 },
+  gpsButtonLocked: { opacity: 0.6 },
   gpsButtonText: { color: COLORS.primary, fontSize: 14, fontWeight: 'bold' },
   adminButton: { position: 'absolute', top: 70, right: 20, padding: 10, backgroundColor: COLORS.lightGray, borderRadius: 5, zIndex: 10 },
   adminButtonText: { color: COLORS.white, fontSize: 14 },
@@ -241,6 +400,12 @@ const styles = StyleSheet.create({
   mainContentArea: { flex: 1, justifyContent: 'center', alignItems: 'center' },
   botBubble: { backgroundColor: COLORS.white, padding: 15, borderRadius: 20, borderBottomLeftRadius: 4, maxWidth: width * 0.4, position: 'absolute', bottom: height * 0.5 - 10, left: width * 0.5 + 40, zIndex: 5 },
   botMessageText: { fontSize: 16, color: COLORS.text },
+  missionSuggestionCard: { marginTop: 10, backgroundColor: COLORS.secondary, borderRadius: 10, paddingVertical: 8, paddingHorizontal: 12 },
+  missionSuggestionLabel: { fontSize: 11, color: COLORS.primary, fontWeight: 'bold' },
+  missionSuggestionText: { fontSize: 14, color: COLORS.text, marginTop: 2 },
+  quickReplyContainer: { flexDirection: 'row', flexWrap: 'wrap', marginTop: 8 },
+  quickReplyChip: { borderWidth: 1, borderColor: COLORS.primary, borderRadius: 15, paddingVertical: 5, paddingHorizontal: 10, marginRight: 6, marginTop: 4 },
+  quickReplyText: { fontSize: 13, color: COLORS.primary },
   keyboardAvoidingView: {
     position: 'absolute',
     bottom: 0,
@@ -248,6 +413,15 @@ const styles = StyleSheet.create({
     right: 0,
     zIndex: 20,
   },
+  deliveryStatusPill: {
+    alignSelf: 'center',
+    backgroundColor: 'rgba(255,255,255,0.9)',
+    borderRadius: 15,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginLeft: 100,
+  },
+  deliveryStatusText: { fontSize: 13, color: COLORS.primary },
   chatBarContainer: {
     backgroundColor: 'transparent',
     flexDirection: 'row',
@@ -4,8 +4,9 @@ import { StyleSheet, Text, View, SafeAreaView, TouchableOpacity, Dimensions, Ale
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/RootNavigator';
 import { COLORS } from '../constants/colors';
-import { useAppState } from '../context/AppStateContext';
+import { useAppActions } from '../context/AppStateContext';
 import { Mission } from '../constants/missions'; // Reusing Mission type
+import { OUTSIDE_STAGE } from '../api/missionLadder';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'MarkerMissionScreen'>;
 
@@ -44,7 +45,7 @@ function getMissionForPlace(title: string): { missionTitle: string; description:
 
 const MarkerMissionScreen = ({ route, navigation }: Props) => {
   const { id, title } = route.params;
-  const { completeMission } = useAppState();
+  const { completeMission } = useAppActions();
 
   // Defensive check for params
   if (!id || !title) {
@@ -61,7 +62,17 @@ const MarkerMissionScreen = ({ route, navigation }: Props) => {
   const missionDetails = getMissionForPlace(title);
 
   const handleCompleteMission = () => {
-    const virtualMission: Mission = { id: id, text: missionDetails.description, relatedEmotion: 'outside' };
+    const virtualMission: Mission = {
+      id: id,
+      text: missionDetails.description,
+      description: missionDetails.description,
+      category: 'outside',
+      stage: OUTSIDE_STAGE,
+      difficulty: 3,
+      durationMinutes: 10,
+      relatedEmotions: [],
+      needsPhoto: false,
+    };
     completeMission(virtualMission); // Record mission completion
     Alert.alert("미션 완료!", "대단해요! 미션이 기록되었습니다.");
     navigation.navigate('HomeScreen'); // Go to home screen after completion
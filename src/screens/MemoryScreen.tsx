@@ -0,0 +1,232 @@
+/**
+ * @file src/screens/MemoryScreen.tsx
+ * @description Lets the student see, edit and delete what Haru remembers about them.
+ */
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  SafeAreaView,
+  TouchableOpacity,
+  FlatList,
+  TextInput,
+  Switch,
+  Alert,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/RootNavigator';
+import { useAppActions } from '../context/AppStateContext';
+import { useMemories, useMemoryEnabled } from '../context/stores/settingsStore';
+import { COLORS } from '../constants/colors';
+import { MemoryItem, MemoryCategory, MEMORY_CATEGORIES, MEMORY_CATEGORY_LABELS } from '../api/memory';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'MemoryScreen'>;
+
+const MemoryScreen = ({ navigation }: Props) => {
+  const memories = useMemories();
+  const memoryEnabled = useMemoryEnabled();
+  const { updateMemory, deleteMemory, clearMemories, setMemoryEnabled } = useAppActions();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [editCategory, setEditCategory] = useState<MemoryCategory>('other');
+
+  const startEditing = (item: MemoryItem) => {
+    setEditingId(item.id);
+    setEditText(item.text);
+    setEditCategory(item.category);
+  };
+
+  const handleSave = async () => {
+    if (!editingId) return;
+    if (editText.trim() === '') {
+      Alert.alert('알림', '내용을 입력해 줘. 지우고 싶으면 삭제 버튼을 눌러 줘.');
+      return;
+    }
+    await updateMemory(editingId, editText.trim(), editCategory);
+    setEditingId(null);
+  };
+
+  const handleDelete = (item: MemoryItem) => {
+    Alert.alert(
+      '기억 지우기',
+      `"${item.text}"\n하루가 이 내용을 잊어버릴까?`,
+      [
+        { text: '취소', style: 'cancel' },
+        { text: '지우기', onPress: () => deleteMemory(item.id), style: 'destructive' },
+      ]
+    );
+  };
+
+  const handleClearAll = () => {
+    Alert.alert(
+      '모두 지우기',
+      '하루가 기억하는 내용을 전부 지울까?',
+      [
+        { text: '취소', style: 'cancel' },
+        { text: '모두 지우기', onPress: () => clearMemories(), style: 'destructive' },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: MemoryItem }) => {
+    if (item.id === editingId) {
+      return (
+        <View style={styles.memoryCard}>
+          <View style={styles.categoryRow}>
+            {MEMORY_CATEGORIES.map(category => (
+              <TouchableOpacity
+                key={category}
+                style={[styles.categoryChip, editCategory === category && styles.categoryChipActive]}
+                onPress={() => setEditCategory(category)}
+              >
+                <Text style={[styles.categoryChipText, editCategory === category && styles.categoryChipTextActive]}>
+                  {MEMORY_CATEGORY_LABELS[category]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput style={styles.textInput} value={editText} onChangeText={setEditText} autoFocus />
+          <View style={styles.actionRow}>
+            <TouchableOpacity onPress={() => setEditingId(null)}>
+              <Text style={styles.actionText}>취소</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleSave}>
+              <Text style={[styles.actionText, styles.actionTextPrimary]}>저장</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.memoryCard}>
+        <Text style={styles.categoryLabel}>{MEMORY_CATEGORY_LABELS[item.category]}</Text>
+        <Text style={styles.memoryText}>{item.text}</Text>
+        <View style={styles.actionRow}>
+          <TouchableOpacity onPress={() => startEditing(item)}>
+            <Text style={styles.actionText}>고치기</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleDelete(item)}>
+            <Text style={[styles.actionText, styles.actionTextDanger]}>지우기</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>하루가 기억하는 나</Text>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.closeButton}>닫기</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.content}>
+        <View style={styles.switchContainer}>
+          <View style={styles.switchTextContainer}>
+            <Text style={styles.switchLabel}>하루가 나에 대해 기억하기</Text>
+            <Text style={styles.descriptionText}>
+              대화 속에서 별명, 좋아하는 것, 도움이 됐던 것 같은 내용을 기억해 두고 다음 대화에 참고해.
+              끄면 새로 기억하지 않고, 기억한 내용도 대화에 쓰지 않아.
+            </Text>
+          </View>
+          <Switch
+            trackColor={{ false: COLORS.gray, true: COLORS.primary }}
+            thumbColor={COLORS.white}
+            ios_backgroundColor={COLORS.lightGray}
+            onValueChange={setMemoryEnabled}
+            value={memoryEnabled}
+          />
+        </View>
+
+        <FlatList
+          data={memories}
+          renderItem={renderItem}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>아직 하루가 기억하는 내용이 없어요.</Text>
+            </View>
+          }
+          ListFooterComponent={memories.length > 0 ? (
+            <TouchableOpacity style={styles.clearButton} onPress={handleClearAll}>
+              <Text style={styles.clearButtonText}>모두 지우기</Text>
+            </TouchableOpacity>
+          ) : null}
+        />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 30,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.lightGray,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: COLORS.text,
+  },
+  closeButton: {
+    fontSize: 16,
+    color: COLORS.primary,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 40,
+    paddingTop: 15,
+  },
+  switchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.white,
+    borderRadius: 10,
+    padding: 15,
+    marginBottom: 15,
+  },
+  switchTextContainer: { flex: 1, marginRight: 10 },
+  switchLabel: { fontSize: 16, fontWeight: 'bold', color: COLORS.text },
+  descriptionText: { fontSize: 13, color: COLORS.gray, marginTop: 4 },
+  listContent: { paddingBottom: 30 },
+  memoryCard: {
+    backgroundColor: COLORS.white,
+    borderRadius: 10,
+    padding: 15,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: COLORS.lightGray,
+  },
+  categoryLabel: { fontSize: 12, color: COLORS.primary, fontWeight: 'bold', marginBottom: 4 },
+  memoryText: { fontSize: 16, color: COLORS.text },
+  actionRow: { flexDirection: 'row', justifyContent: 'flex-end', marginTop: 10 },
+  actionText: { fontSize: 14, color: COLORS.gray, marginLeft: 20 },
+  actionTextPrimary: { color: COLORS.primary, fontWeight: 'bold' },
+  actionTextDanger: { color: COLORS.danger },
+  categoryRow: { flexDirection: 'row', flexWrap: 'wrap', marginBottom: 10 },
+  categoryChip: { borderWidth: 1, borderColor: COLORS.primary, borderRadius: 15, paddingVertical: 5, paddingHorizontal: 10, marginRight: 6, marginBottom: 6 },
+  categoryChipActive: { backgroundColor: COLORS.primary },
+  categoryChipText: { fontSize: 12, color: COLORS.primary },
+  categoryChipTextActive: { color: COLORS.white, fontWeight: 'bold' },
+  textInput: { borderWidth: 1, borderColor: COLORS.lightGray, borderRadius: 8, padding: 10, fontSize: 16, backgroundColor: COLORS.white },
+  emptyContainer: { alignItems: 'center', paddingTop: 40 },
+  emptyText: { fontSize: 16, color: COLORS.gray },
+  clearButton: { alignSelf: 'center', marginTop: 10, padding: 10 },
+  clearButtonText: { fontSize: 14, color: COLORS.danger, textDecorationLine: 'underline' },
+});
+
+export default MemoryScreen;
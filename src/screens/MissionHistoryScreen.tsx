@@ -0,0 +1,400 @@
+/**
+ * @file src/screens/MissionHistoryScreen.tsx
+ * @description Every completed mission: a month calendar shaded by how many missions were done each day,
+ * and a gallery of the records with their proof photos. Records can be opened full-screen and deleted.
+ */
+import React, { useState, useMemo } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  SafeAreaView,
+  TouchableOpacity,
+  FlatList,
+  Modal,
+  Alert,
+} from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/RootNavigator';
+import { useAppActions, CompletedMission } from '../context/AppStateContext';
+import { useMissionHistory } from '../context/stores/missionStore';
+import { MissionRecordKind, getMissionRecordKind, countMissionsByDate, getMonthWeeks } from '../api/missionHistory';
+import { getLocalDateString } from '../api/progress';
+import { COLORS } from '../constants/colors';
+import { MISSION_CATEGORY_LABELS } from '../constants/missions';
+import MissionPhoto from '../components/MissionPhoto';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'MissionHistoryScreen'>;
+
+const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+
+const KIND_FILTERS: (MissionRecordKind | null)[] = [null, 'room', 'body', 'social', 'outside', 'map'];
+
+const getKindLabel = (kind: MissionRecordKind | null) =>
+  kind === null ? '전체' : kind === 'map' ? '지도' : MISSION_CATEGORY_LABELS[kind];
+
+// Darker shades for days with more missions; three or more share the darkest.
+const HEAT_COLORS = ['transparent', 'rgba(138, 124, 154, 0.3)', 'rgba(138, 124, 154, 0.6)', COLORS.primary];
+
+const GALLERY_COLUMNS = 3;
+
+const MissionHistoryScreen = ({ navigation }: Props) => {
+  const missionHistory = useMissionHistory();
+  const { deleteMissionRecord } = useAppActions();
+  const today = getLocalDateString();
+  const [shownMonth, setShownMonth] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() };
+  });
+  const [kindFilter, setKindFilter] = useState<MissionRecordKind | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [openRecord, setOpenRecord] = useState<CompletedMission | null>(null);
+
+  const kindRecords = useMemo(
+    () => kindFilter ? missionHistory.filter(record => getMissionRecordKind(record) === kindFilter) : missionHistory,
+    [missionHistory, kindFilter]
+  );
+  const countsByDate = useMemo(() => countMissionsByDate(kindRecords), [kindRecords]);
+  const weeks = useMemo(() => getMonthWeeks(shownMonth.year, shownMonth.month), [shownMonth]);
+  const shownRecords = useMemo(
+    () => selectedDate ? kindRecords.filter(record => record.date === selectedDate) : kindRecords,
+    [kindRecords, selectedDate]
+  );
+  const photoCount = useMemo(() => missionHistory.filter(record => record.photoUri).length, [missionHistory]);
+
+  const moveMonth = (offset: number) => {
+    const date = new Date(shownMonth.year, shownMonth.month + offset, 1);
+    setShownMonth({ year: date.getFullYear(), month: date.getMonth() });
+    setSelectedDate(null);
+  };
+
+  const handleDelete = (record: CompletedMission) => {
+    Alert.alert(
+      '기록 지우기',
+      `'${record.missionName}' 기록${record.photoUri ? '과 사진' : ''}을 지울까? 지우면 되돌릴 수 없어.`,
+      [
+        { text: '취소', style: 'cancel' },
+        {
+          text: '지우기',
+          style: 'destructive',
+          onPress: async () => {
+            setOpenRecord(null);
+            await deleteMissionRecord(record.id);
+          },
+        },
+      ]
+    );
+  };
+
+  const renderDay = (date: string | null, index: number) => {
+    if (!date) return <View key={index} style={styles.dayCell} />;
+    const count = countsByDate.get(date) ?? 0;
+    return (
+      <TouchableOpacity
+        key={date}
+        style={[
+          styles.dayCell,
+          { backgroundColor: HEAT_COLORS[Math.min(count, HEAT_COLORS.length - 1)] },
+          date === today && styles.todayCell,
+          date === selectedDate && styles.selectedDayCell,
+        ]}
+        onPress={() => setSelectedDate(prev => (prev === date ? null : date))}
+        disabled={count === 0}
+      >
+        <Text style={[styles.dayText, count >= 2 && styles.dayTextOnDark]}>{Number(date.slice(-2))}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderRecord = ({ item }: { item: CompletedMission }) => (
+    <TouchableOpacity style={styles.galleryTile} onPress={() => setOpenRecord(item)} onLongPress={() => handleDelete(item)}>
+      {item.photoUri ? (
+        <MissionPhoto mission={item} thumbnail style={styles.galleryImage} />
+      ) : (
+        <View style={[styles.galleryImage, styles.galleryTextTile]}>
+          <Text style={styles.galleryTextTileText} numberOfLines={3}>{item.missionName}</Text>
+        </View>
+      )}
+      <Text style={styles.galleryDate}>{item.date}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>미션 기록</Text>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.closeButton}>닫기</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.filterRow}>
+        {KIND_FILTERS.map(kind => (
+          <TouchableOpacity
+            key={kind ?? 'all'}
+            style={[styles.filterChip, kindFilter === kind && styles.filterChipActive]}
+            onPress={() => setKindFilter(kind)}
+          >
+            <Text style={[styles.filterChipText, kindFilter === kind && styles.filterChipTextActive]}>{getKindLabel(kind)}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.mainContent}>
+        <View style={styles.calendarColumn}>
+          <View style={styles.monthHeader}>
+            <TouchableOpacity onPress={() => moveMonth(-1)}>
+              <Text style={styles.monthArrow}>‹</Text>
+            </TouchableOpacity>
+            <Text style={styles.monthTitle}>{shownMonth.year}년 {shownMonth.month + 1}월</Text>
+            <TouchableOpacity onPress={() => moveMonth(1)}>
+              <Text style={styles.monthArrow}>›</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.weekRow}>
+            {WEEKDAY_LABELS.map(label => (
+              <Text key={label} style={[styles.dayCell, styles.weekdayText]}>{label}</Text>
+            ))}
+          </View>
+          {weeks.map((week, weekIndex) => (
+            <View key={weekIndex} style={styles.weekRow}>
+              {week.map(renderDay)}
+            </View>
+          ))}
+          <Text style={styles.summaryText}>
+            지금까지 미션 {missionHistory.length}개, 사진 {photoCount}장을 모았어요.
+          </Text>
+        </View>
+
+        <View style={styles.galleryColumn}>
+          <Text style={styles.galleryTitle}>
+            {selectedDate ? `${selectedDate}의 기록` : '모든 기록'} ({shownRecords.length})
+          </Text>
+          <FlatList
+            data={shownRecords}
+            keyExtractor={item => item.id}
+            renderItem={renderRecord}
+            numColumns={GALLERY_COLUMNS}
+            ListEmptyComponent={<Text style={styles.emptyText}>아직 완료한 미션이 없어요.</Text>}
+          />
+        </View>
+      </View>
+
+      <Modal visible={openRecord !== null} transparent animationType="fade" onRequestClose={() => setOpenRecord(null)}>
+        {openRecord && (
+          <View style={styles.viewer}>
+            {openRecord.photoUri && <MissionPhoto mission={openRecord} style={styles.viewerImage} />}
+            <Text style={styles.viewerTitle}>{openRecord.missionName}</Text>
+            <Text style={styles.viewerDate}>{openRecord.date}</Text>
+            <View style={styles.viewerActions}>
+              <TouchableOpacity style={styles.viewerButton} onPress={() => setOpenRecord(null)}>
+                <Text style={styles.viewerButtonText}>닫기</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.viewerButton, styles.viewerDeleteButton]} onPress={() => handleDelete(openRecord)}>
+                <Text style={styles.viewerButtonText}>지우기</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 30,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.lightGray,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: COLORS.text,
+  },
+  closeButton: {
+    fontSize: 16,
+    color: COLORS.primary,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 30,
+    paddingTop: 10,
+  },
+  filterChip: {
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    borderRadius: 15,
+    paddingVertical: 5,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 5,
+  },
+  filterChipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: COLORS.primary,
+  },
+  filterChipTextActive: {
+    color: COLORS.white,
+  },
+  mainContent: {
+    flex: 1,
+    flexDirection: 'row',
+    padding: 20,
+  },
+  calendarColumn: {
+    width: '40%',
+    paddingRight: 20,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  monthArrow: {
+    fontSize: 24,
+    color: COLORS.primary,
+    paddingHorizontal: 12,
+  },
+  monthTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: COLORS.text,
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  dayCell: {
+    flex: 1,
+    aspectRatio: 1,
+    margin: 2,
+    borderRadius: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  todayCell: {
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+  },
+  selectedDayCell: {
+    borderWidth: 2,
+    borderColor: COLORS.text,
+  },
+  weekdayText: {
+    fontSize: 12,
+    color: COLORS.gray,
+    textAlign: 'center',
+    textAlignVertical: 'center',
+  },
+  dayText: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  dayTextOnDark: {
+    color: COLORS.white,
+    fontWeight: 'bold',
+  },
+  summaryText: {
+    fontSize: 14,
+    color: COLORS.primary,
+    marginTop: 15,
+    textAlign: 'center',
+  },
+  galleryColumn: {
+    flex: 1,
+  },
+  galleryTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: COLORS.text,
+    marginBottom: 10,
+  },
+  galleryTile: {
+    flex: 1 / GALLERY_COLUMNS,
+    padding: 4,
+  },
+  galleryImage: {
+    width: '100%',
+    aspectRatio: 4 / 3,
+    borderRadius: 8,
+  },
+  galleryTextTile: {
+    backgroundColor: COLORS.secondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 8,
+  },
+  galleryTextTileText: {
+    fontSize: 13,
+    color: COLORS.text,
+    textAlign: 'center',
+  },
+  galleryDate: {
+    fontSize: 11,
+    color: COLORS.gray,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: COLORS.gray,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.9)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  viewerImage: {
+    width: '90%',
+    height: '70%',
+    resizeMode: 'contain',
+  },
+  viewerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: COLORS.white,
+    marginTop: 15,
+  },
+  viewerDate: {
+    fontSize: 14,
+    color: COLORS.lightGray,
+    marginTop: 4,
+  },
+  viewerActions: {
+    flexDirection: 'row',
+    marginTop: 15,
+  },
+  viewerButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 25,
+    borderRadius: 10,
+    backgroundColor: COLORS.primary,
+    marginHorizontal: 8,
+  },
+  viewerDeleteButton: {
+    backgroundColor: COLORS.danger,
+  },
+  viewerButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: COLORS.white,
+  },
+});
+
+export default MissionHistoryScreen;
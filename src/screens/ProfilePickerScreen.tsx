@@ -0,0 +1,143 @@
+/**
+ * @file src/screens/ProfilePickerScreen.tsx
+ * @description Shown at launch so each student on a shared tablet picks their own profile before meeting Haru.
+ */
+import React, { useState } from 'react';
+import { StyleSheet, Text, View, SafeAreaView, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { useAppActions } from '../context/AppStateContext';
+import { useProfiles } from '../context/stores/profileStore';
+import { getProfileInitial } from '../api/profiles';
+import { COLORS } from '../constants/colors';
+import ProfileEditor from '../components/ProfileEditor';
+
+const ProfilePickerScreen = () => {
+  const { profiles, isProfilesLoaded } = useProfiles();
+  const { openProfile, createProfile } = useAppActions();
+  const [isCreating, setIsCreating] = useState(false);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  const handleOpen = async (id: string) => {
+    setOpeningId(id);
+    await openProfile(id);
+    setOpeningId(null);
+  };
+
+  const handleCreate = async (nickname: string, avatar?: string) => {
+    const profile = await createProfile(nickname, avatar);
+    setIsCreating(false);
+    await handleOpen(profile.id);
+  };
+
+  if (!isProfilesLoaded) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ActivityIndicator style={StyleSheet.absoluteFill} size="large" color={COLORS.primary} />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <Text style={styles.title}>{profiles.length === 0 ? '하루를 처음 만나러 왔구나!' : '누가 하루를 만나러 왔나요?'}</Text>
+
+        <View style={styles.profileGrid}>
+          {profiles.map(profile => (
+            <TouchableOpacity
+              key={profile.id}
+              style={styles.profileCard}
+              onPress={() => handleOpen(profile.id)}
+              disabled={openingId !== null}
+            >
+              <View style={styles.avatarCircle}>
+                {openingId === profile.id
+                  ? <ActivityIndicator color={COLORS.white} />
+                  : <Text style={styles.avatarText}>{getProfileInitial(profile)}</Text>}
+              </View>
+              <Text style={styles.nicknameText} numberOfLines={1}>{profile.nickname}</Text>
+            </TouchableOpacity>
+          ))}
+          {!isCreating && profiles.length > 0 && (
+            <TouchableOpacity style={styles.profileCard} onPress={() => setIsCreating(true)} disabled={openingId !== null}>
+              <View style={[styles.avatarCircle, styles.addCircle]}>
+                <Text style={[styles.avatarText, styles.addText]}>+</Text>
+              </View>
+              <Text style={styles.nicknameText}>새 친구</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {(isCreating || profiles.length === 0) && (
+          <View style={styles.editorContainer}>
+            <ProfileEditor
+              saveLabel="시작하기"
+              onCancel={profiles.length > 0 ? () => setIsCreating(false) : undefined}
+              onSave={handleCreate}
+            />
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  scrollContainer: {
+    alignItems: 'center',
+    paddingHorizontal: 40,
+    paddingVertical: 40,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: COLORS.text,
+    marginBottom: 30,
+  },
+  profileGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  profileCard: {
+    width: 120,
+    alignItems: 'center',
+    margin: 12,
+  },
+  avatarCircle: {
+    width: 90,
+    height: 90,
+    borderRadius: 45,
+    backgroundColor: COLORS.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  addCircle: {
+    backgroundColor: COLORS.white,
+    borderWidth: 2,
+    borderColor: COLORS.secondary,
+    borderStyle: 'dashed',
+  },
+  avatarText: {
+    fontSize: 40,
+    color: COLORS.white,
+  },
+  addText: {
+    color: COLORS.primary,
+  },
+  nicknameText: {
+    fontSize: 16,
+    color: COLORS.text,
+  },
+  editorContainer: {
+    width: '100%',
+    maxWidth: 480,
+    marginTop: 20,
+  },
+});
+
+export default ProfilePickerScreen;
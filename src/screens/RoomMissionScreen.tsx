@@ -5,8 +5,16 @@
  * @changelog
  * - Added `try/catch` blocks to `pickImage` and `takePhoto` to handle potential errors from the ImagePicker library.
  * - Added `isSubmitting` state to disable all buttons during the mission completion process, preventing duplicate actions and race conditions.
+ * - Opening the screen with a `missionId` param (e.g. from Haru's mission suggestion) skips straight to that mission.
+ * - Choosing a mission is written to the usage log.
+ * - The list comes from the mission catalog, ordered by `recommendMissions`: missions that suit the student's latest
+ *   mood pick and Haru's recent looks are marked, and recently done missions move to the end.
+ * - Missions that do not need a photo can be completed without one.
+ * - Recent records show the photo's thumbnail (or a placeholder if the file is gone) and can be deleted with a long press.
+ * - Only missions of unlocked ladder stages are offered; the next locked stage is shown below them with Haru's encouragement.
+ * - "전체 보기" next to the recent records opens MissionHistoryScreen.
  */
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   StyleSheet,
   Text,
@@ -23,26 +31,50 @@ import {
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import * as ImagePicker from 'expo-image-picker';
 import { RootStackParamList } from '../navigation/RootNavigator';
-import { useAppState } from '../context/AppStateContext';
+import MissionPhoto from '../components/MissionPhoto';
+import { useAppActions } from '../context/AppStateContext';
+import { useMissionHistory, useLadderProgress } from '../context/stores/missionStore';
+import { useChatHistory } from '../context/stores/chatStore';
+import { getMoodSignals, recommendMissions, RecommendedMission } from '../api/missionCatalog';
+import { getUnlockedMissions, getNextLockedStage, getLockedStageMessage } from '../api/missionLadder';
 import { COLORS } from '../constants/colors';
-import { MISSIONS, Mission } from '../constants/missions';
+import { MISSIONS, Mission, MISSION_STAGES, MISSION_CATEGORY_LABELS, MISSION_DIFFICULTY_LABELS } from '../constants/missions';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'RoomMissionScreen'>;
 
 // Mission Card Component
-const MissionItem = ({ mission, onSelect, disabled }: { mission: Mission, onSelect: (mission: Mission) => void, disabled: boolean }) => (
-  <View style={styles.missionCard}>
-    <Text style={styles.missionCardText}>{mission.text}</Text>
-    <TouchableOpacity style={[styles.missionSelectButton, disabled && styles.disabledButton]} onPress={() => onSelect(mission)} disabled={disabled}>
+const MissionItem = ({ item, onSelect, disabled }: { item: RecommendedMission, onSelect: (mission: Mission) => void, disabled: boolean }) => (
+  <View style={[styles.missionCard, item.isRecommended && styles.recommendedMissionCard, item.isRecent && styles.recentMissionCard]}>
+    <View style={styles.missionCardInfo}>
+      <Text style={styles.missionCardText}>
+        {item.isRecommended && <Text style={styles.recommendedBadge}>추천 </Text>}
+        {item.mission.text}
+      </Text>
+      <Text style={styles.missionCardMeta}>
+        {MISSION_CATEGORY_LABELS[item.mission.category]} · {MISSION_DIFFICULTY_LABELS[item.mission.difficulty]} · {item.mission.durationMinutes}분
+        {item.mission.needsPhoto ? ' · 📸' : ''}
+        {item.isRecent ? ` · ${item.lastCompletedDate}에 했어` : ''}
+      </Text>
+    </View>
+    <TouchableOpacity style={[styles.missionSelectButton, disabled && styles.disabledButton]} onPress={() => onSelect(item.mission)} disabled={disabled}>
       <Text style={styles.missionSelectButtonText}>이 미션 할래</Text>
     </TouchableOpacity>
   </View>
 );
 
-const RoomMissionScreen = ({ navigation }: Props) => {
-  const { missionHistory, completeMission } = useAppState();
+const RoomMissionScreen = ({ navigation, route }: Props) => {
+  const missionHistory = useMissionHistory();
+  const chatHistory = useChatHistory();
+  const ladderProgress = useLadderProgress();
+  const { completeMission, deleteMissionRecord, logUsageEvent } = useAppActions();
 
-  const missionList = MISSIONS;
+  const missionList = useMemo(
+    () => recommendMissions(getMoodSignals(chatHistory), missionHistory, 3, getUnlockedMissions(ladderProgress)),
+    [chatHistory, missionHistory, ladderProgress]
+  );
+  const hasRecommendation = missionList.some(item => item.isRecommended);
+  const currentStageLabel = MISSION_STAGES.find(stage => stage.id === ladderProgress.currentStage)?.label;
+  const nextLockedStage = getNextLockedStage(ladderProgress);
 
   const [currentMission, setCurrentMission] = useState<Mission | null>(null);
   const [imageUri, setImageUri] = useState<string | null>(null);
@@ -50,10 +82,24 @@ const RoomMissionScreen = ({ navigation }: Props) => {
   const [isSubmitting, setIsSubmitting] = useState(false); // Loading state for completion
 
   const handleSelectMission = (mission: Mission) => {
+    logUsageEvent('mission_started', mission.id);
     setCurrentMission(mission);
     setStep('photo');
   };
 
+  const requestedMissionId = route.params?.missionId;
+  useEffect(() => {
+    const requestedMission = MISSIONS.find(mission => mission.id === requestedMissionId);
+    if (!requestedMission) return;
+    const stage = ladderProgress.stages.find(item => item.stage === requestedMission.stage);
+    if (stage && !stage.isUnlocked) {
+      Alert.alert("하루", getLockedStageMessage(stage));
+      return;
+    }
+    setImageUri(null);
+    handleSelectMission(requestedMission);
+  }, [requestedMissionId]);
+
   const pickImage = async () => {
     if (isSubmitting) return;
     try {
@@ -127,12 +173,25 @@ const RoomMissionScreen = ({ navigation }: Props) => {
     }
   };
 
+  const isPhotoMissing = !imageUri && currentMission?.needsPhoto !== false;
+
+  const handleDeleteRecord = (item: typeof missionHistory[0]) => {
+    Alert.alert(
+      '기록 지우기',
+      `'${item.missionName}' 기록${item.photoUri ? '과 사진' : ''}을 지울까?`,
+      [
+        { text: '취소', style: 'cancel' },
+        { text: '지우기', style: 'destructive', onPress: () => deleteMissionRecord(item.id) },
+      ]
+    );
+  };
+
   const renderHistoryItem = ({ item }: { item: typeof missionHistory[0] }) => (
-    <View style={styles.historyItem}>
+    <TouchableOpacity style={styles.historyItem} onLongPress={() => handleDeleteRecord(item)} disabled={isSubmitting}>
       <Text style={styles.historyDate}>{item.date}</Text>
       <Text style={styles.historyText} numberOfLines={1}>{item.missionName}</Text>
-      {item.photoUri && <Text style={styles.historyIcon}>📸</Text>}
-    </View>
+      {item.photoUri && <MissionPhoto mission={item} thumbnail style={styles.historyThumbnail} />}
+    </TouchableOpacity>
   );
   
   const renderContent = () => {
@@ -145,11 +204,22 @@ const RoomMissionScreen = ({ navigation }: Props) => {
         return (
           <>
             <Text style={styles.cardTitle}>오늘의 미션</Text>
-            <Text style={styles.cardSubtitle}>마음에 드는 미션을 골라봐.</Text>
+            {currentStageLabel && <Text style={styles.stageText}>지금은 '{currentStageLabel}' 단계</Text>}
+            <Text style={styles.cardSubtitle}>
+              {hasRecommendation ? '요즘 기분에 맞을 것 같은 걸 위에 골라놨어.' : '마음에 드는 미션을 골라봐.'}
+            </Text>
             <FlatList
               data={missionList}
-              renderItem={({ item }) => <MissionItem mission={item} onSelect={handleSelectMission} disabled={isSubmitting} />}
-              keyExtractor={item => item.id}
+              renderItem={({ item }) => <MissionItem item={item} onSelect={handleSelectMission} disabled={isSubmitting} />}
+              keyExtractor={item => item.mission.id}
+              ListFooterComponent={nextLockedStage && (
+                <View style={styles.lockedStageCard}>
+                  <Text style={styles.lockedStageTitle}>
+                    🔒 {MISSION_STAGES.find(stage => stage.id === nextLockedStage.stage)?.label}
+                  </Text>
+                  <Text style={styles.lockedStageText}>하루: {getLockedStageMessage(nextLockedStage)}</Text>
+                </View>
+              )}
               style={styles.missionList}
               contentContainerStyle={{ paddingBottom: 20 }}
             />
@@ -163,7 +233,9 @@ const RoomMissionScreen = ({ navigation }: Props) => {
               <Image source={{ uri: imageUri }} style={styles.thumbnail} />
             ) : (
               <View style={styles.photoChoiceContainer}>
-                <Text style={styles.photoInfoText}>미션을 완료했음을 사진으로 인증해줘!</Text>
+                <Text style={styles.photoInfoText}>
+                  {currentMission?.needsPhoto ? '미션을 완료했음을 사진으로 인증해줘!' : '사진은 남기고 싶을 때만 찍어도 돼.'}
+                </Text>
                 <View style={styles.buttonContainer}>
                   <TouchableOpacity style={[styles.button, styles.photoButton, isSubmitting && styles.disabledButton]} onPress={takePhoto} disabled={isSubmitting}>
                       <Text style={[styles.buttonText, styles.primaryButtonText]}>📸 사진 찍기</Text>
@@ -175,9 +247,9 @@ const RoomMissionScreen = ({ navigation }: Props) => {
               </View>
             )}
             <TouchableOpacity
-              style={[styles.button, styles.primaryButton, styles.fullWidthButton, (!imageUri || isSubmitting) && styles.disabledButton]}
+              style={[styles.button, styles.primaryButton, styles.fullWidthButton, (isPhotoMissing || isSubmitting) && styles.disabledButton]}
               onPress={handleComplete}
-              disabled={!imageUri || isSubmitting}
+              disabled={isPhotoMissing || isSubmitting}
             >
               <Text style={[styles.buttonText, styles.primaryButtonText]}>완료했다!</Text>
             </TouchableOpacity>
@@ -200,7 +272,12 @@ const RoomMissionScreen = ({ navigation }: Props) => {
         <View style={styles.mainContent}>
           {/* Left Column: History */}
           <View style={styles.leftColumn}>
-            <Text style={styles.sectionTitle}>최근 기록</Text>
+            <View style={styles.historyHeader}>
+              <Text style={styles.sectionTitle}>최근 기록</Text>
+              <TouchableOpacity onPress={() => navigation.navigate('MissionHistoryScreen')} disabled={isSubmitting}>
+                <Text style={styles.historyLink}>전체 보기</Text>
+              </TouchableOpacity>
+            </View>
             {missionHistory.length > 0 ? (
               <FlatList
                 data={missionHistory}
@@ -250,6 +327,19 @@ const styles = StyleSheet.create({
     flex: 1,
     justifyContent: 'center',
   },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  historyLink: {
+    fontSize: 14,
+    color: COLORS.white,
+    textDecorationLine: 'underline',
+    textShadowColor: 'rgba(0, 0, 0, 0.75)',
+    textShadowOffset: { width: -1, height: 1 },
+    textShadowRadius: 10,
+  },
   sectionTitle: {
     fontSize: 20,
     fontWeight: 'bold',
@@ -272,7 +362,7 @@ const styles = StyleSheet.create({
   },
   historyDate: { color: COLORS.lightGray, fontSize: 12 },
   historyText: { color: COLORS.white, flex: 1, marginHorizontal: 8, fontSize: 14, },
-  historyIcon: { fontSize: 14 },
+  historyThumbnail: { width: 28, height: 28, borderRadius: 4 },
   noHistoryContainer: {
       flex: 1,
       justifyContent: 'center',
@@ -304,9 +394,31 @@ const styles = StyleSheet.create({
     color: COLORS.text,
     marginBottom: 20,
   },
+  stageText: {
+    fontSize: 13,
+    color: COLORS.gray,
+    marginBottom: 5,
+  },
   missionList: {
     width: '100%',
   },
+  lockedStageCard: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: COLORS.gray,
+    padding: 15,
+  },
+  lockedStageTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: COLORS.gray,
+  },
+  lockedStageText: {
+    fontSize: 14,
+    color: COLORS.text,
+    marginTop: 6,
+  },
   missionCard: {
     backgroundColor: COLORS.lightGray,
     borderRadius: 10,
@@ -316,10 +428,28 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 10,
   },
+  recommendedMissionCard: {
+    borderWidth: 2,
+    borderColor: COLORS.secondary,
+  },
+  recentMissionCard: {
+    opacity: 0.6,
+  },
+  missionCardInfo: {
+    flex: 1,
+  },
   missionCardText: {
     fontSize: 16,
     color: COLORS.text,
-    flex: 1,
+  },
+  recommendedBadge: {
+    color: COLORS.secondary,
+    fontWeight: 'bold',
+  },
+  missionCardMeta: {
+    fontSize: 12,
+    color: COLORS.gray,
+    marginTop: 4,
   },
   missionSelectButton: {
     backgroundColor: COLORS.secondary,